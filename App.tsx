@@ -1,180 +1,934 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { Canvas } from '@react-three/fiber';
-import { Message, HistoryItem, AppMode, ExplainTrace } from './types';
+import { Message, HistoryItem, AppMode, ExplainTrace, TraceIssue, AnswerVersion, Conversation, GroundingDocument } from './types';
 import { ChatPanel } from './components/ChatPanel';
-import { ReasoningGraph } from './components/ReasoningGraph';
+import { ReasoningGraph, getNodeColor } from './components/ReasoningGraph';
 import { ReasoningGallery } from './components/ReasoningGallery';
 import { ReasoningOverlay } from './components/ReasoningOverlay';
-import { fetchGeminiResponse } from './services/geminiService';
-import { Layout, BrainCircuit, Activity, Database } from 'lucide-react';
+import { ConversationSidebar } from './components/ConversationSidebar';
+import { NodeInspector } from './components/NodeInspector';
+import { PlaybackControls } from './components/PlaybackControls';
+import { CompareOverlay } from './components/CompareOverlay';
+import { HistoryItemPatch } from './components/HistoryItemEditor';
+import { ReasoningGraph2D } from './components/ReasoningGraph2D';
+import { TraceOutline } from './components/TraceOutline';
+import { GraphErrorBoundary } from './components/GraphErrorBoundary';
+import { isWebGLAvailable } from './services/webgl';
+import { createReasoningProvider } from './services/reasoningProvider';
+import { generateWithRetry } from './services/reasoningClient';
+import { describeReasoningFailure, isAbortError } from './services/reasoningErrors';
+import {
+  ACTIVE_CONVERSATION_STORAGE_KEY,
+  DEFAULT_CONVERSATION_TITLE,
+  createConversation,
+  deriveConversationTitle,
+} from './services/conversations';
+import {
+  StorageQuotaError,
+  StorageUnavailableError,
+  createCollectionSync,
+  loadStoredData,
+  readQuarantine,
+  putHistoryItems,
+  deleteHistoryItems,
+  putConversations,
+  deleteConversations,
+  saveThumbnail,
+  saveThumbnailBlob,
+  revokeThumbnailUrl,
+  readLocalValue,
+  writeLocalValue,
+} from './services/storage';
+import {
+  BundleError,
+  BundleScope,
+  createBundle,
+  createBundleZip,
+  mergeBundle,
+  readBundleFile,
+  serializeBundle,
+} from './services/historyBundle';
+import { downloadBlob, filenameTimestamp } from './services/download';
+import { PLAYBACK_INTERVAL_MS, buildPlaybackFrames, frameForStep } from './services/playback';
+import { TraceDiff, diffTraces } from './services/traceDiff';
+import { GraphExportMeta, GraphFormat, downloadGraphExport } from './services/graphExport';
+import { ReportFormat, downloadTraceReport } from './services/traceReport';
+import { generateConsensus, parseSampleCount } from './services/selfConsistency';
+import { ShareError, ShareTarget, createShareLink, isShareHash, readShareHash, renderShareHtml } from './services/share';
+import { DocumentReadError, buildGroundingIndex, createTextDocument, readDocumentFile, retrieveSources } from './services/grounding';
+import { Layout, BrainCircuit, Activity, Database, AlertTriangle, CheckCircle2, GitCompare, Info, ListTree, X, Eye, Save } from 'lucide-react';
 import { clsx } from 'clsx';
 
-const STORAGE_KEY = 'neuroviz_history';
+// Selected once at startup from NEUROVIZ_PROVIDER (see vite.config.ts)
+const reasoningProvider = createReasoningProvider();
+const STREAMING_ENABLED = process.env.NEUROVIZ_STREAMING !== 'false';
+const UNDO_TIMEOUT_MS = 8000;
+const GRAPH_VIEW_STORAGE_KEY = 'neuroviz_graph_view';
+const SAMPLE_COUNT_STORAGE_KEY = 'neuroviz_sample_count';
 
 function App() {
   // -- State --
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Conversations (each with its own messages); there is always at least one
+  const [conversations, setConversations] = useState<Conversation[]>(() => [createConversation()]);
+  const [activeConversationId, setActiveConversationId] = useState<string>(() => conversations[0].id);
+  // Latest conversations for async callbacks (the stored data arriving after the first render)
+  const conversationsRef = useRef(conversations);
+  const [sidebarOpen, setSidebarOpen] = useState(true);
+  const activeConversation = conversations.find(c => c.id === activeConversationId) || conversations[0];
+  const messages = activeConversation.messages;
+  // Chunked once per change of the chat's documents, not per question
+  const groundingIndex = useMemo(() => buildGroundingIndex(activeConversation.documents || []), [activeConversation.documents]);
   const [input, setInput] = useState('');
   const [isSending, setIsSending] = useState(false);
+  // Self-consistency mode: more than one sample merges several answers into a consensus trace
+  const [sampleCount, setSampleCount] = useState(() => parseSampleCount(readLocalValue(SAMPLE_COUNT_STORAGE_KEY)));
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // History / Gallery
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [activeHistoryItem, setActiveHistoryItem] = useState<HistoryItem | null>(null);
+  // Trace opened from a share link; shown read-only and kept out of the history until saved
+  const [sharedItem, setSharedItem] = useState<HistoryItem | null>(null);
+  const viewingShared = sharedItem !== null && activeHistoryItem === sharedItem;
 
   // Visualization State
   const [vizMode, setVizMode] = useState<AppMode>(AppMode.IDLE);
   const [vizData, setVizData] = useState<ExplainTrace | null>(null);
+  const [vizIssues, setVizIssues] = useState<TraceIssue[]>([]);
+  // Identifies the trace being shown; a new key restarts the graph layout and entrance animation
+  const [vizKey, setVizKey] = useState<string | null>(null);
+  // Node opened in the inspector; cleared whenever a different trace is shown
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  // Node to select once the next trace is shown (e.g. the node a search result matched)
+  const pendingNodeSelectionRef = useRef<string | null>(null);
+  // Step-by-step playback of the shown trace; null frame means the full graph
+  const [playbackFrame, setPlaybackFrame] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const playbackFrames = useMemo(() => buildPlaybackFrames(vizData), [vizData]);
+  const currentFrame = playbackFrame !== null ? playbackFrames[playbackFrame] : undefined;
+  // History item behind the graph; fresh answers are found by their trace
+  const vizItem = useMemo(
+    () => activeHistoryItem ?? (vizData ? history.find(h => h.explain_trace === vizData) : undefined) ?? null,
+    [activeHistoryItem, vizData, history]
+  );
+  // Memoized: the graph component only re-renders on prop changes
+  const graphExportMeta = useMemo<GraphExportMeta | undefined>(() => vizItem
+    ? { id: vizItem.id, title: vizItem.title, question: vizItem.question, answer: vizItem.answer }
+    : undefined, [vizItem]);
   
   // Bottom Right Tabs (formerly Left)
-  const [activeTab, setActiveTab] = useState<'trace' | 'history'>('trace');
+  const [activeTab, setActiveTab] = useState<'trace' | 'outline' | 'history' | 'compare'>('trace');
+
+  // 3D (WebGL) or 2D (SVG) graph; 2D is forced when WebGL is missing or the canvas fails
+  const [webglAvailable, setWebglAvailable] = useState(isWebGLAvailable);
+  const [preferredView, setPreferredView] = useState<'3d' | '2d'>(() =>
+    readLocalValue(GRAPH_VIEW_STORAGE_KEY) === '2d' ? '2d' : '3d');
+  const graphView = webglAvailable ? preferredView : '2d';
+
+  // Compare view: the graph shows the merged trace of two history items with diff colors
+  const [comparison, setComparison] = useState<{ before: HistoryItem; after: HistoryItem; diff: TraceDiff } | null>(null);
+  const comparisonKey = comparison ? `compare-${comparison.before.id}-${comparison.after.id}` : null;
 
   // Track which history item is currently being visualized for thumbnail capture
   const [currentVizId, setCurrentVizId] = useState<string | null>(null);
 
+  // Persistence (IndexedDB): only changed items are written once the initial load finished
+  const [storageReady, setStorageReady] = useState(false);
+  // Transient message in the bottom-left corner (storage problems, import results, undo)
+  const [notice, setNotice] = useState<{
+    tone: 'warning' | 'success' | 'info';
+    text: string;
+    action?: { label: string; onClick: () => void };
+    sticky?: boolean; // Stays until dismissed, even with an action
+  } | null>(null);
+  const storageUnavailableRef = useRef(false);
+  // Traces behind the current Undo notice; deleting more while it shows adds to it
+  const pendingDeletionRef = useRef<{
+    items: HistoryItem[];
+    thumbnails: Map<string, Promise<Blob | null>>;
+    restore: () => void;
+  } | null>(null);
+  const historySync = useMemo(() => createCollectionSync(putHistoryItems, deleteHistoryItems), []);
+  const conversationSync = useMemo(() => createCollectionSync(putConversations, deleteConversations), []);
+
   // -- Effects --
 
-  // Load history on mount
-  useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        setHistory(JSON.parse(stored));
-      } catch (e) {
-        console.error("Failed to parse history", e);
-      }
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error("Storage error", error);
+    if (error instanceof StorageUnavailableError) {
+      // Everything keeps working in memory; say so once instead of on every write
+      if (storageUnavailableRef.current) return;
+      storageUnavailableRef.current = true;
+      setNotice({
+        tone: 'warning',
+        text: "This browser does not let NeuroViz store data (private browsing?). History and chats will be lost when the tab is closed; export them to keep them."
+      });
+      return;
     }
+    setNotice({
+      tone: 'warning',
+      text: error instanceof StorageQuotaError
+        ? "Browser storage is full. Old thumbnails were removed, but new history could not be saved."
+        : "Your history could not be saved in this browser."
+    });
+  }, []);
+
+  // Load history and conversations on mount
+  useEffect(() => {
+    let cancelled = false;
+    loadStoredData()
+      .then(stored => {
+        if (cancelled) return;
+        historySync.prime(stored.history);
+        conversationSync.prime(stored.conversations);
+        // Anything created while loading is kept alongside the stored data
+        setHistory(prev => [...stored.history, ...prev]);
+        const storedId = readLocalValue(ACTIVE_CONVERSATION_STORAGE_KEY);
+        const restoredId = stored.conversations.find(c => c.id === storedId)?.id ?? stored.conversations[0]?.id;
+        const current = conversationsRef.current;
+        const fresh = current.filter(c => c.messages.length > 0);
+        const merged = [...fresh, ...stored.conversations];
+        setConversations(merged.length > 0 ? merged : current);
+        // Reopen the last active chat unless the user already started one
+        if (fresh.length === 0 && restoredId) setActiveConversationId(restoredId);
+        setStorageReady(true);
+        if (stored.quarantined > 0) {
+          setNotice({
+            tone: 'warning',
+            text: `${stored.quarantined} saved ${stored.quarantined === 1 ? 'item' : 'items'} could not be upgraded to this version and ${stored.quarantined === 1 ? 'was' : 'were'} set aside.`,
+            action: { label: 'Download', onClick: handleDownloadQuarantine },
+            sticky: true,
+          });
+        }
+      })
+      .catch(error => {
+        if (!cancelled) handleStorageError(error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Share links (#share=...) open their trace read-only, also when pasted into an open tab
+  useEffect(() => {
+    const openSharedTrace = () => {
+      if (!isShareHash(window.location.hash)) return;
+      readShareHash(window.location.hash)
+        .then(item => {
+          setSharedItem(item);
+          handleSelectHistoryItem(item);
+        })
+        .catch(error => {
+          console.error("Could not open shared trace", error);
+          setNotice({ tone: 'warning', text: error instanceof ShareError ? error.message : "The shared trace could not be opened." });
+        });
+    };
+    openSharedTrace();
+    window.addEventListener('hashchange', openSharedTrace);
+    return () => window.removeEventListener('hashchange', openSharedTrace);
   }, []);
 
+  // Showing anything else ends the shared view
+  useEffect(() => {
+    if (sharedItem && activeHistoryItem !== sharedItem) {
+      setSharedItem(null);
+      clearShareHash();
+    }
+  }, [activeHistoryItem]);
+
   // Persist history
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
-  }, [history]);
+    if (storageReady) historySync.sync(history).catch(handleStorageError);
+  }, [history, storageReady]);
+
+  // Persist conversations
+  useEffect(() => {
+    if (storageReady) conversationSync.sync(conversations).catch(handleStorageError);
+  }, [conversations, storageReady]);
+
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
+
+  useEffect(() => {
+    writeLocalValue(ACTIVE_CONVERSATION_STORAGE_KEY, activeConversationId);
+  }, [activeConversationId]);
+
+  useEffect(() => {
+    writeLocalValue(GRAPH_VIEW_STORAGE_KEY, preferredView);
+  }, [preferredView]);
+
+  useEffect(() => {
+    writeLocalValue(SAMPLE_COUNT_STORAGE_KEY, String(sampleCount));
+  }, [sampleCount]);
+
+  // Offers like "Undo" only make sense for a short while
+  useEffect(() => {
+    if (!notice?.action || notice.sticky) return;
+    const timer = window.setTimeout(() => setNotice(current => current === notice ? null : current), UNDO_TIMEOUT_MS);
+    return () => window.clearTimeout(timer);
+  }, [notice]);
+
+  useEffect(() => {
+    setSelectedNodeId(pendingNodeSelectionRef.current);
+    pendingNodeSelectionRef.current = null;
+    setPlaybackFrame(null);
+    setIsPlaying(false);
+    // Showing anything else ends the comparison
+    if (comparison && vizKey !== comparisonKey) {
+      setComparison(null);
+      setActiveTab(tab => tab === 'compare' ? 'trace' : tab);
+    }
+  }, [vizKey]);
+
+  // Advance the playback; stops on the last frame
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (playbackFrame !== null && playbackFrame >= playbackFrames.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setPlaybackFrame(prev => prev === null ? 0 : prev + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, playbackFrame, playbackFrames.length]);
 
   // -- Handlers --
 
-  const handleSendMessage = async () => {
-    if (!input.trim() || isSending) return;
+  // Updates the messages of one conversation (not necessarily the active one: a generation
+  // keeps writing to the chat it was started in even if the user switches away)
+  const updateMessages = (conversationId: string, updater: (prev: Message[]) => Message[]) => {
+    setConversations(prev => prev.map(c =>
+      c.id === conversationId
+        ? { ...c, messages: updater(c.messages), updatedAt: new Date().toISOString() }
+        : c
+    ));
+  };
 
-    const question = input.trim();
-    const userMsgId = uuidv4();
-    const aiMsgId = uuidv4();
+  // Applies a finished answer as the newest version of an AI message and makes it active
+  const commitAnswerVersion = (conversationId: string, aiMsgId: string, version: AnswerVersion) => {
+    updateMessages(conversationId, prev => prev.map(m => {
+      if (m.id !== aiMsgId) return m;
+      const versions = [...(m.versions || []), version];
+      return {
+        ...m,
+        text: version.text,
+        traceId: version.traceId,
+        versions,
+        activeVersion: versions.length - 1,
+        isThinking: false,
+        isStreaming: false,
+        failed: false
+      };
+    }));
+  };
 
-    // 1. Add User Message
-    const userMsg: Message = {
-      id: userMsgId,
-      role: 'user',
-      text: question,
-      timestamp: new Date().toISOString()
-    };
+  // Ends a run that produced no answer. Failures never become versions: a regenerated
+  // message falls back to its previous answer and errors are shown as a notice instead.
+  const showGenerationFailure = (conversationId: string, aiMsgId: string, text: string, isError: boolean) => {
+    const msg = conversations.find(c => c.id === conversationId)?.messages.find(m => m.id === aiMsgId);
+    const previous = msg?.versions?.[msg.activeVersion ?? 0];
+    updateMessages(conversationId, prev => prev.map(m => {
+      if (m.id !== aiMsgId) return m;
+      return previous
+        ? { ...m, text: previous.text, traceId: previous.traceId, isThinking: false, isStreaming: false, failed: false }
+        : { ...m, text, traceId: undefined, isThinking: false, isStreaming: false, failed: true };
+    }));
+    if (previous && isError) {
+      setNotice({ tone: 'warning', text: `${text} The previous answer was kept.` });
+    }
+  };
 
-    // 2. Add Thinking Placeholder
-    const thinkingMsg: Message = {
-      id: aiMsgId,
-      role: 'ai',
-      text: "Thinking...",
-      isThinking: true,
-      timestamp: new Date().toISOString()
-    };
+  // Asks the provider for an answer to `question` and streams it into the AI message `aiMsgId`.
+  // Used both for new questions and for regenerating an existing answer.
+  const runGeneration = async (conversationId: string, aiMsgId: string, question: string, priorMessages: Message[]) => {
+    // Grounding: the best matching excerpts of the chat's documents go along with the question
+    const sources = activeConversation.grounding && groundingIndex.chunks.length > 0
+      ? retrieveSources(groundingIndex, question)
+      : [];
+    if (activeConversation.grounding && groundingIndex.chunks.length > 0 && sources.length === 0) {
+      setNotice({ tone: 'info', text: "Nothing in the attached documents matched this question; answering without them." });
+    }
 
-    setMessages(prev => [...prev, userMsg, thinkingMsg]);
-    setInput('');
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsSending(true);
     
     // Switch to Thinking Mode & Show Trace Tab
     setVizMode(AppMode.THINKING);
     setVizData(null); 
+    setVizIssues([]);
+    setVizKey(`${aiMsgId}-${Date.now()}`);
     setActiveHistoryItem(null);
     setCurrentVizId(null);
     setActiveTab('trace');
 
+    let partialAnswer = '';
+
     try {
-      // 3. Call API
-      const response = await fetchGeminiResponse(question);
+      // Call API with the prior turns so follow-ups keep their context
+      const request = {
+        prompt: question,
+        history: priorMessages,
+        context: {
+          resolveTrace: (traceId: string) => history.find(h => h.id === traceId)?.explain_trace,
+        },
+        sources,
+      };
+      // Samples are generated in parallel without streaming, then merged
+      const response = sampleCount > 1
+        ? await generateConsensus(reasoningProvider, request, sampleCount, { signal: controller.signal })
+        : await generateWithRetry(reasoningProvider, request, {
+          signal: controller.signal,
+          // Streaming: fill the bubble and grow the graph as partial JSON arrives
+          onPartial: STREAMING_ENABLED ? (partial) => {
+            if (partial.answer) {
+              partialAnswer = partial.answer;
+              updateMessages(conversationId, prev => prev.map(m =>
+                m.id === aiMsgId ? { ...m, text: partial.answer, isThinking: false, isStreaming: true } : m
+              ));
+            }
+            if (partial.trace && partial.trace.nodes.length > 0) {
+              setVizData(partial.trace);
+              setVizMode(AppMode.VISUALIZING);
+            }
+          } : undefined,
+          onRetry: () => {
+            // Discard whatever the failed attempt streamed
+            partialAnswer = '';
+            updateMessages(conversationId, prev => prev.map(m =>
+              m.id === aiMsgId ? { ...m, text: "Thinking...", isThinking: true, isStreaming: false } : m
+            ));
+            setVizData(null);
+            setVizMode(AppMode.THINKING);
+          },
+        });
       
       const newHistoryId = uuidv4();
       const newItem: HistoryItem = {
         id: newHistoryId,
+        conversationId,
         question,
         answer: response.answer,
         explain_trace: response.explain_trace,
-        timestamp: new Date().toISOString()
+        timestamp: new Date().toISOString(),
+        issues: response.issues,
+        ...(sources.length > 0 ? { sources } : {}),
       };
 
-      // 4. Update Chat with Result
-      setMessages(prev => prev.map(m => 
-        m.id === aiMsgId 
-          ? { ...m, text: response.answer, isThinking: false, traceId: newItem.id }
-          : m
-      ));
+      // Update Chat with Result
+      commitAnswerVersion(conversationId, aiMsgId, {
+        text: response.answer,
+        traceId: newItem.id,
+        timestamp: newItem.timestamp
+      });
 
-      // 5. Update History
+      // Update History
       setHistory(prev => [...prev, newItem]);
 
-      // 6. Update Visualization to Result
+      // Update Visualization to Result
       setVizData(response.explain_trace);
+      setVizIssues(response.issues || []);
       setVizMode(AppMode.VISUALIZING);
       setCurrentVizId(newHistoryId); // Trigger thumbnail capture
 
     } catch (error) {
       console.error(error);
-      setMessages(prev => prev.map(m => 
-        m.id === aiMsgId 
-          ? { ...m, text: "Sorry, I encountered an error while analyzing that.", isThinking: false }
-          : m
-      ));
+      if (isAbortError(error)) {
+        showGenerationFailure(conversationId, aiMsgId, partialAnswer ? `${partialAnswer} …(stopped)` : "Generation stopped.", false);
+      } else {
+        showGenerationFailure(conversationId, aiMsgId, describeReasoningFailure(error), true);
+      }
       setVizMode(AppMode.IDLE);
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsSending(false);
     }
   };
 
+  const handleSendMessage = async () => {
+    if (!input.trim() || isSending) return;
+
+    const question = input.trim();
+    const userMsgId = uuidv4();
+    const aiMsgId = uuidv4();
+
+    // 1. Add User Message
+    const userMsg: Message = {
+      id: userMsgId,
+      role: 'user',
+      text: question,
+      timestamp: new Date().toISOString()
+    };
+
+    // 2. Add Thinking Placeholder
+    const thinkingMsg: Message = {
+      id: aiMsgId,
+      role: 'ai',
+      text: "Thinking...",
+      isThinking: true,
+      timestamp: new Date().toISOString()
+    };
+
+    const conversationId = activeConversation.id;
+    updateMessages(conversationId, prev => [...prev, userMsg, thinkingMsg]);
+    if (activeConversation.title === DEFAULT_CONVERSATION_TITLE && messages.length === 0) {
+      handleRenameConversation(conversationId, deriveConversationTitle(question));
+    }
+    setInput('');
+
+    // 3. Generate the answer
+    await runGeneration(conversationId, aiMsgId, question, messages);
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Re-asks the question that produced an AI message; the new answer becomes a sibling version
+  const handleRegenerate = async (aiMsgId: string) => {
+    if (isSending) return;
+    const aiIndex = messages.findIndex(m => m.id === aiMsgId);
+    let userIndex = aiIndex - 1;
+    while (userIndex >= 0 && messages[userIndex].role !== 'user') userIndex--;
+    if (aiIndex < 0 || userIndex < 0) return;
+
+    const conversationId = activeConversation.id;
+    updateMessages(conversationId, prev => prev.map(m =>
+      m.id === aiMsgId ? { ...m, text: "Thinking...", isThinking: true, isStreaming: false } : m
+    ));
+    await runGeneration(conversationId, aiMsgId, messages[userIndex].text, messages.slice(0, userIndex));
+  };
+
+  const handleSelectVersion = (aiMsgId: string, index: number) => {
+    const msg = messages.find(m => m.id === aiMsgId);
+    const version = msg?.versions?.[index];
+    if (!version) return;
+    updateMessages(activeConversation.id, prev => prev.map(m =>
+      m.id === aiMsgId ? { ...m, text: version.text, traceId: version.traceId, activeVersion: index } : m
+    ));
+    if (version.traceId) {
+      handleViewReasoning(version.traceId);
+    }
+  };
+
+  const resetVisualization = () => {
+    setVizMode(AppMode.IDLE);
+    setVizData(null);
+    setVizIssues([]);
+    setVizKey(null);
+    setActiveHistoryItem(null);
+    setCurrentVizId(null);
+  };
+
+  const handleNewConversation = () => {
+    // Reuse an untouched chat instead of piling up empty ones
+    const empty = conversations.find(c => c.messages.length === 0);
+    const conversation = empty || createConversation();
+    if (!empty) {
+      setConversations(prev => [conversation, ...prev]);
+    }
+    setActiveConversationId(conversation.id);
+    resetVisualization();
+  };
+
+  const handleSelectConversation = (conversationId: string) => {
+    if (conversationId === activeConversationId) return;
+    setActiveConversationId(conversationId);
+    resetVisualization();
+  };
+
+  const handleRenameConversation = (conversationId: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, title: trimmed } : c));
+  };
+
+  // Deleting a chat removes its messages; its traces stay available in the global history
+  const handleDeleteConversation = (conversationId: string) => {
+    const remaining = conversations.filter(c => c.id !== conversationId);
+    const next = remaining.length > 0 ? remaining : [createConversation()];
+    setConversations(next);
+    if (conversationId === activeConversationId) {
+      setActiveConversationId(next[0].id);
+      resetVisualization();
+    }
+  };
+
   const handleViewReasoning = (traceId: string) => {
     const item = history.find(h => h.id === traceId);
     if (item) {
       setActiveHistoryItem(item);
       setVizData(item.explain_trace);
+      setVizIssues(item.issues || []);
+      setVizKey(item.id);
       setVizMode(AppMode.VISUALIZING);
       setCurrentVizId(null);
       setActiveTab('trace');
     }
   };
 
-  const handleSelectHistoryItem = (item: HistoryItem) => {
+  const handleSelectHistoryItem = (item: HistoryItem, focusNodeId?: string) => {
+    if (vizKey === item.id) {
+      setSelectedNodeId(focusNodeId ?? null);
+    } else {
+      pendingNodeSelectionRef.current = focusNodeId ?? null;
+    }
     setActiveHistoryItem(item);
     setVizData(item.explain_trace);
+    setVizIssues(item.issues || []);
+    setVizKey(item.id);
     setVizMode(AppMode.VISUALIZING);
     setCurrentVizId(null); 
     setActiveTab('trace'); // Switch to trace view to see the selected item details
   };
 
-  // Memoized callback to prevent graph re-renders
-  const handleThumbnailCapture = useCallback((dataUrl: string) => {
-    setCurrentVizId(prevId => {
-        // Only update history if we have a valid currentVizId that matches
-        if (prevId) {
-             setHistory(prevHist => prevHist.map(item => 
-                item.id === prevId ? { ...item, thumbnail: dataUrl } : item
-            ));
-            return null; // Reset currentVizId after capture
-        }
-        return prevId;
+  const handleCompare = (before: HistoryItem, after: HistoryItem) => {
+    const diff = diffTraces(before.explain_trace, after.explain_trace);
+    setComparison({ before, after, diff });
+    setActiveHistoryItem(null);
+    setVizData(diff.merged);
+    setVizIssues([]);
+    setVizKey(`compare-${before.id}-${after.id}`);
+    setVizMode(AppMode.VISUALIZING);
+    setCurrentVizId(null);
+    setActiveTab('compare');
+  };
+
+  // Compares the shown answer version with the one before it (or after it, for the first)
+  const handleCompareVersions = (aiMsgId: string) => {
+    const msg = messages.find(m => m.id === aiMsgId);
+    const traced = (msg?.versions || [])
+      .map((v, index) => ({ index, item: history.find(h => h.id === v.traceId) }))
+      .filter((v): v is { index: number; item: HistoryItem } => Boolean(v.item));
+    if (!msg || traced.length < 2) return;
+    const activeIndex = msg.activeVersion ?? (msg.versions!.length - 1);
+    const current = traced.find(v => v.index === activeIndex) || traced[traced.length - 1];
+    const previous = traced.filter(v => v.index < current.index).pop()
+      || traced.find(v => v.index > current.index)!;
+    const [before, after] = [previous.item, current.item].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    handleCompare(before, after);
+  };
+
+  const handleCloseComparison = () => {
+    if (comparison) handleSelectHistoryItem(comparison.after);
+  };
+
+  const handlePlayPause = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Restart from the beginning unless paused halfway through
+    if (playbackFrame === null || playbackFrame >= playbackFrames.length - 1) {
+      setPlaybackFrame(0);
+    }
+    setIsPlaying(true);
+  };
+
+  const handleExitPlayback = () => {
+    setIsPlaying(false);
+    setPlaybackFrame(null);
+  };
+
+  const handleSelectStep = (stepIndex: number) => {
+    if (playbackFrames.length === 0) return;
+    setIsPlaying(false);
+    setPlaybackFrame(frameForStep(playbackFrames, stepIndex));
+    setActiveTab('trace');
+  };
+
+  // Exports a trace, the active chat, or everything as a JSON bundle (or a ZIP with thumbnails)
+  const handleExport = async (scope: BundleScope, withThumbnails: boolean) => {
+    const items = scope === 'trace'
+      ? history.filter(h => h.id === vizItem?.id)
+      : scope === 'conversation'
+        ? history.filter(h => h.conversationId === activeConversation.id)
+        : history;
+    const bundleConversations = scope === 'conversation'
+      ? [activeConversation]
+      : scope === 'all' ? conversations.filter(c => c.messages.length > 0) : [];
+    if (items.length === 0 && bundleConversations.every(c => c.messages.length === 0)) {
+      setNotice({ tone: 'warning', text: "There is nothing to export yet." });
+      return;
+    }
+
+    const bundle = createBundle(scope, items, bundleConversations);
+    const filename = `neuroviz-${scope}-${filenameTimestamp()}`;
+    try {
+      if (withThumbnails) {
+        downloadBlob(await createBundleZip(bundle, items), `${filename}.zip`);
+      } else {
+        downloadBlob(new Blob([serializeBundle(bundle)], { type: 'application/json' }), `${filename}.json`);
+      }
+    } catch (error) {
+      console.error("Export failed", error);
+      setNotice({ tone: 'warning', text: "The export could not be created." });
+    }
+  };
+
+  // Records that failed a schema migration, as raw JSON for recovery by hand
+  const handleDownloadQuarantine = async () => {
+    try {
+      const records = await readQuarantine();
+      downloadBlob(new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' }), `neuroviz-quarantine-${filenameTimestamp()}.json`);
+    } catch (error) {
+      console.error("Quarantine export failed", error);
+      setNotice({ tone: 'warning', text: "The set-aside items could not be read." });
+    }
+  };
+
+  const handleShare = async (item: HistoryItem, target: ShareTarget) => {
+    if (target === 'html') {
+      const html = renderShareHtml(item, getNodeColor);
+      downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `neuroviz-trace-${filenameTimestamp()}.html`);
+      return;
+    }
+    try {
+      const link = await createShareLink(item);
+      await navigator.clipboard.writeText(link.url);
+      setNotice({
+        tone: 'success',
+        text: link.withoutSources
+          ? "Link copied. The document excerpts were left out to keep it short enough."
+          : "Link copied. It opens this trace read-only.",
+      });
+    } catch (error) {
+      console.error("Sharing failed", error);
+      setNotice({ tone: 'warning', text: error instanceof ShareError ? error.message : "The link could not be copied." });
+    }
+  };
+
+  const clearShareHash = () => {
+    if (isShareHash(window.location.hash)) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+  };
+
+  // Keeps a copy of the shared trace under a fresh id, so it can't collide with local history
+  const handleSaveSharedItem = () => {
+    if (!sharedItem) return;
+    const saved: HistoryItem = { ...sharedItem, id: uuidv4() };
+    setHistory(prev => [...prev, saved].sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+    handleSelectHistoryItem(saved);
+    setNotice({ tone: 'success', text: "The shared trace was saved to your history." });
+  };
+
+  const handleCloseSharedItem = () => {
+    setSharedItem(null);
+    clearShareHash();
+    setActiveHistoryItem(null);
+    setVizData(null);
+    setVizIssues([]);
+    setVizKey(null);
+    setVizMode(AppMode.IDLE);
+  };
+
+  const handleExportGraph = (format: GraphFormat) => {
+    if (vizItem) downloadGraphExport(format, vizItem.explain_trace, graphExportMeta, getNodeColor);
+  };
+
+  const handleExportReport = (format: ReportFormat) => {
+    if (vizItem) downloadTraceReport(format, vizItem.explain_trace, graphExportMeta, getNodeColor);
+  };
+
+  // Validates a bundle and merges it into the gallery; colliding ids are reassigned
+  const handleImport = async (file: File) => {
+    try {
+      const result = mergeBundle(await readBundleFile(file), history, conversations);
+      const imported = result.items.map(item => {
+        const thumbnail = result.thumbnails.get(item.id);
+        return thumbnail ? { ...item, thumbnail: URL.createObjectURL(thumbnail) } : item;
+      });
+      setHistory(prev => [...prev, ...imported].sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+      setConversations(prev => [...prev, ...result.conversations]);
+      result.thumbnails.forEach((blob, id) => {
+        saveThumbnailBlob(id, blob).catch(handleStorageError);
+      });
+
+      const parts = [`Imported ${imported.length} trace${imported.length === 1 ? '' : 's'}`];
+      if (result.conversations.length > 0) {
+        parts.push(`${result.conversations.length} chat${result.conversations.length === 1 ? '' : 's'}`);
+      }
+      if (result.skippedItems > 0) {
+        parts.push(`skipped ${result.skippedItems} trace${result.skippedItems === 1 ? '' : 's'} already present`);
+      }
+      if (result.skippedConversations > 0) {
+        parts.push(`skipped ${result.skippedConversations} chat${result.skippedConversations === 1 ? '' : 's'} already present`);
+      }
+      setNotice({ tone: 'success', text: `${parts.join(', ')}.` });
+    } catch (error) {
+      console.error("Import failed", error);
+      setNotice({
+        tone: 'warning',
+        text: error instanceof BundleError ? error.message : "The file could not be read as a history bundle."
+      });
+    }
+  };
+
+  const updateDocuments = (updater: (prev: GroundingDocument[]) => GroundingDocument[], grounding?: boolean) => {
+    const conversationId = activeConversation.id;
+    setConversations(prev => prev.map(c => c.id === conversationId
+      ? { ...c, documents: updater(c.documents || []), grounding: grounding ?? c.grounding, updatedAt: new Date().toISOString() }
+      : c
+    ));
+  };
+
+  // Attaching the first documents turns grounding on
+  const handleAddDocuments = async (files: File[]) => {
+    const added: GroundingDocument[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        added.push(await readDocumentFile(file));
+      } catch (error) {
+        console.error("Document could not be read", error);
+        failed.push(error instanceof DocumentReadError ? error.message : `"${file.name}" could not be read.`);
+      }
+    }
+    if (added.length > 0) updateDocuments(prev => [...prev, ...added], true);
+    if (failed.length > 0) setNotice({ tone: 'warning', text: failed.join(' ') });
+  };
+
+  const handleAddTextDocument = (name: string, text: string) => {
+    updateDocuments(prev => [...prev, createTextDocument(name, text)], true);
+  };
+
+  const handleRemoveDocument = (documentId: string) => {
+    updateDocuments(prev => prev.filter(d => d.id !== documentId));
+  };
+
+  const handleUpdateHistoryItem = (id: string, patch: HistoryItemPatch) => {
+    setHistory(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+    setActiveHistoryItem(prev => prev?.id === id ? { ...prev, ...patch } : prev);
+  };
+
+  const handleDeleteHistoryItems = (ids: string[]) => {
+    const removed = history.filter(item => ids.includes(item.id));
+    if (removed.length === 0) return;
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    if (vizItem && ids.includes(vizItem.id)) resetVisualization();
+    if (comparison && (ids.includes(comparison.before.id) || ids.includes(comparison.after.id))) {
+      setComparison(null);
+      setActiveTab(tab => tab === 'compare' ? 'history' : tab);
+    }
+
+    // A delete while the previous Undo is still offered joins it, so one Undo brings back both
+    const pending = pendingDeletionRef.current;
+    const stacked = pending && notice?.action?.onClick === pending.restore ? pending : null;
+    const items = [...(stacked?.items || []), ...removed];
+    // Thumbnails are deleted with the traces; keep the images in memory for Undo and release the URLs
+    const thumbnails = new Map(stacked?.thumbnails);
+    removed.forEach(item => {
+      const url = item.thumbnail;
+      if (!url) return;
+      const blob = fetch(url).then(res => res.blob()).finally(() => revokeThumbnailUrl(url));
+      thumbnails.set(item.id, blob.catch(() => null));
     });
+
+    const restore = async () => {
+      if (pendingDeletionRef.current?.restore === restore) pendingDeletionRef.current = null;
+      setNotice(null);
+      const restoredIds = items.map(item => item.id);
+      const restored = await Promise.all(items.map(async item => {
+        const blob = await thumbnails.get(item.id);
+        if (!blob) return { ...item, thumbnail: undefined };
+        saveThumbnailBlob(item.id, blob).catch(handleStorageError);
+        return { ...item, thumbnail: URL.createObjectURL(blob) };
+      }));
+      setHistory(prev => [...prev.filter(item => !restoredIds.includes(item.id)), ...restored]
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+    };
+    pendingDeletionRef.current = { items, thumbnails, restore };
+    setNotice({
+      tone: 'info',
+      text: items.length === 1
+        ? `Deleted "${items[0].title || items[0].question}".`
+        : `Deleted ${items.length} traces.`,
+      action: { label: 'Undo', onClick: restore },
+    });
+  };
+
+  const handleWebGLError = useCallback((error: Error) => {
+    console.error("3D view failed", error);
+    setWebglAvailable(false);
+    setNotice({ tone: 'warning', text: "The 3D view could not start (WebGL unavailable). Showing the 2D view instead." });
   }, []);
 
+  // Memoized callback to prevent graph re-renders; only handed to the graph while a capture is pending
+  const handleThumbnailCapture = useCallback((dataUrl: string) => {
+    const id = currentVizId;
+    if (!id) return;
+    setCurrentVizId(null); // One capture per generated trace
+    revokeThumbnailUrl(history.find(item => item.id === id)?.thumbnail);
+    setHistory(prevHist => prevHist.map(item => item.id === id ? { ...item, thumbnail: dataUrl } : item));
+    saveThumbnail(id, dataUrl).catch(handleStorageError);
+  }, [currentVizId, history, handleStorageError]);
+
   return (
     <div className="flex flex-col md:flex-row w-full h-full bg-white text-slate-800 overflow-hidden font-sans">
+
+      {/* Notices: storage warnings, import results */}
+      {notice && (
+        <div className={clsx(
+          "fixed bottom-4 left-4 z-50 max-w-sm flex items-start gap-2 border text-xs px-3 py-2 rounded-lg shadow-md",
+          notice.tone === 'warning' ? "bg-amber-50 border-amber-200 text-amber-900"
+            : notice.tone === 'success' ? "bg-emerald-50 border-emerald-200 text-emerald-900"
+            : "bg-slate-800 border-slate-700 text-slate-100"
+        )}>
+          {notice.tone === 'warning' ? <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />
+            : notice.tone === 'success' ? <CheckCircle2 size={14} className="text-emerald-500 shrink-0 mt-0.5" />
+            : <Info size={14} className="text-slate-400 shrink-0 mt-0.5" />}
+          <span className="flex-1 min-w-0 break-words">{notice.text}</span>
+          {notice.action && (
+            <button onClick={notice.action.onClick} className="font-semibold text-blue-300 hover:text-blue-200 shrink-0">
+              {notice.action.label}
+            </button>
+          )}
+          <button onClick={() => setNotice(null)} className="opacity-60 hover:opacity-100" title="Dismiss">
+            <X size={12} />
+          </button>
+        </div>
+      )}
       
-      {/* LEFT PANEL: Chat Interface */}
-      <div className="flex-1 h-[50vh] md:h-full min-w-0 bg-white border-b md:border-b-0 md:border-r border-slate-200 z-10">
-         <ChatPanel 
-            messages={messages}
-            input={input}
-            setInput={setInput}
-            onSend={handleSendMessage}
-            isSending={isSending}
-            onViewReasoning={handleViewReasoning}
-         />
+      {/* LEFT PANEL: Conversations + Chat Interface */}
+      <div className="flex-1 flex h-[50vh] md:h-full min-w-0 bg-white border-b md:border-b-0 md:border-r border-slate-200 z-10">
+         {sidebarOpen && (
+           <ConversationSidebar
+              conversations={conversations}
+              activeConversationId={activeConversation.id}
+              onSelect={handleSelectConversation}
+              onCreate={handleNewConversation}
+              onRename={handleRenameConversation}
+              onDelete={handleDeleteConversation}
+           />
+         )}
+         <div className="flex-1 min-w-0">
+           <ChatPanel 
+              messages={messages}
+              input={input}
+              setInput={setInput}
+              onSend={handleSendMessage}
+              isSending={isSending}
+              onStop={handleStop}
+              onRegenerate={handleRegenerate}
+              onSelectVersion={handleSelectVersion}
+              onViewReasoning={handleViewReasoning}
+              onCompareVersions={handleCompareVersions}
+              conversationTitle={activeConversation.title}
+              onToggleSidebar={() => setSidebarOpen(open => !open)}
+              documents={activeConversation.documents || []}
+              grounding={activeConversation.grounding ?? false}
+              onToggleGrounding={enabled => updateDocuments(prev => prev, enabled)}
+              onAddDocuments={handleAddDocuments}
+              onAddTextDocument={handleAddTextDocument}
+              onRemoveDocument={handleRemoveDocument}
+              sampleCount={sampleCount}
+              onChangeSampleCount={setSampleCount}
+           />
+         </div>
       </div>
 
       {/* RIGHT PANEL: Reasoning Visualization + Info Tabs */}
@@ -200,18 +954,96 @@ function App() {
                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Idle System</span>
                 </>
               )}
+              <div className="flex ml-1 text-[10px] font-bold rounded-full border border-slate-200 overflow-hidden" role="group" aria-label="Graph view">
+                {(['3d', '2d'] as const).map(view => (
+                  <button
+                    key={view}
+                    onClick={() => setPreferredView(view)}
+                    disabled={view === '3d' && !webglAvailable}
+                    aria-pressed={graphView === view}
+                    className={clsx(
+                      "px-2 py-0.5 uppercase transition-colors disabled:opacity-40 disabled:cursor-not-allowed",
+                      graphView === view ? "bg-blue-500 text-white" : "bg-white text-slate-500 hover:text-slate-700"
+                    )}
+                    title={view === '3d' ? (webglAvailable ? '3D view' : '3D view unavailable: WebGL is not supported') : '2D view'}
+                  >
+                    {view}
+                  </button>
+                ))}
+              </div>
            </div>
 
-           <Canvas 
-              camera={{ position: [0, 0, 15], fov: 50 }} 
-              gl={{ preserveDrawingBuffer: true }}
-            >
-             <ReasoningGraph 
-                mode={vizMode} 
-                data={vizData} 
+           {graphView === '3d' ? (
+             <GraphErrorBoundary onError={handleWebGLError}>
+               <Canvas 
+                  camera={{ position: [0, 0, 15], fov: 50 }} 
+                  gl={{ preserveDrawingBuffer: true }}
+                >
+                 <ReasoningGraph 
+                    mode={vizMode} 
+                    data={vizData} 
+                    dataKey={vizKey}
+                    onCapture={currentVizId ? handleThumbnailCapture : undefined}
+                    selectedNodeId={selectedNodeId}
+                    onSelectNode={setSelectedNodeId}
+                    visibleNodeIds={currentFrame?.visibleNodeIds ?? null}
+                    highlightNodeIds={currentFrame?.focusNodeIds ?? null}
+                    diff={comparison?.diff ?? null}
+                    exportMeta={graphExportMeta}
+                 />
+               </Canvas>
+             </GraphErrorBoundary>
+           ) : (
+             <ReasoningGraph2D
+                mode={vizMode}
+                data={vizData}
+                dataKey={vizKey}
                 onCapture={currentVizId ? handleThumbnailCapture : undefined}
+                selectedNodeId={selectedNodeId}
+                onSelectNode={setSelectedNodeId}
+                visibleNodeIds={currentFrame?.visibleNodeIds ?? null}
+                highlightNodeIds={currentFrame?.focusNodeIds ?? null}
+                diff={comparison?.diff ?? null}
+                exportMeta={graphExportMeta}
              />
-           </Canvas>
+           )}
+
+           {/* Shared trace banner */}
+           {viewingShared && (
+             <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3 bg-indigo-50/95 backdrop-blur border border-indigo-200 px-3 py-1.5 rounded-full shadow-sm text-xs text-indigo-800">
+               <span className="flex items-center gap-1.5 font-medium"><Eye size={14} /> Shared trace · read-only</span>
+               <button onClick={handleSaveSharedItem} className="flex items-center gap-1 font-semibold hover:text-indigo-600">
+                 <Save size={12} /> Save to history
+               </button>
+               <button onClick={handleCloseSharedItem} className="text-indigo-400 hover:text-indigo-700" title="Close">
+                 <X size={14} />
+               </button>
+             </div>
+           )}
+
+           {/* Playback */}
+           {vizMode === AppMode.VISUALIZING && !isSending && !comparison && (
+             <div className="absolute bottom-4 left-4 z-10">
+               <PlaybackControls
+                 frameCount={playbackFrames.length}
+                 frameIndex={currentFrame ? playbackFrame : null}
+                 frameLabel={currentFrame?.label}
+                 isPlaying={isPlaying}
+                 onPlayPause={handlePlayPause}
+                 onSeek={setPlaybackFrame}
+                 onExit={handleExitPlayback}
+               />
+             </div>
+           )}
+
+           {/* Node Inspector */}
+           {vizMode === AppMode.VISUALIZING && vizData && selectedNodeId && (
+             <div className="absolute top-4 right-4 bottom-16 z-10 flex flex-col pointer-events-none">
+               <div className="pointer-events-auto min-h-0 flex">
+                 <NodeInspector data={vizData} nodeId={selectedNodeId} onSelectNode={setSelectedNodeId} sources={vizItem?.sources} />
+               </div>
+             </div>
+           )}
         </div>
 
         {/* Bottom Section: Info Tabs (Trace / History) */}
@@ -230,6 +1062,18 @@ function App() {
                 <Activity size={14} />
                 Reasoning Trace
               </button>
+              <button 
+                onClick={() => setActiveTab('outline')}
+                className={clsx(
+                  "flex-1 py-3 text-xs font-bold uppercase tracking-wider flex items-center justify-center gap-2 transition-colors",
+                  activeTab === 'outline' 
+                    ? "bg-slate-50 text-blue-600 border-b-2 border-blue-500" 
+                    : "text-slate-500 hover:text-slate-700 hover:bg-slate-50"
+                )}
+              >
+                <ListTree size={14} />
+                Outline
+              </button>
               <button 
                 onClick={() => setActiveTab('history')}
                 className={clsx(
@@ -242,17 +1086,63 @@ function App() {
                 <Database size={14} />
                 History
               </button>
+              {comparison && (
+                <button 
+                  onClick={() => setActiveTab('compare')}
+                  className={clsx(
+                    "flex-1 py-3 text-xs font-bold uppercase tracking-wider flex items-center justify-center gap-2 transition-colors",
+                    activeTab === 'compare' 
+                      ? "bg-slate-50 text-blue-600 border-b-2 border-blue-500" 
+                      : "text-slate-500 hover:text-slate-700 hover:bg-slate-50"
+                  )}
+                >
+                  <GitCompare size={14} />
+                  Compare
+                </button>
+              )}
            </div>
            
            {/* Tab Content */}
            <div className="flex-1 overflow-hidden relative">
-              {activeTab === 'trace' ? (
-                <ReasoningOverlay data={vizData} />
+              {activeTab === 'compare' && comparison ? (
+                <CompareOverlay
+                  before={comparison.before}
+                  after={comparison.after}
+                  diff={comparison.diff}
+                  onSelectNode={setSelectedNodeId}
+                  onClose={handleCloseComparison}
+                />
+              ) : activeTab === 'outline' ? (
+                <TraceOutline
+                  data={vizMode === AppMode.VISUALIZING ? vizData : null}
+                  selectedNodeId={selectedNodeId}
+                  onSelectNode={setSelectedNodeId}
+                />
+              ) : activeTab === 'trace' ? (
+                <ReasoningOverlay
+                  data={vizData}
+                  issues={vizIssues}
+                  activeSteps={currentFrame?.stepIndices}
+                  onSelectStep={handleSelectStep}
+                  note={activeHistoryItem?.note}
+                  sources={vizItem?.sources}
+                  onSelectNode={setSelectedNodeId}
+                />
               ) : (
                 <ReasoningGallery 
                   history={history} 
-                  activeItemId={activeHistoryItem?.id || null} 
+                  conversations={conversations}
+                  activeConversationId={activeConversation.id}
+                  activeItemId={vizItem?.id || null} 
                   onSelectHistory={handleSelectHistoryItem}
+                  onExport={handleExport}
+                  onImport={handleImport}
+                  onExportGraph={handleExportGraph}
+                  onExportReport={handleExportReport}
+                  onCompare={handleCompare}
+                  onUpdateItem={handleUpdateHistoryItem}
+                  onDeleteItems={handleDeleteHistoryItems}
+                  onShare={handleShare}
                 />
               )}
            </div>
@@ -1,6 +1,8 @@
-import React, { useRef, useEffect } from 'react';
-import { Message } from '../types';
-import { Send, User, Bot, Search } from 'lucide-react';
+import React, { useRef, useEffect, useState } from 'react';
+import { GroundingDocument, Message } from '../types';
+import { DocumentsPanel } from './DocumentsPanel';
+import { SAMPLE_COUNTS } from '../services/selfConsistency';
+import { Send, User, Bot, Search, Square, RefreshCw, ChevronLeft, ChevronRight, PanelLeft, GitCompare, Paperclip, Layers } from 'lucide-react';
 import { clsx } from 'clsx';
 
 interface ChatPanelProps {
@@ -9,7 +11,23 @@ interface ChatPanelProps {
   setInput: (val: string) => void;
   onSend: () => void;
   isSending: boolean;
+  onStop: () => void;
+  onRegenerate: (messageId: string) => void;
+  onSelectVersion: (messageId: string, index: number) => void;
   onViewReasoning: (traceId: string) => void;
+  onCompareVersions: (messageId: string) => void;
+  conversationTitle: string;
+  onToggleSidebar: () => void;
+  // Grounding documents of this chat
+  documents: GroundingDocument[];
+  grounding: boolean;
+  onToggleGrounding: (enabled: boolean) => void;
+  onAddDocuments: (files: File[]) => void;
+  onAddTextDocument: (name: string, text: string) => void;
+  onRemoveDocument: (documentId: string) => void;
+  // Self-consistency: answers sampled per question (1 = off)
+  sampleCount: number;
+  onChangeSampleCount: (count: number) => void;
 }
 
 export const ChatPanel: React.FC<ChatPanelProps> = ({
@@ -18,9 +36,25 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
   setInput,
   onSend,
   isSending,
+  onStop,
+  onRegenerate,
+  onSelectVersion,
   onViewReasoning,
+  onCompareVersions,
+  conversationTitle,
+  onToggleSidebar,
+  documents,
+  grounding,
+  onToggleGrounding,
+  onAddDocuments,
+  onAddTextDocument,
+  onRemoveDocument,
+  sampleCount,
+  onChangeSampleCount,
 }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [documentsOpen, setDocumentsOpen] = useState(false);
+  const grounded = grounding && documents.length > 0;
 
   useEffect(() => {
     if (scrollRef.current) {
@@ -38,11 +72,20 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
   return (
     <div className="flex flex-col h-full bg-white border-r border-slate-200">
       {/* Header */}
-      <div className="p-4 border-b border-slate-200 bg-white/80 backdrop-blur-md sticky top-0 z-10">
-        <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-indigo-600">
-          NeuroViz Chat
-        </h1>
-        <p className="text-xs text-slate-500">Explainable AI with 3D Reasoning</p>
+      <div className="p-4 border-b border-slate-200 bg-white/80 backdrop-blur-md sticky top-0 z-10 flex items-center gap-3">
+        <button
+          onClick={onToggleSidebar}
+          className="p-1.5 rounded-lg text-slate-500 hover:text-blue-600 hover:bg-slate-100 transition-colors"
+          title="Toggle conversations"
+        >
+          <PanelLeft size={18} />
+        </button>
+        <div className="min-w-0">
+          <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-blue-600 to-indigo-600">
+            NeuroViz Chat
+          </h1>
+          <p className="text-xs text-slate-500 truncate">{conversationTitle}</p>
+        </div>
       </div>
 
       {/* Messages */}
@@ -85,15 +128,63 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
                  </div>
               ) : (
                 <>
-                  <p>{msg.text}</p>
-                  {msg.role === 'ai' && msg.traceId && (
-                    <button
-                      onClick={() => onViewReasoning(msg.traceId!)}
-                      className="mt-3 flex items-center gap-2 text-xs bg-slate-50 hover:bg-blue-50 text-blue-600 px-3 py-1.5 rounded-full transition-colors border border-slate-200 hover:border-blue-200 font-medium"
-                    >
-                      <Search size={12} />
-                      <span>See how I answered</span>
-                    </button>
+                  <p className={clsx(msg.failed && "text-slate-500 italic")}>
+                    {msg.text}
+                    {msg.isStreaming && (
+                      <span className="inline-block w-1.5 h-3.5 ml-0.5 bg-blue-400 align-middle animate-pulse" />
+                    )}
+                  </p>
+                  {msg.role === 'ai' && !msg.isStreaming && (
+                    <div className="mt-3 flex items-center gap-2 flex-wrap">
+                      {msg.traceId && (
+                        <button
+                          onClick={() => onViewReasoning(msg.traceId!)}
+                          className="flex items-center gap-2 text-xs bg-slate-50 hover:bg-blue-50 text-blue-600 px-3 py-1.5 rounded-full transition-colors border border-slate-200 hover:border-blue-200 font-medium"
+                        >
+                          <Search size={12} />
+                          <span>See how I answered</span>
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onRegenerate(msg.id)}
+                        disabled={isSending}
+                        className="p-1.5 rounded-full text-slate-400 hover:text-blue-600 hover:bg-blue-50 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors"
+                        title="Regenerate answer"
+                      >
+                        <RefreshCw size={12} />
+                      </button>
+                      {msg.versions && msg.versions.length > 1 && (
+                        <div className="flex items-center gap-0.5 text-[10px] text-slate-500 font-mono">
+                          <button
+                            onClick={() => onSelectVersion(msg.id, (msg.activeVersion ?? 0) - 1)}
+                            disabled={isSending || (msg.activeVersion ?? 0) === 0}
+                            className="p-0.5 rounded hover:text-blue-600 disabled:opacity-30 disabled:hover:text-slate-500"
+                            title="Previous answer"
+                          >
+                            <ChevronLeft size={12} />
+                          </button>
+                          <span>{(msg.activeVersion ?? 0) + 1}/{msg.versions.length}</span>
+                          <button
+                            onClick={() => onSelectVersion(msg.id, (msg.activeVersion ?? 0) + 1)}
+                            disabled={isSending || (msg.activeVersion ?? 0) === msg.versions.length - 1}
+                            className="p-0.5 rounded hover:text-blue-600 disabled:opacity-30 disabled:hover:text-slate-500"
+                            title="Next answer"
+                          >
+                            <ChevronRight size={12} />
+                          </button>
+                          {msg.versions.filter(v => v.traceId).length > 1 && (
+                            <button
+                              onClick={() => onCompareVersions(msg.id)}
+                              disabled={isSending}
+                              className="ml-1 p-0.5 rounded hover:text-blue-600 disabled:opacity-30 disabled:hover:text-slate-500"
+                              title="Compare with the previous answer's reasoning"
+                            >
+                              <GitCompare size={12} />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
                   )}
                 </>
               )}
@@ -104,23 +195,78 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
 
       {/* Input Area */}
       <div className="p-4 bg-white border-t border-slate-200">
+        {documentsOpen && (
+          <DocumentsPanel
+            documents={documents}
+            grounding={grounding}
+            onToggleGrounding={onToggleGrounding}
+            onAddFiles={onAddDocuments}
+            onAddText={onAddTextDocument}
+            onRemove={onRemoveDocument}
+            onClose={() => setDocumentsOpen(false)}
+          />
+        )}
         <div className="relative flex items-center gap-2">
+          <button
+            onClick={() => setDocumentsOpen(open => !open)}
+            className={clsx(
+              "relative p-2 rounded-full transition-colors shrink-0",
+              grounded ? "text-blue-600 bg-blue-50 hover:bg-blue-100" : "text-slate-400 hover:text-blue-600 hover:bg-slate-100"
+            )}
+            title={grounded ? `Answers are grounded in ${documents.length} document${documents.length === 1 ? '' : 's'}` : 'Attach documents'}
+            aria-expanded={documentsOpen}
+          >
+            <Paperclip size={18} />
+            {documents.length > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-blue-600 text-white text-[9px] font-bold flex items-center justify-center">
+                {documents.length}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={() => onChangeSampleCount(SAMPLE_COUNTS[(SAMPLE_COUNTS.indexOf(sampleCount) + 1) % SAMPLE_COUNTS.length])}
+            disabled={isSending}
+            className={clsx(
+              "relative p-2 rounded-full transition-colors shrink-0 disabled:opacity-40",
+              sampleCount > 1 ? "text-indigo-600 bg-indigo-50 hover:bg-indigo-100" : "text-slate-400 hover:text-indigo-600 hover:bg-slate-100"
+            )}
+            title={sampleCount > 1
+              ? `Self-consistency: ${sampleCount} answers are sampled and merged (click to change)`
+              : 'Self-consistency off: click to sample several answers and merge them'}
+          >
+            <Layers size={18} />
+            {sampleCount > 1 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-indigo-600 text-white text-[9px] font-bold flex items-center justify-center">
+                ×{sampleCount}
+              </span>
+            )}
+          </button>
           <input
             type="text"
             className="w-full bg-slate-100 text-slate-800 placeholder-slate-400 rounded-full py-3 pl-4 pr-12 focus:outline-none focus:ring-2 focus:ring-blue-500 border border-slate-200 transition-all"
-            placeholder="Ask me anything..."
+            placeholder={grounded ? "Ask about your documents..." : "Ask me anything..."}
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
             disabled={isSending}
           />
-          <button
-            onClick={onSend}
-            disabled={!input.trim() || isSending}
-            className="absolute right-2 p-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 text-white rounded-full transition-colors shadow-sm"
-          >
-            <Send size={18} />
-          </button>
+          {isSending ? (
+            <button
+              onClick={onStop}
+              className="absolute right-2 p-2 bg-slate-700 hover:bg-slate-600 text-white rounded-full transition-colors shadow-sm"
+              title="Stop generating"
+            >
+              <Square size={18} fill="currentColor" />
+            </button>
+          ) : (
+            <button
+              onClick={onSend}
+              disabled={!input.trim()}
+              className="absolute right-2 p-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:hover:bg-blue-600 text-white rounded-full transition-colors shadow-sm"
+            >
+              <Send size={18} />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,172 @@
+import React from 'react';
+import { HistoryItem } from '../types';
+import { TraceDiff, NodeDiff, EdgeDiff, DiffStatus } from '../services/traceDiff';
+import { DIFF_COLORS } from './ReasoningGraph';
+import { ArrowRight, GitCompare, X } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface CompareOverlayProps {
+  before: HistoryItem;
+  after: HistoryItem;
+  diff: TraceDiff;
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<DiffStatus, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(2)}`;
+
+const nodeChanges = (d: NodeDiff): string[] => {
+  const changes: string[] = [];
+  if (d.labelChanged) changes.push(`was "${d.before!.label}"`);
+  if (d.typeChanged) changes.push(`${d.before!.type} → ${d.after!.type}`);
+  if (d.stageChange) changes.push(`${d.stageChange.from} → ${d.stageChange.to}`);
+  if (d.status === 'changed' && Math.abs(d.importanceDelta) >= 0.05) {
+    changes.push(`importance ${formatDelta(d.importanceDelta)}`);
+  }
+  return changes;
+};
+
+export const CompareOverlay: React.FC<CompareOverlayProps> = ({ before, after, diff, onSelectNode, onClose }) => {
+  const count = (items: { status: DiffStatus }[], status: DiffStatus) => items.filter(i => i.status === status).length;
+  const labelOf = (id: string) =>
+    diff.merged.nodes.find(n => n.id === id)?.label || id;
+
+  const listedNodes = diff.nodes
+    .filter(d => d.status !== 'unchanged')
+    .sort((a, b) => Math.abs(b.importanceDelta) - Math.abs(a.importanceDelta));
+  const listedEdges = diff.edges.filter(d => d.status !== 'unchanged');
+
+  const edgeDescription = (d: EdgeDiff) => {
+    if (d.status !== 'changed') return d.after?.relation_label || d.before?.relation_label || '';
+    const parts: string[] = [];
+    if (d.relationChanged) parts.push(`"${d.before!.relation_label}" → "${d.after!.relation_label}"`);
+    if (Math.abs(d.strengthDelta) >= 0.05) parts.push(`strength ${formatDelta(d.strengthDelta)}`);
+    return parts.join(', ');
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white w-full overflow-hidden">
+      <div className="flex-1 overflow-y-auto p-5 space-y-5 custom-scrollbar">
+
+        {/* Header */}
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0 space-y-1">
+            <h4 className="text-xs font-bold text-slate-700 uppercase tracking-wider flex items-center gap-2">
+              <GitCompare size={12} className="text-blue-500" /> Trace Comparison
+            </h4>
+            <p className="text-[11px] text-slate-500 truncate" title={before.question}>
+              <span className="font-semibold text-slate-600">A</span> · {new Date(before.timestamp).toLocaleString()} · {before.question}
+            </p>
+            <p className="text-[11px] text-slate-500 truncate" title={after.question}>
+              <span className="font-semibold text-slate-600">B</span> · {new Date(after.timestamp).toLocaleString()} · {after.question}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 shrink-0" title="Close comparison">
+            <X size={14} />
+          </button>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-3 gap-2">
+          {(['added', 'removed', 'changed'] as const).map(status => (
+            <div key={status} className="rounded-lg border border-slate-200 p-2 bg-slate-50">
+              <div className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-slate-500">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: DIFF_COLORS[status] }} />
+                {STATUS_LABELS[status]}
+              </div>
+              <div className="text-sm font-semibold text-slate-800 mt-1">
+                {count(diff.nodes, status)} <span className="text-[10px] font-normal text-slate-500">nodes</span>
+                {' · '}
+                {count(diff.edges, status)} <span className="text-[10px] font-normal text-slate-500">edges</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-slate-50 rounded-lg p-3 border border-slate-200 flex items-center justify-between">
+          <span className="text-xs text-slate-500 font-medium">Confidence</span>
+          <span className={clsx("text-xs font-bold uppercase tracking-wider flex items-center gap-1.5", diff.confidence.changed ? "text-amber-700" : "text-slate-600")}>
+            {diff.confidence.before}{diff.confidence.beforeScore !== undefined && ` · ${Math.round(diff.confidence.beforeScore * 100)}%`}
+            <ArrowRight size={10} />
+            {diff.confidence.after}{diff.confidence.afterScore !== undefined && ` · ${Math.round(diff.confidence.afterScore * 100)}%`}
+          </span>
+        </div>
+
+        {/* Stages */}
+        {diff.stages.some(s => s.status !== 'unchanged') && (
+          <div>
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">Stages</h4>
+            <div className="flex flex-wrap gap-1.5">
+              {diff.stages.map(s => (
+                <span
+                  key={s.id}
+                  className={clsx("px-2 py-0.5 rounded text-[11px] border", s.status === 'removed' && "line-through")}
+                  style={{ borderColor: DIFF_COLORS[s.status], color: s.status === 'unchanged' ? undefined : DIFF_COLORS[s.status] }}
+                >
+                  {s.label}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Nodes */}
+        <div>
+          <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">Node changes</h4>
+          {listedNodes.length === 0 ? (
+            <p className="text-xs text-slate-400">The same concepts appear in both traces.</p>
+          ) : (
+            <ul className="space-y-1">
+              {listedNodes.map(d => (
+                <li key={d.id}>
+                  <button
+                    onClick={() => onSelectNode(d.id)}
+                    className="w-full text-left px-2 py-1.5 rounded hover:bg-slate-50 flex items-start gap-2"
+                  >
+                    <span className="w-2 h-2 rounded-full mt-1 shrink-0" style={{ backgroundColor: DIFF_COLORS[d.status] }} />
+                    <span className="min-w-0 flex-1">
+                      <span className={clsx("block text-xs text-slate-700 truncate", d.status === 'removed' && "line-through text-slate-500")}>
+                        {(d.after || d.before)!.label}
+                      </span>
+                      {d.status === 'changed' && (
+                        <span className="block text-[10px] text-slate-500 truncate">{nodeChanges(d).join(' · ')}</span>
+                      )}
+                    </span>
+                    <span className="text-[10px] font-mono text-slate-400 shrink-0">{formatDelta(d.importanceDelta)}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Edges */}
+        {listedEdges.length > 0 && (
+          <div>
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">Edge changes</h4>
+            <ul className="space-y-1">
+              {listedEdges.map(d => (
+                <li key={`${d.source}->${d.target}`} className="px-2 py-1 flex items-start gap-2">
+                  <span className="w-2 h-2 rounded-full mt-1 shrink-0" style={{ backgroundColor: DIFF_COLORS[d.status] }} />
+                  <span className="min-w-0 flex-1 text-xs text-slate-700">
+                    <span className="truncate">{labelOf(d.source)}</span>
+                    <ArrowRight size={10} className="inline mx-1 text-slate-400" />
+                    <span className="truncate">{labelOf(d.target)}</span>
+                    {edgeDescription(d) && <span className="block text-[10px] text-slate-500">{edgeDescription(d)}</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
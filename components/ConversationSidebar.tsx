@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Conversation } from '../types';
+import { MessageSquare, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { clsx } from 'clsx';
+import { sortConversations } from '../services/conversations';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string;
+  onSelect: (conversationId: string) => void;
+  onCreate: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversationId: string) => void;
+}
+
+export const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title}"? Its traces stay in the global history.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <div className="w-56 shrink-0 h-full flex flex-col bg-slate-50 border-r border-slate-200">
+      {/* Header */}
+      <div className="p-3 border-b border-slate-200">
+        <button
+          onClick={onCreate}
+          className="w-full flex items-center justify-center gap-2 text-xs font-medium bg-white hover:bg-blue-50 text-blue-600 px-3 py-2 rounded-lg border border-slate-200 hover:border-blue-200 transition-colors shadow-sm"
+        >
+          <Plus size={14} />
+          New chat
+        </button>
+      </div>
+
+      {/* List */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+        {sortConversations(conversations).map((conversation) => (
+          <div
+            key={conversation.id}
+            className={clsx(
+              "group flex items-center gap-2 rounded-lg px-2 py-2 text-xs transition-colors",
+              conversation.id === activeConversationId
+                ? "bg-blue-100 text-blue-700"
+                : "text-slate-600 hover:bg-slate-100"
+            )}
+          >
+            <MessageSquare size={12} className="shrink-0 opacity-60" />
+            {editingId === conversation.id ? (
+              <>
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-white border border-blue-300 rounded px-1 py-0.5 text-xs text-slate-800 focus:outline-none"
+                />
+                <button onClick={commitEditing} className="text-slate-500 hover:text-green-600" title="Save">
+                  <Check size={12} />
+                </button>
+                <button onClick={() => setEditingId(null)} className="text-slate-500 hover:text-red-600" title="Cancel">
+                  <X size={12} />
+                </button>
+              </>
+            ) : (
+              <>
+                <button
+                  onClick={() => onSelect(conversation.id)}
+                  onDoubleClick={() => startEditing(conversation)}
+                  className="flex-1 min-w-0 text-left truncate font-medium"
+                  title={conversation.title}
+                >
+                  {conversation.title}
+                </button>
+                <div className="hidden group-hover:flex items-center gap-1">
+                  <button onClick={() => startEditing(conversation)} className="text-slate-400 hover:text-blue-600" title="Rename chat">
+                    <Pencil size={11} />
+                  </button>
+                  <button onClick={() => handleDelete(conversation)} className="text-slate-400 hover:text-red-600" title="Delete chat">
+                    <Trash2 size={11} />
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,139 @@
+import React, { useRef, useState } from 'react';
+import { GroundingDocument } from '../types';
+import { FileText, Upload, ClipboardPaste, Trash2, X } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface DocumentsPanelProps {
+  documents: GroundingDocument[];
+  grounding: boolean;
+  onToggleGrounding: (enabled: boolean) => void;
+  onAddFiles: (files: File[]) => void;
+  onAddText: (name: string, text: string) => void;
+  onRemove: (documentId: string) => void;
+  onClose: () => void;
+}
+
+const formatSize = (chars: number) => chars >= 1000 ? `${(chars / 1000).toFixed(1)}k chars` : `${chars} chars`;
+
+// Documents attached to the active chat; answers are grounded in them while the switch is on.
+export const DocumentsPanel: React.FC<DocumentsPanelProps> = ({
+  documents,
+  grounding,
+  onToggleGrounding,
+  onAddFiles,
+  onAddText,
+  onRemove,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pasting, setPasting] = useState(false);
+  const [pasteName, setPasteName] = useState('');
+  const [pasteText, setPasteText] = useState('');
+
+  const submitPaste = () => {
+    if (!pasteText.trim()) return;
+    onAddText(pasteName, pasteText);
+    setPasting(false);
+    setPasteName('');
+    setPasteText('');
+  };
+
+  return (
+    <div className="mb-3 border border-slate-200 rounded-lg bg-slate-50 text-xs">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-200">
+        <span className="font-bold text-slate-600 uppercase tracking-wider text-[10px] flex-1">
+          Documents ({documents.length})
+        </span>
+        <label className={clsx("flex items-center gap-1.5", documents.length === 0 ? "text-slate-400" : "text-slate-600 cursor-pointer")}>
+          <input
+            type="checkbox"
+            checked={grounding && documents.length > 0}
+            disabled={documents.length === 0}
+            onChange={e => onToggleGrounding(e.target.checked)}
+            className="accent-blue-600"
+          />
+          Ground answers
+        </label>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700" title="Close">
+          <X size={12} />
+        </button>
+      </div>
+
+      {documents.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto custom-scrollbar py-1">
+          {documents.map(doc => (
+            <li key={doc.id} className="flex items-center gap-2 px-3 py-1 group">
+              <FileText size={12} className="text-slate-400 shrink-0" />
+              <span className="truncate flex-1 text-slate-700" title={doc.name}>{doc.name}</span>
+              <span className="text-[10px] text-slate-400 shrink-0">{doc.kind} · {formatSize(doc.text.length)}</span>
+              <button
+                onClick={() => onRemove(doc.id)}
+                className="text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                title={`Remove "${doc.name}"`}
+              >
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {pasting ? (
+        <div className="p-3 space-y-2 border-t border-slate-200">
+          <input
+            type="text"
+            value={pasteName}
+            onChange={e => setPasteName(e.target.value)}
+            placeholder="Name (optional)"
+            className="w-full bg-white border border-slate-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <textarea
+            value={pasteText}
+            onChange={e => setPasteText(e.target.value)}
+            placeholder="Paste the text to answer from…"
+            rows={4}
+            autoFocus
+            className="w-full bg-white border border-slate-200 rounded px-2 py-1 resize-y focus:outline-none focus:ring-1 focus:ring-blue-500"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setPasting(false)} className="px-2 py-1 text-slate-500 hover:text-slate-700">Cancel</button>
+            <button
+              onClick={submitPaste}
+              disabled={!pasteText.trim()}
+              className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-2 px-3 py-2 border-t border-slate-200">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1.5 px-2 py-1 rounded border border-slate-200 bg-white text-slate-600 hover:text-blue-600 hover:border-blue-300"
+          >
+            <Upload size={12} /> Upload .txt, .md, .pdf
+          </button>
+          <button
+            onClick={() => setPasting(true)}
+            className="flex items-center gap-1.5 px-2 py-1 rounded border border-slate-200 bg-white text-slate-600 hover:text-blue-600 hover:border-blue-300"
+          >
+            <ClipboardPaste size={12} /> Paste text
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf"
+            multiple
+            className="hidden"
+            onChange={e => {
+              const files = Array.from(e.target.files || []);
+              e.target.value = '';
+              if (files.length > 0) onAddFiles(files);
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
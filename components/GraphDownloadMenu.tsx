@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { GRAPH_EXPORT_FORMATS, GraphFormat } from '../services/graphExport';
+import { REPORT_FORMATS, ReportFormat } from '../services/traceReport';
+import { Download } from 'lucide-react';
+
+interface GraphDownloadMenuProps {
+  // Picture of the current view, e.g. "Image (PNG)"
+  imageLabel: string;
+  onDownloadImage: () => void;
+  onExportReport: (format: ReportFormat) => void;
+  onExportGraph: (format: GraphFormat) => void;
+}
+
+// Download button shared by the 3D and 2D graph views: a picture of the view, reports and graph data.
+export const GraphDownloadMenu: React.FC<GraphDownloadMenuProps> = ({ imageLabel, onDownloadImage, onExportReport, onExportGraph }) => {
+  const [open, setOpen] = useState(false);
+
+  const choose = (action: () => void) => () => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={`p-2 rounded-full shadow-md border transition-colors ${open ? 'bg-blue-100 text-blue-600 border-blue-300' : 'bg-white text-slate-500 border-slate-200 hover:text-blue-600 hover:border-blue-300'}`}
+        title="Download"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Download size={18} />
+      </button>
+      {open && (
+        <div role="menu" className="absolute right-0 bottom-full mb-2 w-40 bg-white border border-slate-200 rounded-lg shadow-lg py-1 text-xs">
+          <button role="menuitem" onClick={choose(onDownloadImage)} className="w-full text-left px-3 py-1.5 text-slate-700 hover:bg-slate-50">
+            {imageLabel}
+          </button>
+          {REPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              role="menuitem"
+              onClick={choose(() => onExportReport(format.id))}
+              className="w-full text-left px-3 py-1.5 text-slate-700 hover:bg-slate-50"
+            >
+              {format.label}
+            </button>
+          ))}
+          <div className="px-3 pt-1.5 mt-1 border-t border-slate-100 text-[10px] font-semibold uppercase tracking-wider text-slate-400">Graph data</div>
+          {GRAPH_EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              role="menuitem"
+              onClick={choose(() => onExportGraph(format.id))}
+              className="w-full text-left px-3 py-1.5 text-slate-700 hover:bg-slate-50"
+            >
+              {format.label} <span className="text-slate-400">.{format.extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
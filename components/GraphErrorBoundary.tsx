@@ -0,0 +1,27 @@
+import React from 'react';
+
+interface GraphErrorBoundaryProps {
+  children: React.ReactNode;
+  onError: (error: Error) => void;
+}
+
+interface GraphErrorBoundaryState {
+  failed: boolean;
+}
+
+// Catches failures of the 3D canvas (typically WebGL context creation) so the app can fall back to 2D.
+export class GraphErrorBoundary extends React.Component<GraphErrorBoundaryProps, GraphErrorBoundaryState> {
+  state: GraphErrorBoundaryState = { failed: false };
+
+  static getDerivedStateFromError(): GraphErrorBoundaryState {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
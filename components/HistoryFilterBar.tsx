@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { Conversation, ExplainTrace, Node } from '../types';
+import { HistoryFilters, HistorySort, HISTORY_SORT_OPTIONS, EMPTY_FILTERS, hasActiveFilters } from '../services/historySearch';
+import { NODE_TYPES } from '../services/traceValidation';
+import { getNodeColor } from './ReasoningGraph';
+import { Pin, Search, SlidersHorizontal, X } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface HistoryFilterBarProps {
+  filters: HistoryFilters;
+  onChange: (filters: HistoryFilters) => void;
+  sort: HistorySort;
+  onSortChange: (sort: HistorySort) => void;
+  // Only offered when the gallery shows all chats
+  conversations?: Conversation[];
+  // Tags in use across the history, most frequent first
+  tags?: string[];
+}
+
+const CONFIDENCE_OPTIONS: ExplainTrace['confidence'][] = ['high', 'medium', 'low'];
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+export const HistoryFilterBar: React.FC<HistoryFilterBarProps> = ({
+  filters,
+  onChange,
+  sort,
+  onSortChange,
+  conversations,
+  tags = [],
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const update = (patch: Partial<HistoryFilters>) => onChange({ ...filters, ...patch });
+  const activeCount = filters.confidence.length + filters.nodeTypes.length
+    + (filters.from ? 1 : 0) + (filters.to ? 1 : 0) + (filters.conversationId ? 1 : 0)
+    + filters.tags.length + (filters.pinnedOnly ? 1 : 0);
+
+  const chipClass = (active: boolean) => clsx(
+    "px-2 py-0.5 rounded-full border text-[10px] font-semibold uppercase tracking-wider transition-colors",
+    active ? "bg-blue-500 border-blue-500 text-white" : "bg-white border-slate-200 text-slate-500 hover:border-slate-300"
+  );
+
+  return (
+    <div className="px-4 py-2 border-b border-slate-200 bg-white shrink-0 space-y-2">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search size={12} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={e => update({ query: e.target.value })}
+            placeholder='Search titles, notes, answers, nodes… ("exact phrase")'
+            className="w-full pl-7 pr-2 py-1.5 text-xs bg-slate-50 border border-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-400 focus:bg-white"
+          />
+        </div>
+        <select
+          value={sort}
+          onChange={e => onSortChange(e.target.value as HistorySort)}
+          className="text-xs text-slate-600 bg-white border border-slate-200 rounded-md py-1.5 px-1 focus:outline-none"
+          aria-label="Sort history"
+        >
+          {HISTORY_SORT_OPTIONS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => setExpanded(open => !open)}
+          className={clsx(
+            "relative p-1.5 rounded-md border transition-colors",
+            expanded ? "bg-slate-100 border-slate-300 text-slate-700" : "border-slate-200 text-slate-500 hover:text-slate-700"
+          )}
+          title="Filters"
+        >
+          <SlidersHorizontal size={12} />
+          {activeCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[14px] h-[14px] px-0.5 rounded-full bg-blue-500 text-white text-[9px] leading-[14px] text-center">
+              {activeCount}
+            </span>
+          )}
+        </button>
+        {hasActiveFilters(filters) && (
+          <button onClick={() => onChange(EMPTY_FILTERS)} className="text-slate-400 hover:text-slate-700" title="Clear search and filters">
+            <X size={12} />
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="space-y-2 pb-1">
+          <div className="flex items-center gap-1.5 flex-wrap">
+            <span className="text-[10px] text-slate-400 w-16">Saved</span>
+            <button
+              onClick={() => update({ pinnedOnly: !filters.pinnedOnly })}
+              className={clsx(chipClass(filters.pinnedOnly), "flex items-center gap-1")}
+            >
+              <Pin size={9} /> Pinned only
+            </button>
+            {/* Selected tags stay visible even if no longer in use */}
+            {Array.from(new Set([...filters.tags, ...tags])).map(tag => (
+              <button
+                key={tag}
+                onClick={() => update({ tags: toggle(filters.tags, tag) })}
+                className={clsx(chipClass(filters.tags.includes(tag)), "normal-case")}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1.5 flex-wrap">
+            <span className="text-[10px] text-slate-400 w-16">Confidence</span>
+            {CONFIDENCE_OPTIONS.map(level => (
+              <button
+                key={level}
+                onClick={() => update({ confidence: toggle(filters.confidence, level) })}
+                className={chipClass(filters.confidence.includes(level))}
+              >
+                {level}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1.5 flex-wrap">
+            <span className="text-[10px] text-slate-400 w-16">Has nodes</span>
+            {NODE_TYPES.map((type: Node['type']) => (
+              <button
+                key={type}
+                onClick={() => update({ nodeTypes: toggle(filters.nodeTypes, type) })}
+                className={clsx(chipClass(filters.nodeTypes.includes(type)), "flex items-center gap-1")}
+              >
+                <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: getNodeColor(type) }} />
+                {type}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-1.5 flex-wrap text-xs text-slate-600">
+            <span className="text-[10px] text-slate-400 w-16">Date</span>
+            <input
+              type="date"
+              value={filters.from || ''}
+              max={filters.to || undefined}
+              onChange={e => update({ from: e.target.value || undefined })}
+              className="border border-slate-200 rounded px-1 py-0.5 text-[11px]"
+              aria-label="From date"
+            />
+            <span className="text-slate-400">–</span>
+            <input
+              type="date"
+              value={filters.to || ''}
+              min={filters.from || undefined}
+              onChange={e => update({ to: e.target.value || undefined })}
+              className="border border-slate-200 rounded px-1 py-0.5 text-[11px]"
+              aria-label="To date"
+            />
+          </div>
+
+          {conversations && conversations.length > 0 && (
+            <div className="flex items-center gap-1.5">
+              <span className="text-[10px] text-slate-400 w-16">Chat</span>
+              <select
+                value={filters.conversationId || ''}
+                onChange={e => update({ conversationId: e.target.value || null })}
+                className="flex-1 min-w-0 text-[11px] text-slate-600 bg-white border border-slate-200 rounded py-0.5 px-1"
+              >
+                <option value="">Any chat</option>
+                {conversations.map(c => (
+                  <option key={c.id} value={c.id}>{c.title}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
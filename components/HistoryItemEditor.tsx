@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { HistoryItem } from '../types';
+import { normalizeTags } from '../services/historySearch';
+import { MarkdownNote } from './MarkdownNote';
+import { X } from 'lucide-react';
+import { clsx } from 'clsx';
+
+export type HistoryItemPatch = Partial<Pick<HistoryItem, 'title' | 'pinned' | 'tags' | 'note'>>;
+
+interface HistoryItemEditorProps {
+  item: HistoryItem;
+  // Tags used elsewhere, offered as suggestions
+  knownTags: string[];
+  onSave: (patch: HistoryItemPatch) => void;
+  onCancel: () => void;
+}
+
+export const HistoryItemEditor: React.FC<HistoryItemEditorProps> = ({ item, knownTags, onSave, onCancel }) => {
+  const [title, setTitle] = useState(item.title || '');
+  const [tags, setTags] = useState<string[]>(item.tags || []);
+  const [tagInput, setTagInput] = useState('');
+  const [note, setNote] = useState(item.note || '');
+  const [preview, setPreview] = useState(false);
+
+  const addTags = (raw: string) => {
+    const added = normalizeTags(raw.split(','));
+    if (added.length > 0) setTags(prev => normalizeTags([...prev, ...added]));
+    setTagInput('');
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags(tagInput);
+    } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
+      setTags(prev => prev.slice(0, -1));
+    }
+  };
+
+  const handleSave = () => {
+    // A tag still in the input box counts too
+    const finalTags = normalizeTags([...tags, ...tagInput.split(',')]);
+    onSave({
+      title: title.trim() || undefined,
+      tags: finalTags.length > 0 ? finalTags : undefined,
+      note: note.trim() ? note : undefined,
+    });
+  };
+
+  const suggestions = knownTags.filter(t => !tags.includes(t) && t.startsWith(tagInput.trim().toLowerCase())).slice(0, 6);
+
+  return (
+    <div className="absolute inset-0 z-30 bg-slate-900/20 flex items-start justify-center p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-md bg-white rounded-lg shadow-xl border border-slate-200 text-xs"
+        onClick={e => e.stopPropagation()}
+        role="dialog"
+        aria-label="Edit trace details"
+      >
+        <div className="px-4 py-3 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-xs font-bold text-slate-700 uppercase tracking-wider">Edit Trace</h3>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-700" title="Cancel">
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <label className="block space-y-1">
+            <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Title</span>
+            <input
+              value={title}
+              onChange={e => setTitle(e.target.value)}
+              placeholder={item.question}
+              className="w-full px-2 py-1.5 border border-slate-200 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-400"
+              autoFocus
+            />
+          </label>
+
+          <div className="space-y-1">
+            <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Tags</span>
+            <div className="flex flex-wrap items-center gap-1 px-2 py-1.5 border border-slate-200 rounded-md focus-within:ring-1 focus-within:ring-blue-400">
+              {tags.map(tag => (
+                <span key={tag} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 text-[11px]">
+                  #{tag}
+                  <button onClick={() => setTags(prev => prev.filter(t => t !== tag))} className="text-blue-400 hover:text-blue-700" title={`Remove ${tag}`}>
+                    <X size={10} />
+                  </button>
+                </span>
+              ))}
+              <input
+                value={tagInput}
+                onChange={e => setTagInput(e.target.value)}
+                onKeyDown={handleTagKeyDown}
+                onBlur={() => tagInput.trim() && addTags(tagInput)}
+                placeholder={tags.length === 0 ? 'Add tags (Enter or comma)' : ''}
+                className="flex-1 min-w-[6rem] focus:outline-none"
+                aria-label="Add tag"
+              />
+            </div>
+            {tagInput.trim() && suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map(tag => (
+                  <button
+                    key={tag}
+                    onMouseDown={e => e.preventDefault()}
+                    onClick={() => addTags(tag)}
+                    className="px-1.5 py-0.5 rounded border border-slate-200 text-slate-500 hover:border-slate-300 text-[11px]"
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-semibold text-slate-500 uppercase tracking-wider">Note</span>
+              <div className="flex text-[10px] font-semibold rounded border border-slate-200 overflow-hidden">
+                {([false, true] as const).map(value => (
+                  <button
+                    key={String(value)}
+                    onClick={() => setPreview(value)}
+                    className={clsx("px-2 py-0.5", preview === value ? "bg-slate-100 text-slate-700" : "text-slate-400 hover:text-slate-600")}
+                  >
+                    {value ? 'Preview' : 'Write'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {preview ? (
+              <div className="min-h-[8rem] max-h-60 overflow-y-auto px-2 py-1.5 border border-slate-200 rounded-md custom-scrollbar">
+                {note.trim() ? <MarkdownNote source={note} /> : <p className="text-slate-400">Nothing to preview.</p>}
+              </div>
+            ) : (
+              <textarea
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                rows={6}
+                placeholder="Markdown supported: **bold**, *italic*, `code`, lists, [links](https://…)"
+                className="w-full px-2 py-1.5 border border-slate-200 rounded-md font-mono text-[11px] focus:outline-none focus:ring-1 focus:ring-blue-400 resize-y"
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="px-4 py-3 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onCancel} className="px-3 py-1.5 rounded-md text-slate-600 hover:bg-slate-100">Cancel</button>
+          <button onClick={handleSave} className="px-3 py-1.5 rounded-md bg-blue-500 text-white font-semibold hover:bg-blue-600">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
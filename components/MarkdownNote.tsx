@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { InlineToken, parseMarkdown } from '../services/markdown';
+
+interface MarkdownNoteProps {
+  source: string;
+  className?: string;
+}
+
+const renderInline = (tokens: InlineToken[]) =>
+  tokens.map((token, i) => {
+    switch (token.type) {
+      case 'bold': return <strong key={i} className="font-semibold text-slate-800">{token.text}</strong>;
+      case 'italic': return <em key={i}>{token.text}</em>;
+      case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-100 text-[0.9em] font-mono">{token.text}</code>;
+      case 'link': return <a key={i} href={token.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{token.text}</a>;
+      default: return <React.Fragment key={i}>{token.text}</React.Fragment>;
+    }
+  });
+
+export const MarkdownNote: React.FC<MarkdownNoteProps> = ({ source, className }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <div className={className ?? 'text-xs text-slate-600 leading-relaxed space-y-2'}>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <p key={i} className={block.level === 1 ? 'text-sm font-bold text-slate-800' : 'font-semibold text-slate-800'}>
+                {renderInline(block.content)}
+              </p>
+            );
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={i} className={block.ordered ? 'list-decimal pl-4 space-y-0.5' : 'list-disc pl-4 space-y-0.5'}>
+                {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+              </List>
+            );
+          }
+          case 'code':
+            return <pre key={i} className="p-2 rounded bg-slate-100 font-mono text-[11px] overflow-x-auto whitespace-pre">{block.text}</pre>;
+          default:
+            return <p key={i}>{renderInline(block.content)}</p>;
+        }
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React from 'react';
+import { ExplainTrace, Edge, SourceChunk } from '../types';
+import { ArrowLeft, ArrowRight, Crosshair, X } from 'lucide-react';
+import { getNodeColor } from './ReasoningGraph';
+import { SourceExcerpt } from './SourceExcerpt';
+import { isUncertain } from '../services/uncertainty';
+import { clsx } from 'clsx';
+
+interface NodeInspectorProps {
+  data: ExplainTrace;
+  nodeId: string;
+  onSelectNode: (nodeId: string | null) => void;
+  // Excerpts the answer was grounded in; the node's citations are looked up here
+  sources?: SourceChunk[];
+}
+
+export const NodeInspector: React.FC<NodeInspectorProps> = ({ data, nodeId, onSelectNode, sources = [] }) => {
+  const node = data.nodes.find(n => n.id === nodeId);
+  if (!node) return null;
+
+  const stage = data.stages.find(s => s.id === node.stage_id);
+  const labelOf = (id: string) => data.nodes.find(n => n.id === id)?.label || id;
+  const incoming = data.edges.filter(e => e.target === node.id);
+  const outgoing = data.edges.filter(e => e.source === node.id);
+  const cited = (node.sources || [])
+    .map(id => sources.find(s => s.id === id))
+    .filter((s): s is SourceChunk => Boolean(s));
+
+  const renderEdge = (edge: Edge, neighborId: string, direction: 'in' | 'out') => (
+    <li key={`${edge.source}->${edge.target}`}>
+      <button
+        onClick={() => onSelectNode(neighborId)}
+        className="w-full text-left px-2 py-1.5 rounded hover:bg-slate-50 transition-colors group"
+        title={`Inspect "${labelOf(neighborId)}"`}
+      >
+        <div className="flex items-center gap-1.5 text-xs text-slate-700">
+          {direction === 'in'
+            ? <ArrowLeft size={10} className="text-slate-400 shrink-0" />
+            : <ArrowRight size={10} className="text-slate-400 shrink-0" />}
+          <span className="truncate group-hover:text-blue-600">{labelOf(neighborId)}</span>
+        </div>
+        <div className="flex items-center gap-2 mt-0.5 pl-4">
+          <span className="text-[10px] text-slate-500 italic truncate flex-1">{edge.relation_label || 'related to'}</span>
+          <div className="w-12 h-1 bg-slate-100 rounded-full overflow-hidden shrink-0" title={`Strength ${edge.strength.toFixed(2)}`}>
+            <div className="h-full bg-blue-400" style={{ width: `${Math.round(edge.strength * 100)}%` }} />
+          </div>
+          <span className="text-[10px] text-slate-400 font-mono w-7 text-right">{edge.strength.toFixed(2)}</span>
+        </div>
+        {edge.certainty !== undefined && (
+          <div className={clsx("pl-4 mt-0.5 text-[10px]", isUncertain(edge) ? "text-amber-600" : "text-slate-400")}>
+            Certainty {Math.round(edge.certainty * 100)}%
+          </div>
+        )}
+      </button>
+    </li>
+  );
+
+  return (
+    <div className="w-64 max-h-full flex flex-col bg-white/95 backdrop-blur border border-slate-200 rounded-lg shadow-lg overflow-hidden">
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-slate-200 bg-slate-50 flex items-center justify-between">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider flex items-center gap-1.5">
+          <Crosshair size={12} className="text-blue-500" /> Node Inspector
+        </span>
+        <button onClick={() => onSelectNode(null)} className="text-slate-400 hover:text-slate-700" title="Close">
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar p-3 space-y-3">
+        <div>
+          <h3 className="text-sm font-semibold text-slate-800 leading-snug">{node.label}</h3>
+          <div className="flex items-center gap-2 mt-1.5">
+            <span
+              className="px-1.5 py-0.5 rounded text-[10px] font-bold uppercase tracking-wider text-white"
+              style={{ backgroundColor: getNodeColor(node.type) }}
+            >
+              {node.type}
+            </span>
+            <span className="text-[10px] text-slate-500">Importance</span>
+            <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-400" style={{ width: `${Math.round(node.importance * 100)}%` }} />
+            </div>
+            <span className="text-[10px] text-slate-500 font-mono">{node.importance.toFixed(2)}</span>
+          </div>
+          {node.certainty !== undefined && (
+            <div className="flex items-center gap-2 mt-1.5" title="How sure the model is about this node">
+              <span className="text-[10px] text-slate-500">Certainty</span>
+              <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={clsx("h-full", isUncertain(node) ? "bg-amber-400" : "bg-emerald-400")}
+                  style={{ width: `${Math.round(node.certainty * 100)}%` }}
+                />
+              </div>
+              <span className="text-[10px] text-slate-500 font-mono">{node.certainty.toFixed(2)}</span>
+            </div>
+          )}
+          {node.support !== undefined && data.consensus && (
+            <p className="text-[10px] text-slate-500 mt-1.5">
+              Found in {Math.round(node.support * data.consensus.samples)} of {data.consensus.samples} samples
+            </p>
+          )}
+        </div>
+
+        {stage && (
+          <div className="bg-slate-50 rounded border border-slate-200 p-2">
+            <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Stage · {stage.label}</div>
+            {stage.description && <p className="text-xs text-slate-600 mt-1 leading-relaxed">{stage.description}</p>}
+          </div>
+        )}
+
+        {cited.length > 0 && (
+          <div>
+            <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Sources ({cited.length})</h4>
+            <div className="space-y-1.5">
+              {cited.map(source => <SourceExcerpt key={source.id} source={source} />)}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Incoming ({incoming.length})</h4>
+          {incoming.length > 0
+            ? <ul>{incoming.map(e => renderEdge(e, e.source, 'in'))}</ul>
+            : <p className="text-[11px] text-slate-400 px-2">None</p>}
+        </div>
+
+        <div>
+          <h4 className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Outgoing ({outgoing.length})</h4>
+          {outgoing.length > 0
+            ? <ul>{outgoing.map(e => renderEdge(e, e.target, 'out'))}</ul>
+            : <p className="text-[11px] text-slate-400 px-2">None</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
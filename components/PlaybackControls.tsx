@@ -0,0 +1,85 @@
+import React from 'react';
+import { Pause, Play, SkipBack, SkipForward, X, ListOrdered } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface PlaybackControlsProps {
+  frameCount: number;
+  // null when the whole graph is shown outside of playback
+  frameIndex: number | null;
+  frameLabel?: string;
+  isPlaying: boolean;
+  onPlayPause: () => void;
+  onSeek: (frameIndex: number) => void;
+  onExit: () => void;
+}
+
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  frameCount,
+  frameIndex,
+  frameLabel,
+  isPlaying,
+  onPlayPause,
+  onSeek,
+  onExit,
+}) => {
+  if (frameCount === 0) return null;
+  const active = frameIndex !== null;
+  const current = frameIndex ?? frameCount - 1;
+
+  const buttonClass = "p-1.5 rounded-full text-slate-500 hover:text-blue-600 hover:bg-slate-100 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-slate-500";
+
+  return (
+    <div className="flex items-center gap-1 bg-white/95 backdrop-blur border border-slate-200 rounded-full shadow-md px-2 py-1">
+      <button
+        onClick={() => onSeek(Math.max(0, current - 1))}
+        disabled={active && current === 0}
+        className={buttonClass}
+        title="Previous step"
+      >
+        <SkipBack size={14} />
+      </button>
+      <button
+        onClick={onPlayPause}
+        className={clsx(buttonClass, isPlaying && "text-blue-600")}
+        title={isPlaying ? "Pause playback" : "Play reasoning step by step"}
+      >
+        {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+      </button>
+      <button
+        onClick={() => onSeek(Math.min(frameCount - 1, active ? current + 1 : 0))}
+        disabled={active && current === frameCount - 1}
+        className={buttonClass}
+        title="Next step"
+      >
+        <SkipForward size={14} />
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={frameCount - 1}
+        step={1}
+        value={current}
+        onChange={e => onSeek(Number(e.target.value))}
+        className="w-28 mx-1 accent-blue-500"
+        aria-label="Playback position"
+      />
+      <span className="text-[10px] font-mono text-slate-500 w-9 text-center">
+        {active ? `${current + 1}/${frameCount}` : <ListOrdered size={12} className="inline" />}
+      </span>
+
+      {active && (
+        <>
+          {frameLabel && (
+            <span className="text-[11px] text-slate-600 max-w-[12rem] truncate border-l border-slate-200 pl-2" title={frameLabel}>
+              {frameLabel}
+            </span>
+          )}
+          <button onClick={onExit} className={buttonClass} title="Show the full graph">
+            <X size={12} />
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,22 +1,165 @@
-import React from 'react';
-import { HistoryItem } from '../types';
-import { Clock, Activity, ArrowRight, Database } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { HistoryItem, Conversation } from '../types';
+import { BundleScope } from '../services/historyBundle';
+import { GRAPH_EXPORT_FORMATS, GraphFormat } from '../services/graphExport';
+import { REPORT_FORMATS, ReportFormat } from '../services/traceReport';
+import { ShareTarget } from '../services/share';
+import {
+  EMPTY_FILTERS,
+  HistoryFilters,
+  HistorySort,
+  MatchField,
+  SnippetPart,
+  buildSnippet,
+  collectTags,
+  hasActiveFilters,
+  parseQuery,
+  searchHistory,
+} from '../services/historySearch';
+import { HistoryFilterBar } from './HistoryFilterBar';
+import { HistoryItemEditor, HistoryItemPatch } from './HistoryItemEditor';
+import {
+  Clock, Activity, ArrowRight, Database, Download, Upload, GitCompare, CheckSquare, Square,
+  Pin, PinOff, Pencil, Trash2, ListChecks, Share2, Link, FileCode,
+} from 'lucide-react';
 import { clsx } from 'clsx';
 
 interface ReasoningGalleryProps {
   history: HistoryItem[];
+  conversations: Conversation[];
+  activeConversationId: string;
   activeItemId: string | null;
-  onSelectHistory: (item: HistoryItem) => void;
+  // focusNodeId: node that matched the search, to be focused in the graph
+  onSelectHistory: (item: HistoryItem, focusNodeId?: string) => void;
+  onExport: (scope: BundleScope, withThumbnails: boolean) => void;
+  onImport: (file: File) => void;
+  // Exports the selected trace's graph in another tool's format
+  onExportGraph: (format: GraphFormat) => void;
+  onExportReport: (format: ReportFormat) => void;
+  onCompare: (before: HistoryItem, after: HistoryItem) => void;
+  onUpdateItem: (id: string, patch: HistoryItemPatch) => void;
+  onDeleteItems: (ids: string[]) => void;
+  // Copies a read-only link to the trace or downloads it as a standalone HTML file
+  onShare: (item: HistoryItem, target: ShareTarget) => void;
 }
 
+const MATCH_FIELD_LABELS: Record<MatchField, string> = {
+  title: 'Title',
+  question: 'Question',
+  tag: 'Tag',
+  note: 'Note',
+  answer: 'Answer',
+  node: 'Node',
+  step: 'Step',
+  key_factor: 'Key basis',
+};
+
+const Highlighted: React.FC<{ parts: SnippetPart[] }> = ({ parts }) => (
+  <>
+    {parts.map((part, i) => part.highlight
+      ? <mark key={i} className="bg-yellow-100 text-slate-900 rounded-sm">{part.text}</mark>
+      : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+  </>
+);
+
+const EXPORT_OPTIONS: { scope: BundleScope; label: string }[] = [
+  { scope: 'trace', label: 'Selected trace' },
+  { scope: 'conversation', label: 'This chat' },
+  { scope: 'all', label: 'Entire history' },
+];
+
 export const ReasoningGallery: React.FC<ReasoningGalleryProps> = ({
   history,
+  conversations,
+  activeConversationId,
   activeItemId,
   onSelectHistory,
+  onExport,
+  onImport,
+  onExportGraph,
+  onExportReport,
+  onCompare,
+  onUpdateItem,
+  onDeleteItems,
+  onShare,
 }) => {
+  const [scope, setScope] = useState<'conversation' | 'all'>('conversation');
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [withThumbnails, setWithThumbnails] = useState(true);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Selection modes: clicking items picks traces (two to compare, any number to delete)
+  // instead of opening them
+  const [selectMode, setSelectMode] = useState<'compare' | 'delete' | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [sharingId, setSharingId] = useState<string | null>(null);
+
+  const toggleSelectMode = (mode: 'compare' | 'delete') => {
+    setSelectMode(current => current === mode ? null : mode);
+    setSelectedIds([]);
+  };
+
+  const toggleSelectedItem = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(x => x !== id);
+      return selectMode === 'compare' ? [...prev, id].slice(-2) : [...prev, id];
+    });
+  };
+
+  const startCompare = () => {
+    // Older trace is the baseline
+    const [a, b] = selectedIds
+      .map(id => history.find(h => h.id === id))
+      .filter((h): h is HistoryItem => Boolean(h))
+      .sort((x, y) => x.timestamp.localeCompare(y.timestamp));
+    if (!a || !b) return;
+    onCompare(a, b);
+    setSelectMode(null);
+    setSelectedIds([]);
+  };
+
+  const deleteSelected = () => {
+    if (selectedIds.length === 0) return;
+    onDeleteItems(selectedIds);
+    setSelectMode(null);
+    setSelectedIds([]);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = ''; // Allow importing the same file again
+  };
+
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [sort, setSort] = useState<HistorySort>('newest');
+
+  const scopedHistory = useMemo(() => scope === 'all'
+    ? history
+    : history.filter(item => item.conversationId === activeConversationId), [history, scope, activeConversationId]);
+  const effectiveFilters = scope === 'all' ? filters : { ...filters, conversationId: null };
+  const results = useMemo(
+    () => searchHistory(scopedHistory, effectiveFilters, sort),
+    [scopedHistory, filters, scope, sort]
+  );
+  const terms = useMemo(() => parseQuery(filters.query), [filters.query]);
+  const allTags = useMemo(() => collectTags(history), [history]);
+  const editingItem = editingId ? history.find(h => h.id === editingId) : undefined;
+  const allVisibleSelected = results.length > 0 && results.every(r => selectedIds.includes(r.item.id));
+
+  const handleItemKeyDown = (e: React.KeyboardEvent, activate: () => void) => {
+    if (e.target !== e.currentTarget) return;
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      activate();
+    }
+  };
+
+  const conversationTitle = (conversationId?: string) =>
+    conversations.find(c => c.id === conversationId)?.title;
 
   return (
-    <div className="flex flex-col h-full bg-white border-l border-slate-200 w-full overflow-hidden">
+    <div className="relative flex flex-col h-full bg-white border-l border-slate-200 w-full overflow-hidden">
       
       {/* Header */}
       <div className="p-4 border-b border-slate-200 flex justify-between items-center bg-slate-50 shrink-0">
@@ -24,28 +167,213 @@ export const ReasoningGallery: React.FC<ReasoningGalleryProps> = ({
           <Database size={14} className="text-blue-500" />
           Reasoning History
         </h2>
-        <span className="text-xs text-slate-500">{history.length} Records</span>
+        <div className="flex items-center gap-3">
+          <div className="flex text-[10px] font-bold uppercase tracking-wider rounded-md border border-slate-200 overflow-hidden">
+            {(['conversation', 'all'] as const).map(value => (
+              <button
+                key={value}
+                onClick={() => setScope(value)}
+                className={clsx(
+                  "px-2 py-1 transition-colors",
+                  scope === value ? "bg-blue-500 text-white" : "bg-white text-slate-500 hover:text-slate-700"
+                )}
+              >
+                {value === 'conversation' ? 'This chat' : 'All'}
+              </button>
+            ))}
+          </div>
+          <span className="text-xs text-slate-500">
+            {hasActiveFilters(effectiveFilters) ? `${results.length}/${scopedHistory.length}` : scopedHistory.length} Records
+          </span>
+          <div className="relative flex items-center gap-1">
+            <button
+              onClick={() => toggleSelectMode('compare')}
+              className={clsx(
+                "p-1 rounded transition-colors",
+                selectMode === 'compare' ? "bg-blue-100 text-blue-600" : "text-slate-400 hover:text-slate-700 hover:bg-slate-200"
+              )}
+              title="Compare two traces"
+            >
+              <GitCompare size={14} />
+            </button>
+            <button
+              onClick={() => toggleSelectMode('delete')}
+              className={clsx(
+                "p-1 rounded transition-colors",
+                selectMode === 'delete' ? "bg-red-100 text-red-600" : "text-slate-400 hover:text-slate-700 hover:bg-slate-200"
+              )}
+              title="Select traces to delete"
+            >
+              <ListChecks size={14} />
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="p-1 rounded text-slate-400 hover:text-slate-700 hover:bg-slate-200 transition-colors"
+              title="Import history bundle (.json or .zip)"
+            >
+              <Upload size={14} />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.zip,application/json,application/zip"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <button
+              onClick={() => setExportMenuOpen(open => !open)}
+              className={clsx(
+                "p-1 rounded transition-colors",
+                exportMenuOpen ? "bg-slate-200 text-slate-700" : "text-slate-400 hover:text-slate-700 hover:bg-slate-200"
+              )}
+              title="Export history"
+            >
+              <Download size={14} />
+            </button>
+            {exportMenuOpen && (
+              <div className="absolute right-0 top-full mt-1 z-20 w-48 bg-white border border-slate-200 rounded-lg shadow-lg py-1 text-xs">
+                {EXPORT_OPTIONS.map(option => {
+                  const disabled = option.scope === 'trace' && !activeItemId;
+                  return (
+                    <button
+                      key={option.scope}
+                      disabled={disabled}
+                      onClick={() => {
+                        setExportMenuOpen(false);
+                        onExport(option.scope, withThumbnails);
+                      }}
+                      className="w-full text-left px-3 py-1.5 text-slate-700 hover:bg-slate-50 disabled:text-slate-300 disabled:hover:bg-white"
+                    >
+                      {option.label}
+                    </button>
+                  );
+                })}
+                <label className="flex items-center gap-2 px-3 pt-2 mt-1 border-t border-slate-100 text-slate-500 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={withThumbnails}
+                    onChange={e => setWithThumbnails(e.target.checked)}
+                  />
+                  Include thumbnails (.zip)
+                </label>
+                <div className="px-3 pt-2 mt-2 border-t border-slate-100 text-[10px] font-semibold uppercase tracking-wider text-slate-400">
+                  Selected trace as
+                </div>
+                {REPORT_FORMATS.map(format => (
+                  <button
+                    key={format.id}
+                    disabled={!activeItemId}
+                    onClick={() => {
+                      setExportMenuOpen(false);
+                      onExportReport(format.id);
+                    }}
+                    className="w-full text-left px-3 py-1.5 text-slate-700 hover:bg-slate-50 disabled:text-slate-300 disabled:hover:bg-white"
+                  >
+                    {format.label}
+                  </button>
+                ))}
+                {GRAPH_EXPORT_FORMATS.map(format => (
+                  <button
+                    key={format.id}
+                    disabled={!activeItemId}
+                    onClick={() => {
+                      setExportMenuOpen(false);
+                      onExportGraph(format.id);
+                    }}
+                    className="w-full text-left px-3 py-1.5 text-slate-700 hover:bg-slate-50 disabled:text-slate-300 disabled:hover:bg-white"
+                  >
+                    {format.label} <span className="text-slate-400">.{format.extension}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
       </div>
 
+      <HistoryFilterBar
+        filters={filters}
+        onChange={setFilters}
+        sort={sort}
+        onSortChange={setSort}
+        conversations={scope === 'all' ? conversations : undefined}
+        tags={allTags}
+      />
+
+      {selectMode === 'compare' && (
+        <div className="px-4 py-2 border-b border-blue-100 bg-blue-50 flex items-center justify-between text-xs text-blue-800 shrink-0">
+          <span>Select two traces to compare ({selectedIds.length}/2)</span>
+          <button
+            onClick={startCompare}
+            disabled={selectedIds.length < 2}
+            className="px-2 py-1 rounded bg-blue-500 text-white font-semibold disabled:opacity-40"
+          >
+            Compare
+          </button>
+        </div>
+      )}
+
+      {selectMode === 'delete' && (
+        <div className="px-4 py-2 border-b border-red-100 bg-red-50 flex items-center justify-between text-xs text-red-800 shrink-0">
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allVisibleSelected}
+              onChange={() => setSelectedIds(allVisibleSelected ? [] : results.map(r => r.item.id))}
+            />
+            {selectedIds.length} selected
+          </label>
+          <button
+            onClick={deleteSelected}
+            disabled={selectedIds.length === 0}
+            className="px-2 py-1 rounded bg-red-500 text-white font-semibold disabled:opacity-40 flex items-center gap-1"
+          >
+            <Trash2 size={12} /> Delete
+          </button>
+        </div>
+      )}
+
       {/* List */}
       <div className="flex-1 overflow-y-auto custom-scrollbar bg-white">
           <div className="divide-y divide-slate-100">
-              {history.length === 0 && (
+              {results.length === 0 && (
                   <div className="p-8 text-center text-slate-400 text-xs">
-                      No history yet. Ask a question to start building the reasoning gallery.
+                      {scopedHistory.length > 0 && hasActiveFilters(effectiveFilters) ? (
+                        <>
+                          No traces match your search.{' '}
+                          <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-blue-500 hover:underline">Clear filters</button>
+                        </>
+                      ) : scope === 'conversation' && history.length > 0
+                        ? "No traces in this chat yet. Switch to \"All\" to see the full history."
+                        : "No history yet. Ask a question to start building the reasoning gallery."}
                   </div>
               )}
-              {history.slice().reverse().map((item) => (
-                  <button
+              {results.map(({ item, matches, focusNodeId }) => {
+                  // Show where the query matched when it wasn't in the heading itself
+                  const heading = item.title ? 'title' : 'question';
+                  const detail = terms.length > 0 ? matches.find(m => m.field !== heading) : undefined;
+                  const activate = () => selectMode ? toggleSelectedItem(item.id) : onSelectHistory(item, focusNodeId);
+                  return (
+                  // Not a <button>: the row contains its own action buttons
+                  <div
                       key={item.id}
-                      onClick={() => onSelectHistory(item)}
+                      role="button"
+                      tabIndex={0}
+                      onClick={activate}
+                      onKeyDown={e => handleItemKeyDown(e, activate)}
                       className={clsx(
-                        "w-full text-left p-4 transition-all group flex gap-3 items-start border-l-2",
+                        "w-full text-left p-4 transition-all group flex gap-3 items-start border-l-2 cursor-pointer focus:outline-none focus-visible:ring-1 focus-visible:ring-blue-400",
                         activeItemId === item.id 
                           ? "bg-blue-50 border-blue-500" 
                           : "hover:bg-slate-50 border-transparent hover:border-slate-300"
                       )}
                   >
+                      {selectMode && (
+                        <span className={clsx("self-center shrink-0", selectMode === 'delete' ? "text-red-500" : "text-blue-500")}>
+                          {selectedIds.includes(item.id) ? <CheckSquare size={14} /> : <Square size={14} className="text-slate-300" />}
+                        </span>
+                      )}
+
                       {/* Thumbnail Image - WIDE LANDSCAPE */}
                       <div className="w-32 h-16 rounded bg-slate-100 border border-slate-200 overflow-hidden shrink-0 mt-0.5 relative group-hover:border-slate-300 transition-colors shadow-sm">
                         {item.thumbnail ? (
@@ -62,32 +390,117 @@ export const ReasoningGallery: React.FC<ReasoningGalleryProps> = ({
                             <span className="text-[10px] text-slate-500 flex items-center gap-1 font-mono">
                                 <Clock size={10} />
                                 {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                {scope === 'all' && conversationTitle(item.conversationId) && (
+                                  <span className="ml-1 truncate max-w-[8rem] text-slate-400">· {conversationTitle(item.conversationId)}</span>
+                                )}
+                            </span>
+                            <span className="flex items-center gap-1">
+                              {item.tags?.slice(0, 3).map(tag => (
+                                <span key={tag} className="text-[10px] text-slate-500 px-1 rounded bg-slate-100 max-w-[5rem] truncate">#{tag}</span>
+                              ))}
+                              {activeItemId === item.id && (
+                                <span className="text-[10px] text-blue-600 font-bold px-1.5 py-0.5 bg-blue-100 rounded">ACTIVE</span>
+                              )}
                             </span>
-                            {activeItemId === item.id && (
-                              <span className="text-[10px] text-blue-600 font-bold px-1.5 py-0.5 bg-blue-100 rounded">ACTIVE</span>
-                            )}
                         </div>
                         <h4 className={clsx(
-                          "text-sm font-medium line-clamp-1 mb-0.5 transition-colors",
+                          "text-sm font-medium line-clamp-1 mb-0.5 transition-colors flex items-center gap-1",
                           activeItemId === item.id ? "text-blue-600" : "text-slate-700 group-hover:text-slate-900"
-                        )}>
-                            {item.question}
+                        )} title={item.title ? item.question : undefined}>
+                            {item.pinned && <Pin size={11} className="text-amber-500 shrink-0 fill-amber-400" />}
+                            <span className="truncate">
+                              <Highlighted parts={buildSnippet(item.title || item.question, terms)} />
+                            </span>
                         </h4>
-                        <p className="text-xs text-slate-500 line-clamp-1 opacity-80">
-                            {item.answer}
-                        </p>
+                        {detail ? (
+                          <p className="text-xs text-slate-500 line-clamp-1">
+                              <span className="text-[10px] font-semibold uppercase tracking-wider text-slate-400 mr-1">
+                                {MATCH_FIELD_LABELS[detail.field]}
+                              </span>
+                              <Highlighted parts={buildSnippet(detail.text, terms)} />
+                          </p>
+                        ) : (
+                          <p className="text-xs text-slate-500 line-clamp-1 opacity-80">
+                              {item.answer}
+                          </p>
+                        )}
                       </div>
                       
-                      <div className="self-center pl-2">
+                      {!selectMode && (
+                        <div className={clsx(
+                          "relative self-center flex flex-col items-center gap-0.5 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity",
+                          sharingId === item.id ? "opacity-100" : "opacity-0"
+                        )}>
+                          <button
+                            onClick={e => { e.stopPropagation(); onUpdateItem(item.id, { pinned: !item.pinned }); }}
+                            className="p-0.5 rounded text-slate-400 hover:text-amber-600"
+                            title={item.pinned ? 'Unpin' : 'Pin to top'}
+                          >
+                            {item.pinned ? <PinOff size={12} /> : <Pin size={12} />}
+                          </button>
+                          <button
+                            onClick={e => { e.stopPropagation(); setEditingId(item.id); }}
+                            className="p-0.5 rounded text-slate-400 hover:text-slate-700"
+                            title="Rename, tag or annotate"
+                          >
+                            <Pencil size={12} />
+                          </button>
+                          <button
+                            onClick={e => { e.stopPropagation(); setSharingId(id => id === item.id ? null : item.id); }}
+                            className={clsx("p-0.5 rounded hover:text-blue-600", sharingId === item.id ? "text-blue-600" : "text-slate-400")}
+                            title="Share"
+                            aria-haspopup="menu"
+                            aria-expanded={sharingId === item.id}
+                          >
+                            <Share2 size={12} />
+                          </button>
+                          {sharingId === item.id && (
+                            <div role="menu" className="absolute right-full top-0 mr-1 z-10 w-40 bg-white border border-slate-200 rounded-lg shadow-lg py-1 text-xs">
+                              {([['link', 'Copy link', Link], ['html', 'Download HTML', FileCode]] as const).map(([target, label, Icon]) => (
+                                <button
+                                  key={target}
+                                  role="menuitem"
+                                  onClick={e => { e.stopPropagation(); setSharingId(null); onShare(item, target); }}
+                                  className="w-full flex items-center gap-2 text-left px-3 py-1.5 text-slate-700 hover:bg-slate-50"
+                                >
+                                  <Icon size={12} className="text-slate-400" /> {label}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                          <button
+                            onClick={e => { e.stopPropagation(); onDeleteItems([item.id]); }}
+                            className="p-0.5 rounded text-slate-400 hover:text-red-600"
+                            title="Delete"
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </div>
+                      )}
+
+                      <div className="self-center pl-1">
                         <ArrowRight size={14} className={clsx(
                           "transition-all",
                           activeItemId === item.id ? "text-blue-500 opacity-100" : "text-slate-400 opacity-0 group-hover:opacity-100"
                         )} />
                       </div>
-                  </button>
-              ))}
+                  </div>
+                  );
+              })}
           </div>
       </div>
+
+      {editingItem && (
+        <HistoryItemEditor
+          item={editingItem}
+          knownTags={allTags}
+          onSave={patch => {
+            onUpdateItem(editingItem.id, patch);
+            setEditingId(null);
+          }}
+          onCancel={() => setEditingId(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
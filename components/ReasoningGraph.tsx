@@ -1,29 +1,111 @@
-import React, { useRef, useMemo, useEffect, useState } from 'react';
+import React, { useRef, useMemo, useEffect, useLayoutEffect, useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { Line, Text, Float, OrbitControls, Html } from '@react-three/drei';
 import type * as THREE from 'three'; // Type-only import to prevent multiple instances
 import * as d3 from 'd3';
 import { ExplainTrace, AppMode } from '../types';
-import { RotateCw, Play, Download } from 'lucide-react';
+import { downloadUrl, filenameTimestamp } from '../services/download';
+import { ReportFormat, downloadTraceReport } from '../services/traceReport';
+import { GraphExportMeta, GraphFormat, downloadGraphExport } from '../services/graphExport';
+import { DiffStatus, TraceDiff, diffEdgeKey } from '../services/traceDiff';
+import { supportOpacity } from '../services/selfConsistency';
+import { certaintyOf, desaturate, isUncertain } from '../services/uncertainty';
+import { DEFAULT_LAYOUT, LAYOUT_OPTIONS, LayoutKind, Point3D, computeLayout, isLayoutKind } from '../services/graphLayout';
+import { readLocalValue, writeLocalValue } from '../services/storage';
+import { GraphDownloadMenu } from './GraphDownloadMenu';
+import { RotateCw, Play, Network } from 'lucide-react';
 
 // Define constants locally to avoid runtime import of THREE
 const MOUSE = { LEFT: 0, MIDDLE: 1, RIGHT: 2, ROTATE: 0, DOLLY: 1, PAN: 2 };
 const TOUCH = { ROTATE: 0, PAN: 1, DOLLY_PAN: 2, DOLLY_ROTATE: 3 };
 
-interface Point3D { x: number; y: number; z: number; }
+const LAYOUT_STORAGE_KEY = 'neuroviz_graph_layout';
+
 
 const distance3D = (p1: Point3D, p2: Point3D) => {
     return Math.sqrt(Math.pow(p2.x - p1.x, 2) + Math.pow(p2.y - p1.y, 2) + Math.pow(p2.z - p1.z, 2));
 };
 
+// Consensus nodes that few samples agreed on are drawn smaller
+const nodeRadius = (importance: number, support?: number) =>
+    Math.max(0.1, 0.25 + ((Number.isFinite(importance) ? importance : 0.5) * 0.1)) * (support === undefined ? 1 : 0.7 + 0.3 * support); // Ensure radius is positive
+
+const CURVE_SEGMENTS = 16;
+
+/**
+ * Samples the path of an edge. Straight unless `bend` is non-zero, in which case it is a
+ * quadratic curve bowing to the left of the source->target direction, so the two edges of a
+ * reciprocal pair bend to opposite sides. Also returns the midpoint (for the label) and the
+ * arrival direction at the target (for the arrowhead).
+ */
+const edgePath = (start: Point3D, end: Point3D, bend: number) => {
+    const dx = end.x - start.x, dy = end.y - start.y, dz = end.z - start.z;
+    const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    const planar = Math.sqrt(dx * dx + dy * dy) || 1;
+    const control = {
+        x: (start.x + end.x) / 2 - (dy / planar) * length * bend,
+        y: (start.y + end.y) / 2 + (dx / planar) * length * bend,
+        z: (start.z + end.z) / 2,
+    };
+    const at = (t: number): Point3D => {
+        const a = (1 - t) * (1 - t), b = 2 * (1 - t) * t, c = t * t;
+        return {
+            x: a * start.x + b * control.x + c * end.x,
+            y: a * start.y + b * control.y + c * end.y,
+            z: a * start.z + b * control.z + c * end.z,
+        };
+    };
+    const segments = bend === 0 ? 1 : CURVE_SEGMENTS;
+    const points: [number, number, number][] = [];
+    for (let i = 0; i <= segments; i++) {
+        const p = at(i / segments);
+        points.push([p.x, p.y, p.z]);
+    }
+    const from = bend === 0 ? start : control;
+    const arrival = { x: end.x - from.x, y: end.y - from.y, z: end.z - from.z };
+    const arrivalLength = distance3D(from, end) || 1;
+    return {
+        points,
+        mid: at(0.5),
+        direction: { x: arrival.x / arrivalLength, y: arrival.y / arrivalLength, z: arrival.z / arrivalLength },
+    };
+};
+
+// Quaternion rotating the +Y axis (cone geometry's default orientation) onto a unit vector.
+const quaternionFromY = (d: Point3D): [number, number, number, number] => {
+    const angle = Math.acos(Math.max(-1, Math.min(1, d.y)));
+    const axisLength = Math.sqrt(d.z * d.z + d.x * d.x);
+    if (axisLength < 1e-6) return d.y > 0 ? [0, 0, 0, 1] : [1, 0, 0, 0];
+    const s = Math.sin(angle / 2) / axisLength;
+    return [d.z * s, 0, -d.x * s, Math.cos(angle / 2)];
+};
+
 interface ReasoningGraphProps {
   mode: AppMode;
   data: ExplainTrace | null;
+  // Changes when a different trace is shown; updates under the same key (streaming) are incremental
+  dataKey?: string | null;
   onCapture?: (dataUrl: string) => void;
+  selectedNodeId?: string | null;
+  onSelectNode?: (nodeId: string | null) => void;
+  // Playback: only these nodes are shown (all when null), and these are emphasized
+  visibleNodeIds?: Set<string> | null;
+  highlightNodeIds?: Set<string> | null;
+  // Compare mode: colors nodes and edges by diff status instead of node type
+  diff?: TraceDiff | null;
+  // Question and answer written into graph exports
+  exportMeta?: GraphExportMeta;
 }
 
+export const DIFF_COLORS: Record<DiffStatus, string> = {
+  added: '#16a34a', // Green 600
+  removed: '#dc2626', // Red 600
+  changed: '#d97706', // Amber 600
+  unchanged: '#94a3b8', // Slate 400
+};
+
 // Helper to map node types to colors
-const getNodeColor = (type: string) => {
+export const getNodeColor = (type: string) => {
   switch (type) {
     case 'intent': return '#be185d'; // Dark Pink
     case 'fact': return '#1d4ed8'; // Dark Blue
@@ -133,129 +215,185 @@ const ThinkingParticles = () => {
 // --- Visualization Graph Component ---
 interface VisualizedGraphProps {
   data: ExplainTrace;
-  onReplay: () => void;
+  selectedNodeId?: string | null;
+  onSelectNode?: (nodeId: string | null) => void;
+  layoutKind: LayoutKind;
+  visibleNodeIds?: Set<string> | null;
+  highlightNodeIds?: Set<string> | null;
+  diff?: TraceDiff | null;
+}
+
+// Node positions of a layout run, and the animation from the previous layout kind if it changed
+interface PlacedLayout {
+  kind: LayoutKind;
+  nodePositions: Map<string, Point3D>;
+  transition: { from: Map<string, Point3D>; start: number } | null;
 }
 
-const VisualizedGraph: React.FC<VisualizedGraphProps> = ({ data, onReplay }) => {
+const ENTRANCE_DURATION = 1500; // ms per element
+const LAYOUT_TRANSITION_DURATION = 800;
+const DIMMED_OPACITY = 0.15;
+const RECIPROCAL_BEND = 0.2;
+const ARROW_LENGTH = 0.16;
+// Camera distance below which every relation label is shown, not just hovered ones
+const EDGE_LABEL_ZOOM_DISTANCE = 8;
+
+const VisualizedGraph: React.FC<VisualizedGraphProps> = ({
+  data,
+  selectedNodeId,
+  onSelectNode,
+  layoutKind,
+  visibleNodeIds,
+  highlightNodeIds,
+  diff,
+}) => {
   const groupRef = useRef<THREE.Group>(null);
-  const [animationProgress, setAnimationProgress] = useState(0);
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+  const [hoveredEdge, setHoveredEdge] = useState<string | null>(null);
+  const [zoomedIn, setZoomedIn] = useState(false);
+
+  // Only re-render when the zoom threshold is crossed, not on every camera move
+  useFrame(({ camera, controls }) => {
+    const target = (controls as { target?: Point3D } | null)?.target;
+    const distance = target ? distance3D(camera.position, target) : distance3D(camera.position, { x: 0, y: 0, z: 0 });
+    const next = distance < EDGE_LABEL_ZOOM_DISTANCE;
+    if (next !== zoomedIn) setZoomedIn(next);
+  });
+  // The layout last committed; its positions stay fixed so streamed-in nodes don't reshuffle the graph
+  const [placed, setPlaced] = useState<PlacedLayout>(() => ({ kind: layoutKind, nodePositions: new Map(), transition: null }));
+  // When each node/edge/stage first appeared, for its own entrance animation
+  const bornAtRef = useRef(new Map<string, number>());
+  const [now, setNow] = useState(() => performance.now());
+
+  const edgeKey = (source: string, target: string) => `edge:${source}->${target}`;
 
-  // Entrance Animation
+  const isVisible = (nodeId: string) => !visibleNodeIds || visibleNodeIds.has(nodeId);
+
+  // Entrance Animation: only elements that are new in this data (or just revealed by playback) animate in
   useEffect(() => {
-    setAnimationProgress(0);
-    let start: number;
+    const bornAt = bornAtRef.current;
+    const start = performance.now();
+    const keys = [
+      ...data.nodes.filter(n => isVisible(n.id)).map(n => `node:${n.id}`),
+      ...data.edges.filter(e => isVisible(e.source) && isVisible(e.target)).map(e => edgeKey(e.source, e.target)),
+      ...data.stages.filter(st => data.nodes.some(n => n.stage_id === st.id && isVisible(n.id))).map(st => `stage:${st.id}`),
+    ];
+    // Elements hidden again by scrubbing backwards animate in anew when revealed
+    const current = new Set(keys);
+    Array.from(bornAt.keys()).forEach(key => {
+      if (!current.has(key)) bornAt.delete(key);
+    });
+    keys.forEach(key => {
+      if (!bornAt.has(key)) bornAt.set(key, start);
+    });
+
     let animId: number;
     const animate = (timestamp: number) => {
-      if (!start) start = timestamp;
-      const progress = Math.min((timestamp - start) / 1500, 1); // 1.5s duration
-      setAnimationProgress(d3.easeCubicOut(progress));
-      
-      if (progress < 1) {
+      setNow(timestamp);
+      if (timestamp - start < ENTRANCE_DURATION) {
         animId = requestAnimationFrame(animate);
       }
     };
     animId = requestAnimationFrame(animate);
     return () => cancelAnimationFrame(animId);
-  }, [data, onReplay]); 
+  }, [data, visibleNodeIds]); 
+
+  const progressOf = (key: string) => {
+    const born = bornAtRef.current.get(key);
+    if (born === undefined) return 0;
+    return d3.easeCubicOut(Math.max(0, Math.min((now - born) / ENTRANCE_DURATION, 1)));
+  };
   
-  // Use D3 force simulation for layout
-  const layout = useMemo(() => {
-    // Strict null checks to prevent crashes
-    if (!data || !Array.isArray(data.nodes) || data.nodes.length === 0) {
-        return { nodePositions: new Map<string, Point3D>() };
+  // Layout (see services/graphLayout.ts). Positions from the previous run are passed back in
+  // so streamed-in nodes don't reshuffle the graph; a change of layout kind animates instead.
+  const layout = useMemo((): PlacedLayout => {
+    const kindChanged = placed.kind !== layoutKind;
+    const previous = placed.nodePositions;
+
+    // Nothing new to place (e.g. a streamed chunk that only extended the answer text)
+    if (!kindChanged && data.nodes.every(n => previous.has(n.id)) && previous.size === data.nodes.length) {
+        return placed;
     }
 
-    const nodes = data.nodes;
-    const edges = Array.isArray(data.edges) ? data.edges : [];
-    const stages = data.stages || [];
-
-    // 1. Prepare nodes and links for D3
-    const nodeIds = new Set(nodes.map(n => n.id));
-    
-    // Explicit shallow copy for D3 to mutate. 
-    // CRITICAL: Initialize x/y with random values to avoid (0,0) singularity which causes NaNs in forceManyBody
-    const d3Nodes = nodes.map(n => ({ 
-        ...n,
-        x: Math.random() * 10 - 5,
-        y: Math.random() * 10 - 5
-    })) as any[]; 
-
-    const d3Links = edges
-      .filter(e => nodeIds.has(e.source) && nodeIds.has(e.target))
-      .map(e => ({ source: e.source, target: e.target, strength: e.strength }));
-
-    // 2. Setup simulation
-    // Compacted the layout by 50%
-    const stageWidth = 6; 
-    
-    // Map stage IDs to X targets
-    const stageIds = stages.map(s => s.id);
-    const stageCount = stageIds.length;
-    
-    const stageX: Record<string, number> = {};
-    if (stageCount > 0) {
-        stageIds.forEach((id, index) => {
-            const t = index / (stageCount - 1 || 1); 
-            stageX[id] = -stageWidth/2 + t * stageWidth;
+    const nodePositions = computeLayout(layoutKind, data, kindChanged ? undefined : previous);
+    // Nodes streaming in during a switch keep the running transition
+    const transition = kindChanged
+        ? (previous.size > 0 ? { from: previous, start: performance.now() } : null)
+        : placed.transition;
+    return { kind: layoutKind, nodePositions, transition };
+  }, [data, layoutKind, placed]);
+
+  // Commit the new layout before paint; the next run starts from it
+  useLayoutEffect(() => {
+    if (layout !== placed) setPlaced(layout);
+  }, [layout, placed]);
+
+  // Drive the transition between layouts
+  const { transition } = layout;
+  useEffect(() => {
+    if (!transition) return;
+    let animId: number;
+    const animate = (timestamp: number) => {
+      setNow(timestamp);
+      if (timestamp - transition.start < LAYOUT_TRANSITION_DURATION) {
+        animId = requestAnimationFrame(animate);
+      }
+    };
+    animId = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(animId);
+  }, [transition]);
+
+  const nodePositions = useMemo(() => {
+    if (!transition) return layout.nodePositions;
+    const t = d3.easeCubicInOut(Math.max(0, Math.min((now - transition.start) / LAYOUT_TRANSITION_DURATION, 1)));
+    const interpolated = new Map<string, Point3D>();
+    layout.nodePositions.forEach((to, id) => {
+        const from = transition.from.get(id) || to;
+        interpolated.set(id, {
+            x: from.x + (to.x - from.x) * t,
+            y: from.y + (to.y - from.y) * t,
+            z: from.z + (to.z - from.z) * t,
         });
-    }
-
-    try {
-        const simulation = d3.forceSimulation(d3Nodes)
-          // Reduced link distance to 1 (was 2)
-          .force("link", d3.forceLink(d3Links).id((d: any) => d.id).distance(1).strength(0.5))
-          // Reduced charge strength to -10 (was -20)
-          .force("charge", d3.forceManyBody().strength(-10)) 
-          .force("x", d3.forceX((d: any) => stageX[d.stage_id] || 0).strength(1.5)) 
-          .force("y", d3.forceY(0).strength(0.8)) 
-          // Reduced collide radius to 0.4 (was 0.6)
-          .force("collide", d3.forceCollide().radius(0.4).iterations(3)) 
-          .stop();
-
-        // Run simulation synchronously with NaN check
-        for (let i = 0; i < 300; i++) {
-            simulation.tick();
-            // Emergency break if values explode
-            if (d3Nodes.length > 0 && !Number.isFinite(d3Nodes[0].x)) break;
-        }
-    } catch (e) {
-        console.warn("D3 Simulation failed", e);
-    }
-
-    // 3. Convert back to Three.js vectors with 3D Depth
-    const nodePositions = new Map<string, Point3D>();
-    // Reduced Z spread to 1.5 (was 3.0)
-    const zSpread = 1.5; 
-    
-    d3Nodes.forEach((node: any) => {
-        // Strict Fallbacks and Clamping for NaN/Infinity/Overflow
-        let x = Number.isFinite(node.x) ? node.x : 0;
-        let y = Number.isFinite(node.y) ? node.y : 0;
-        
-        // Clamp values to sane ranges to prevent geometry buffer overflow
-        x = Math.max(-50, Math.min(50, x));
-        y = Math.max(-50, Math.min(50, y));
-
-        // Pseudo-random Z based on ID hash or index to be deterministic
-        const indexVal = node.index || 0;
-        const pseudoRandomZ = ((indexVal * 1337) % 100) / 100 - 0.5;
-        const z = Number.isFinite(pseudoRandomZ) ? pseudoRandomZ * zSpread : 0;
-        
-        nodePositions.set(node.id, { x, y, z });
     });
+    return interpolated;
+  }, [layout, now]);
+
+  // Hover previews a node; otherwise the selection decides what stays highlighted
+  const focusId = hoveredNodeId ?? selectedNodeId ?? null;
+  const focusNeighbours = useMemo(() => {
+    const ids = new Set<string>();
+    if (!focusId) return ids;
+    ids.add(focusId);
+    data.edges.forEach(e => {
+      if (e.source === focusId) ids.add(e.target);
+      if (e.target === focusId) ids.add(e.source);
+    });
+    return ids;
+  }, [data, focusId]);
 
-    return { nodePositions };
-  }, [data]);
+  useEffect(() => {
+    document.body.style.cursor = hoveredNodeId ? 'pointer' : '';
+    return () => {
+      document.body.style.cursor = '';
+    };
+  }, [hoveredNodeId]);
+
+  const edgeIds = useMemo(() => new Set(data.edges.map(e => edgeKey(e.source, e.target))), [data]);
+  const nodeById = useMemo(() => new Map(data.nodes.map(n => [n.id, n])), [data]);
 
   // If layout failed or empty
-  if (!data || !layout.nodePositions || layout.nodePositions.size === 0) return null;
+  if (!data || nodePositions.size === 0) return null;
+
+  // Stage labels float above the tallest column
+  const labelY = Math.max(2.5, ...Array.from(nodePositions.values()).map(p => p.y + 1));
 
   return (
-    <group ref={groupRef}>
+    <group ref={groupRef} onPointerMissed={() => onSelectNode?.(null)}>
       {/* Edges */}
       {data.edges && data.edges.map((edge, i) => {
-        const start = layout.nodePositions.get(edge.source);
-        const end = layout.nodePositions.get(edge.target);
+        if (!isVisible(edge.source) || !isVisible(edge.target)) return null;
+        const start = nodePositions.get(edge.source);
+        const end = nodePositions.get(edge.target);
         
         // Critical safety checks for Line component
         if (!start || !end) return null;
@@ -267,46 +405,129 @@ const VisualizedGraph: React.FC<VisualizedGraphProps> = ({ data, onReplay }) =>
         // Prevent zero-length or extremely short lines which cause buffer errors
         if (distance3D(start, end) < 0.01) return null;
         
-        // Convert to array tuples to avoid Vector3 mutation issues in drei/Line
-        const points: [number, number, number][] = [
-            [start.x, start.y, start.z],
-            [end.x, end.y, end.z]
+        // Reciprocal links are curved so the two directions don't draw on top of each other
+        const key = edgeKey(edge.source, edge.target);
+        const reciprocal = edgeIds.has(edgeKey(edge.target, edge.source));
+        // Points are array tuples to avoid Vector3 mutation issues in drei/Line
+        const { points, mid, direction } = edgePath(start, end, reciprocal ? RECIPROCAL_BEND : 0);
+
+        const edgeProgress = progressOf(key);
+        const incident = focusId !== null && (edge.source === focusId || edge.target === focusId);
+        const dimmed = focusId !== null && !incident;
+        const hovered = hoveredEdge === key;
+        const strength = Number.isFinite(edge.strength) ? edge.strength : 0.5;
+        const diffStatus = diff?.edgeStatus.get(diffEdgeKey(edge.source, edge.target));
+        const color = incident || hovered ? "#3b82f6" : diffStatus ? DIFF_COLORS[diffStatus] : "#94a3b8"; // Blue 500 / Slate 400
+        const uncertain = isUncertain(edge);
+        const opacity = dimmed
+          ? DIMMED_OPACITY * 0.5
+          : Math.max(0.1, (incident || hovered ? 0.95 : (0.25 + strength * 0.55) * supportOpacity(edge.support)) * edgeProgress); // Minimum opacity
+
+        // Arrowhead sits on the target's surface, pointing along the arrival direction
+        const targetNode = nodeById.get(edge.target);
+        const targetRadius = nodeRadius(targetNode?.importance ?? 0.5, targetNode?.support);
+        const tipOffset = targetRadius + ARROW_LENGTH / 2;
+        const arrowPosition: [number, number, number] = [
+            end.x - direction.x * tipOffset,
+            end.y - direction.y * tipOffset,
+            end.z - direction.z * tipOffset,
         ];
+        const showLabel = !dimmed && edgeProgress > 0.9 && (hovered || incident || zoomedIn) && Boolean(edge.relation_label);
 
         return (
-            <Line
-                key={`edge-${edge.source}-${edge.target}-${i}`}
-                points={points}
-                color="#94a3b8" // Slate 400
-                opacity={Math.max(0.1, 0.5 * animationProgress)} // Minimum opacity
-                transparent
-                lineWidth={Math.max(0.1, 1 * animationProgress)} // Minimum width to avoid buffer error
-            />
+            <group key={`edge-${edge.source}-${edge.target}-${i}`}>
+                <Line
+                    points={points}
+                    color={color}
+                    opacity={opacity}
+                    transparent
+                    dashed={uncertain}
+                    dashSize={0.12}
+                    gapSize={0.08}
+                    lineWidth={Math.max(0.1, (0.5 + strength * 2) * (incident ? 1.5 : 1) * edgeProgress)} // Minimum width to avoid buffer error
+                    onPointerOver={(e) => {
+                        e.stopPropagation();
+                        setHoveredEdge(key);
+                    }}
+                    onPointerOut={() => setHoveredEdge(prev => prev === key ? null : prev)}
+                />
+                <mesh position={arrowPosition} quaternion={quaternionFromY(direction)} scale={Math.max(0.01, edgeProgress)}>
+                    <coneGeometry args={[0.06 + strength * 0.03, ARROW_LENGTH, 12]} />
+                    <meshBasicMaterial color={color} transparent opacity={opacity} />
+                </mesh>
+                {showLabel && (
+                    <Text
+                        position={[mid.x, mid.y, mid.z + 0.05]}
+                        fontSize={0.12}
+                        color={incident || hovered ? "#1d4ed8" : "#64748b"}
+                        anchorX="center"
+                        anchorY="middle"
+                        outlineWidth={0.012}
+                        outlineColor="#ffffff"
+                    >
+                        {`${edge.relation_label} · ${strength.toFixed(2)}`}
+                    </Text>
+                )}
+            </group>
         );
       })}
 
       {/* Nodes */}
       {data.nodes && data.nodes.map((node) => {
-        const pos = layout.nodePositions.get(node.id);
+        if (!isVisible(node.id)) return null;
+        const pos = nodePositions.get(node.id);
         if (!pos) return null;
         
         // Double check position safety
         if (!Number.isFinite(pos.x) || !Number.isFinite(pos.y) || !Number.isFinite(pos.z)) return null;
         
-        const scale = Math.max(0.01, animationProgress); // Avoid scale 0
-        const safeImportance = Number.isFinite(node.importance) ? node.importance : 0.5;
-        const safeRadius = Math.max(0.1, 0.25 + (safeImportance * 0.1)); // Ensure radius is positive
+        const scale = Math.max(0.01, progressOf(`node:${node.id}`)); // Avoid scale 0
+        const safeRadius = nodeRadius(node.importance, node.support);
+        const isSelected = node.id === selectedNodeId;
+        const dimmed = focusId !== null && !focusNeighbours.has(node.id);
+        const diffStatus = diff?.nodeStatus.get(node.id);
+        // Diff colors stay saturated so the comparison remains readable
+        const nodeColor = diffStatus ? DIFF_COLORS[diffStatus] : desaturate(getNodeColor(node.type), certaintyOf(node));
+        // Removed nodes stay visible as ghosts of the earlier trace
+        const nodeOpacity = dimmed ? DIMMED_OPACITY : diffStatus === 'removed' ? 0.45 : supportOpacity(node.support);
 
         return (
             <group key={node.id} position={[pos.x, pos.y, pos.z]} scale={[scale, scale, scale]}>
                 <Float speed={2} rotationIntensity={0.1} floatIntensity={0.2}>
-                    <mesh>
+                    <mesh
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            onSelectNode?.(isSelected ? null : node.id);
+                        }}
+                        onPointerOver={(e) => {
+                            e.stopPropagation();
+                            setHoveredNodeId(node.id);
+                        }}
+                        onPointerOut={() => setHoveredNodeId(prev => prev === node.id ? null : prev)}
+                    >
                         <sphereGeometry args={[safeRadius, 32, 32]} />
                         <meshStandardMaterial 
-                            color={getNodeColor(node.type)} 
+                            color={nodeColor} 
                             roughness={0.3}
+                            emissive={nodeColor}
+                            emissiveIntensity={node.id === focusId ? 0.35 : highlightNodeIds?.has(node.id) ? 0.25 : 0}
+                            transparent={nodeOpacity < 1}
+                            opacity={nodeOpacity}
                         />
                     </mesh>
+                    {isSelected && (
+                        <mesh>
+                            <sphereGeometry args={[safeRadius * 1.35, 24, 24]} />
+                            <meshBasicMaterial color="#3b82f6" wireframe transparent opacity={0.35} />
+                        </mesh>
+                    )}
+                    {/* Uncertain nodes get a soft halo, growing as certainty drops */}
+                    {isUncertain(node) && !dimmed && (
+                        <mesh>
+                            <sphereGeometry args={[safeRadius * (1.5 + (1 - certaintyOf(node)) * 0.5), 24, 24]} />
+                            <meshBasicMaterial color="#f59e0b" transparent opacity={0.12} depthWrite={false} />
+                        </mesh>
+                    )}
                     <Text
                         position={[0, -0.4, 0]} // Below node
                         fontSize={0.18} // Readable size
@@ -317,6 +538,8 @@ const VisualizedGraph: React.FC<VisualizedGraphProps> = ({ data, onReplay }) =>
                         textAlign="center"
                         outlineWidth={0.01}
                         outlineColor="#ffffff"
+                        fillOpacity={dimmed ? DIMMED_OPACITY * 2 : 1}
+                        outlineOpacity={dimmed ? 0 : 1}
                     >
                         {String(node.label || "Node")} {/* Explicit string cast */}
                     </Text>
@@ -325,15 +548,15 @@ const VisualizedGraph: React.FC<VisualizedGraphProps> = ({ data, onReplay }) =>
         );
       })}
       
-      {/* Stage Labels */}
-      {(data.stages || []).map((stage) => {
-         const nodesInStage = data.nodes.filter(n => n.stage_id === stage.id);
+      {/* Stage Labels (stages have no spatial meaning in the radial layout) */}
+      {layoutKind !== 'radial' && (data.stages || []).map((stage) => {
+         const nodesInStage = data.nodes.filter(n => n.stage_id === stage.id && isVisible(n.id));
          if (nodesInStage.length === 0) return null;
          
          let sumX = 0;
          let count = 0;
          nodesInStage.forEach(n => {
-             const p = layout.nodePositions.get(n.id);
+             const p = nodePositions.get(n.id);
              if (p) { sumX += p.x; count++; }
          });
          const avgX = count > 0 ? sumX / count : 0;
@@ -343,13 +566,13 @@ const VisualizedGraph: React.FC<VisualizedGraphProps> = ({ data, onReplay }) =>
          return (
              <Text
                 key={stage.id}
-                position={[avgX, 2.5, -2]} 
+                position={[avgX, labelY, -2]} 
                 fontSize={0.3}
                 color="#334155"
                 anchorX="center"
                 anchorY="bottom"
                 font="https://fonts.gstatic.com/s/raleway/v14/1Ptrg8zYS_SKggPNwK4vaqI.woff"
-                fillOpacity={Math.max(0.01, animationProgress)}
+                fillOpacity={Math.max(0.01, progressOf(`stage:${stage.id}`))}
              >
                 {String(stage.label || "Stage")}
              </Text>
@@ -359,10 +582,29 @@ const VisualizedGraph: React.FC<VisualizedGraphProps> = ({ data, onReplay }) =>
   );
 };
 
-export const ReasoningGraph: React.FC<ReasoningGraphProps> = React.memo(({ mode, data, onCapture }) => {
+export const ReasoningGraph: React.FC<ReasoningGraphProps> = React.memo(({
+  mode,
+  data,
+  dataKey,
+  onCapture,
+  selectedNodeId,
+  onSelectNode,
+  visibleNodeIds,
+  highlightNodeIds,
+  diff,
+  exportMeta,
+}) => {
   const { gl, scene, camera } = useThree();
   const [autoRotate, setAutoRotate] = useState(false); 
   const [replayTrigger, setReplayTrigger] = useState(0);
+  const [layoutKind, setLayoutKind] = useState<LayoutKind>(() => {
+    const stored = readLocalValue(LAYOUT_STORAGE_KEY);
+    return isLayoutKind(stored) ? stored : DEFAULT_LAYOUT;
+  });
+
+  useEffect(() => {
+    writeLocalValue(LAYOUT_STORAGE_KEY, layoutKind);
+  }, [layoutKind]);
 
   useEffect(() => {
     if (onCapture) {
@@ -378,14 +620,15 @@ export const ReasoningGraph: React.FC<ReasoningGraphProps> = React.memo(({ mode,
   const handleDownload = () => {
     gl.render(scene, camera);
     const dataUrl = gl.domElement.toDataURL('image/png', 1.0);
-    const link = document.createElement('a');
-    link.href = dataUrl;
-    const date = new Date();
-    const timestamp = date.toISOString().replace(/[:.]/g, '-');
-    link.download = `neuroviz-reasoning-${timestamp}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadUrl(dataUrl, `neuroviz-reasoning-${filenameTimestamp()}.png`);
+  };
+
+  const handleExportGraph = (format: GraphFormat) => {
+    if (data) downloadGraphExport(format, data, exportMeta, getNodeColor);
+  };
+
+  const handleExportReport = (format: ReportFormat) => {
+    if (data) downloadTraceReport(format, data, exportMeta, getNodeColor);
   };
   
   // Memoize controls config to avoid re-creation
@@ -430,8 +673,13 @@ export const ReasoningGraph: React.FC<ReasoningGraphProps> = React.memo(({ mode,
       {mode === AppMode.VISUALIZING && data && (
         <VisualizedGraph 
             data={data} 
-            onReplay={() => setReplayTrigger(prev => prev + 1)} 
-            key={replayTrigger}
+            selectedNodeId={selectedNodeId}
+            onSelectNode={onSelectNode}
+            layoutKind={layoutKind}
+            visibleNodeIds={visibleNodeIds}
+            highlightNodeIds={highlightNodeIds}
+            diff={diff}
+            key={`${dataKey ?? 'trace'}-${replayTrigger}`}
         />
       )}
 
@@ -440,6 +688,21 @@ export const ReasoningGraph: React.FC<ReasoningGraphProps> = React.memo(({ mode,
          <div className="absolute bottom-4 right-4 flex gap-2 pointer-events-auto">
             {mode === AppMode.VISUALIZING && (
                 <>
+                    <label
+                        className="flex items-center gap-1.5 pl-2.5 pr-1 rounded-full shadow-md border bg-white text-slate-500 border-slate-200"
+                        title="Graph Layout"
+                    >
+                        <Network size={16} />
+                        <select
+                            value={layoutKind}
+                            onChange={(e) => setLayoutKind(e.target.value as LayoutKind)}
+                            className="bg-transparent text-xs text-slate-600 py-2 pr-1 focus:outline-none cursor-pointer"
+                        >
+                            {LAYOUT_OPTIONS.map(option => (
+                                <option key={option.id} value={option.id}>{option.label}</option>
+                            ))}
+                        </select>
+                    </label>
                     <button 
                         onClick={() => setAutoRotate(!autoRotate)}
                         className={`p-2 rounded-full shadow-md border transition-colors ${autoRotate ? 'bg-blue-100 text-blue-600 border-blue-300' : 'bg-white text-slate-500 border-slate-200'}`}
@@ -454,13 +717,12 @@ export const ReasoningGraph: React.FC<ReasoningGraphProps> = React.memo(({ mode,
                     >
                         <Play size={18} />
                     </button>
-                    <button 
-                        onClick={handleDownload}
-                        className="p-2 rounded-full shadow-md border bg-white text-slate-500 border-slate-200 hover:text-blue-600 hover:border-blue-300 transition-colors"
-                        title="Download Image"
-                    >
-                        <Download size={18} />
-                    </button>
+                    <GraphDownloadMenu
+                        imageLabel="Image (PNG)"
+                        onDownloadImage={handleDownload}
+                        onExportReport={handleExportReport}
+                        onExportGraph={handleExportGraph}
+                    />
                 </>
             )}
          </div>
@@ -0,0 +1,279 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { ExplainTrace, AppMode } from '../types';
+import { TraceDiff, diffEdgeKey } from '../services/traceDiff';
+import { GraphExportMeta, GraphFormat, downloadGraphExport } from '../services/graphExport';
+import { ReportFormat, downloadTraceReport } from '../services/traceReport';
+import { edgeLabelText, layoutTrace2D, renderTraceSvg } from '../services/traceSvg';
+import { supportOpacity } from '../services/selfConsistency';
+import { certaintyOf, desaturate, isUncertain } from '../services/uncertainty';
+import { downloadBlob, filenameTimestamp } from '../services/download';
+import { DIFF_COLORS, getNodeColor } from './ReasoningGraph';
+import { GraphDownloadMenu } from './GraphDownloadMenu';
+import { BrainCircuit, Maximize } from 'lucide-react';
+
+interface ReasoningGraph2DProps {
+  mode: AppMode;
+  data: ExplainTrace | null;
+  // Changes when a different trace is shown, as in the 3D view
+  dataKey?: string | null;
+  onCapture?: (dataUrl: string) => void;
+  selectedNodeId?: string | null;
+  onSelectNode?: (nodeId: string | null) => void;
+  visibleNodeIds?: Set<string> | null;
+  highlightNodeIds?: Set<string> | null;
+  diff?: TraceDiff | null;
+  exportMeta?: GraphExportMeta;
+}
+
+const DIMMED_OPACITY = 0.2;
+// Zoom factor above which every relation label is shown, not just the focused node's
+const EDGE_LABEL_ZOOM = 1.5;
+const THUMBNAIL_MAX_WIDTH = 800;
+
+// Draws an SVG document onto a canvas and returns it as a PNG data URL.
+const rasterizeSvg = (svg: string, width: number, height: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const scale = Math.min(1, THUMBNAIL_MAX_WIDTH / width);
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext('2d');
+      URL.revokeObjectURL(url);
+      if (!ctx) return reject(new Error('Canvas 2D context unavailable'));
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png', 0.8));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('SVG could not be rasterized'));
+    };
+    image.src = url;
+  });
+
+/**
+ * Flat SVG rendering of the same trace as the 3D view, with one column per stage. Used when
+ * WebGL is unavailable or when the user prefers it; supports selection, playback and diffs.
+ */
+export const ReasoningGraph2D: React.FC<ReasoningGraph2DProps> = ({
+  mode,
+  data,
+  dataKey,
+  onCapture,
+  selectedNodeId = null,
+  onSelectNode,
+  visibleNodeIds,
+  highlightNodeIds,
+  diff,
+  exportMeta,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const [transform, setTransform] = useState<d3.ZoomTransform>(d3.zoomIdentity);
+  const [hoveredNodeId, setHoveredNodeId] = useState<string | null>(null);
+
+  const layout = useMemo(() => data ? layoutTrace2D(data) : null, [data]);
+  const showGraph = mode === AppMode.VISUALIZING && layout !== null;
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .scaleExtent([0.3, 4])
+      .on('zoom', event => setTransform(event.transform));
+    zoomRef.current = zoom;
+    const svg = d3.select(svgRef.current).call(zoom).on('dblclick.zoom', null);
+    return () => {
+      svg.on('.zoom', null);
+    };
+  }, [showGraph]);
+
+  // A different trace starts unzoomed
+  useEffect(() => {
+    if (svgRef.current && zoomRef.current) d3.select(svgRef.current).call(zoomRef.current.transform, d3.zoomIdentity);
+  }, [dataKey]);
+
+  useEffect(() => {
+    if (!onCapture || !data) return;
+    let cancelled = false;
+    const { svg, width, height } = renderTraceSvg(data, { colorOf: getNodeColor });
+    rasterizeSvg(svg, width, height)
+      .then(dataUrl => !cancelled && onCapture(dataUrl))
+      .catch(error => console.warn('Thumbnail capture failed', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [onCapture, data]);
+
+  const resetZoom = () => {
+    if (svgRef.current && zoomRef.current) {
+      d3.select(svgRef.current).transition().duration(300).call(zoomRef.current.transform, d3.zoomIdentity);
+    }
+  };
+
+  const handleDownloadImage = () => {
+    if (!data) return;
+    const { svg } = renderTraceSvg(data, { colorOf: getNodeColor, legend: true });
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), `neuroviz-reasoning-${filenameTimestamp()}.svg`);
+  };
+
+  if (!showGraph || !data || !layout) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center text-slate-400 text-xs gap-2">
+        {mode === AppMode.THINKING ? (
+          <>
+            <BrainCircuit size={28} className="text-blue-400 animate-pulse" />
+            <span>Building the reasoning graph…</span>
+          </>
+        ) : (
+          <span>Ask a question to generate a reasoning graph.</span>
+        )}
+      </div>
+    );
+  }
+
+  const isVisible = (id: string) => !visibleNodeIds || visibleNodeIds.has(id);
+  const focusId = hoveredNodeId ?? selectedNodeId;
+  const neighbours = new Set<string>();
+  if (focusId) {
+    data.edges.forEach(e => {
+      if (e.source === focusId) neighbours.add(e.target);
+      if (e.target === focusId) neighbours.add(e.source);
+    });
+  }
+  const showAllLabels = transform.k >= EDGE_LABEL_ZOOM;
+
+  return (
+    <div className="relative w-full h-full">
+      <svg
+        ref={svgRef}
+        className="w-full h-full cursor-grab active:cursor-grabbing"
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        preserveAspectRatio="xMidYMid meet"
+        role="group"
+        aria-label={`Reasoning graph with ${data.nodes.length} nodes in ${layout.columns.length} stages`}
+        onClick={e => {
+          if (e.target === e.currentTarget) onSelectNode?.(null);
+        }}
+      >
+        <defs>
+          <marker id="nv2d-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+            <path d="M0,0 L10,5 L0,10 z" fill="#64748b" />
+          </marker>
+        </defs>
+        <g transform={transform.toString()} fontFamily="Helvetica, Arial, sans-serif">
+          {layout.columns.map(column => (
+            <g key={column.label + column.x} aria-hidden="true" pointerEvents="none">
+              <rect x={column.x} y={column.y} width={column.width} height={column.height} rx={10} fill="#f8fafc" stroke="#e2e8f0" />
+              <text x={column.x + column.width / 2} y={column.y + 22} textAnchor="middle" fontSize={10} fontWeight={700} letterSpacing={1} fill="#64748b">
+                {column.label.toUpperCase()}
+              </text>
+            </g>
+          ))}
+
+          {layout.edges.map((placed, i) => {
+            const { edge } = placed;
+            if (!isVisible(edge.source) || !isVisible(edge.target)) return null;
+            const incident = focusId !== null && (edge.source === focusId || edge.target === focusId);
+            const dimmed = focusId !== null && !incident;
+            const diffStatus = diff?.edgeStatus.get(diffEdgeKey(edge.source, edge.target));
+            const color = incident ? '#3b82f6' : diffStatus ? DIFF_COLORS[diffStatus] : '#94a3b8';
+            return (
+              <g key={`${edge.source}-${edge.target}-${i}`} aria-hidden="true" pointerEvents="none">
+                <path
+                  d={placed.path}
+                  fill="none"
+                  stroke={color}
+                  strokeWidth={(0.8 + placed.strength * 2.2) * (incident ? 1.4 : 1)}
+                  strokeOpacity={dimmed ? DIMMED_OPACITY : (0.4 + placed.strength * 0.6) * supportOpacity(edge.support)}
+                  strokeDasharray={isUncertain(edge) ? '5 4' : undefined}
+                  markerEnd="url(#nv2d-arrow)"
+                />
+                {edge.relation_label && !dimmed && (incident || showAllLabels) && (
+                  <text
+                    x={placed.labelX}
+                    y={placed.labelY - 3}
+                    textAnchor="middle"
+                    fontSize={9}
+                    fill={incident ? '#1d4ed8' : '#475569'}
+                    stroke="#ffffff"
+                    strokeWidth={3}
+                    paintOrder="stroke"
+                  >
+                    {edgeLabelText(placed)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+
+          {layout.nodes.map(({ node, x, y, width, height, lines, importance }) => {
+            if (!isVisible(node.id)) return null;
+            const selected = node.id === selectedNodeId;
+            const highlighted = highlightNodeIds?.has(node.id) ?? false;
+            const dimmed = focusId !== null && node.id !== focusId && !neighbours.has(node.id);
+            const diffStatus = diff?.nodeStatus.get(node.id);
+            const color = diffStatus ? DIFF_COLORS[diffStatus] : desaturate(getNodeColor(node.type), certaintyOf(node));
+            const uncertain = isUncertain(node);
+            return (
+              <g
+                key={node.id}
+                role="button"
+                tabIndex={0}
+                aria-pressed={selected}
+                aria-label={`${node.label}, ${node.type}, importance ${importance.toFixed(2)}${node.certainty !== undefined ? `, certainty ${Math.round(node.certainty * 100)}%` : ''}${node.support !== undefined ? `, support ${Math.round(node.support * 100)}%` : ''}`}
+                opacity={dimmed ? DIMMED_OPACITY + 0.2 : diffStatus === 'removed' ? 0.45 : supportOpacity(node.support)}
+                className="cursor-pointer focus:outline-none"
+                onClick={e => {
+                  e.stopPropagation();
+                  onSelectNode?.(selected ? null : node.id);
+                }}
+                onKeyDown={e => {
+                  if (e.key === 'Enter' || e.key === ' ') {
+                    e.preventDefault();
+                    onSelectNode?.(selected ? null : node.id);
+                  }
+                }}
+                onMouseEnter={() => setHoveredNodeId(node.id)}
+                onMouseLeave={() => setHoveredNodeId(prev => prev === node.id ? null : prev)}
+                onFocus={() => setHoveredNodeId(node.id)}
+                onBlur={() => setHoveredNodeId(prev => prev === node.id ? null : prev)}
+              >
+                {(selected || highlighted) && (
+                  <rect x={x - 4} y={y - 4} width={width + 8} height={height + 8} rx={9} fill="none" stroke={selected ? '#3b82f6' : color} strokeWidth={2} strokeDasharray={selected ? undefined : '4 3'} />
+                )}
+                <rect x={x} y={y} width={width} height={height} rx={6} fill={selected ? '#eff6ff' : '#ffffff'} stroke={color} strokeWidth={1 + importance * 1.5} strokeDasharray={uncertain ? '5 3' : undefined} />
+                <rect x={x + 6} y={y + 5} width={(width - 12) * importance} height={3} rx={1.5} fill={color} fillOpacity={0.7} />
+                <text x={x + 8} y={y + 22} fontSize={11} fill="#0f172a">
+                  {lines.map((line, i) => (
+                    <tspan key={i} x={x + 8} dy={i === 0 ? 0 : 14}>{line}</tspan>
+                  ))}
+                </text>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className="absolute bottom-4 right-4 flex gap-2">
+        <button
+          onClick={resetZoom}
+          className="p-2 rounded-full shadow-md border bg-white text-slate-500 border-slate-200 hover:text-blue-600 hover:border-blue-300 transition-colors"
+          title="Reset zoom"
+        >
+          <Maximize size={18} />
+        </button>
+        <GraphDownloadMenu
+          imageLabel="Image (SVG)"
+          onDownloadImage={handleDownloadImage}
+          onExportReport={(format: ReportFormat) => downloadTraceReport(format, data, exportMeta, getNodeColor)}
+          onExportGraph={(format: GraphFormat) => downloadGraphExport(format, data, exportMeta, getNodeColor)}
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,43 @@
-import React from 'react';
-import { ExplainTrace } from '../types';
-import { Box, CheckCircle, Zap } from 'lucide-react';
+import React, { useEffect, useRef } from 'react';
+import { ExplainTrace, SourceChunk, TraceIssue } from '../types';
+import { MarkdownNote } from './MarkdownNote';
+import { SourceExcerpt } from './SourceExcerpt';
+import { getNodeColor } from './ReasoningGraph';
+import { leastCertainNodes } from '../services/uncertainty';
+import { Box, CheckCircle, Zap, AlertTriangle, StickyNote, BookOpen, HelpCircle } from 'lucide-react';
 import { clsx } from 'clsx';
 
 interface ReasoningOverlayProps {
   data: ExplainTrace | null;
+  issues?: TraceIssue[];
+  // Steps highlighted by the graph playback; clicking a step jumps the playback there
+  activeSteps?: number[];
+  onSelectStep?: (stepIndex: number) => void;
+  // The user's markdown note on the history item being shown
+  note?: string;
+  // Document excerpts the answer was grounded in, with the nodes that cite them
+  sources?: SourceChunk[];
+  // Opens a node in the inspector (source citations, least certain nodes)
+  onSelectNode?: (nodeId: string) => void;
 }
 
-export const ReasoningOverlay: React.FC<ReasoningOverlayProps> = ({ data }) => {
+const LEAST_CERTAIN_LIMIT = 3;
+
+export const ReasoningOverlay: React.FC<ReasoningOverlayProps> = ({
+  data,
+  issues = [],
+  activeSteps = [],
+  onSelectStep,
+  note,
+  sources = [],
+  onSelectNode,
+}) => {
+  const activeStepRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    activeStepRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeSteps[0]]);
+
   if (!data) {
     return (
         <div className="flex flex-col items-center justify-center h-full text-slate-400 p-8 text-center bg-white">
@@ -18,38 +48,126 @@ export const ReasoningOverlay: React.FC<ReasoningOverlayProps> = ({ data }) => {
     );
   }
 
+  // Consensus traces from before numeric confidence only carry the agreement
+  const score = data.confidence_score ?? data.consensus?.agreement;
+  const doubtful = leastCertainNodes(data, LEAST_CERTAIN_LIMIT);
+
   return (
     <div className="flex flex-col h-full bg-white w-full overflow-hidden">
       {/* Scrollable Content */}
       <div className="flex-1 overflow-y-auto p-5 space-y-6 custom-scrollbar">
         
         {/* Confidence Badge */}
-        <div className="bg-slate-50 rounded-lg p-3 border border-slate-200 flex items-center justify-between shadow-sm">
-            <span className="text-xs text-slate-500 font-medium">Confidence Score</span>
-            <span className={clsx(
-                "px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider border",
-                data.confidence === 'high' ? "bg-green-100 text-green-700 border-green-200" :
-                data.confidence === 'medium' ? "bg-yellow-100 text-yellow-700 border-yellow-200" :
-                "bg-red-100 text-red-700 border-red-200"
-            )}>
-                {data.confidence}
-            </span>
+        <div className="bg-slate-50 rounded-lg p-3 border border-slate-200 shadow-sm">
+            <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-500 font-medium">
+                    {data.consensus ? `Agreement of ${data.consensus.samples} samples` : 'Confidence Score'}
+                </span>
+                <span className={clsx(
+                    "px-2 py-0.5 rounded text-xs font-bold uppercase tracking-wider border",
+                    data.confidence === 'high' ? "bg-green-100 text-green-700 border-green-200" :
+                    data.confidence === 'medium' ? "bg-yellow-100 text-yellow-700 border-yellow-200" :
+                    "bg-red-100 text-red-700 border-red-200"
+                )}>
+                    {data.confidence}{score !== undefined && ` · ${Math.round(score * 100)}%`}
+                </span>
+            </div>
+            {score !== undefined && !data.consensus && (
+                <div className="mt-2 h-1.5 bg-slate-200 rounded-full overflow-hidden" title="Calibrated confidence reported by the model">
+                    <div className="h-full bg-indigo-400" style={{ width: `${Math.round(score * 100)}%` }} />
+                </div>
+            )}
+            {data.consensus && (
+                <>
+                    <div className="grid grid-cols-2 gap-3 mt-2">
+                        {([['Graph', data.consensus.nodeAgreement], ['Answers', data.consensus.answerAgreement]] as const).map(([label, value]) => (
+                            <div key={label} className="flex items-center gap-1.5 text-[10px] text-slate-500">
+                                <span className="w-12">{label}</span>
+                                <div className="flex-1 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                                    <div className="h-full bg-indigo-400" style={{ width: `${Math.round(value * 100)}%` }} />
+                                </div>
+                                <span className="font-mono w-7 text-right">{Math.round(value * 100)}%</span>
+                            </div>
+                        ))}
+                    </div>
+                    <details className="mt-2">
+                        <summary className="text-[10px] text-slate-500 cursor-pointer hover:text-slate-700">
+                            Sample answers (self-reported confidence)
+                        </summary>
+                        <ol className="mt-1.5 space-y-1.5 list-decimal pl-4">
+                            {data.consensus.sampleAnswers.map((sample, idx) => (
+                                <li key={idx} className="text-[11px] text-slate-600 leading-snug">
+                                    <span className="font-mono text-[9px] uppercase text-slate-400 mr-1">{sample.confidence}</span>
+                                    {sample.answer}
+                                </li>
+                            ))}
+                        </ol>
+                    </details>
+                </>
+            )}
+            {doubtful.length > 0 && (
+                <div className="mt-3 pt-2 border-t border-slate-200">
+                    <p className="text-[10px] text-slate-500 flex items-center gap-1 mb-1.5">
+                        <HelpCircle size={10} className="text-amber-500" /> Least certain
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                        {doubtful.map(node => (
+                            <button
+                                key={node.id}
+                                onClick={() => onSelectNode?.(node.id)}
+                                className="flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-white border border-amber-200 text-[10px] text-slate-600 hover:text-blue-600 hover:border-blue-300 max-w-full"
+                                title={`Inspect "${node.label}"`}
+                            >
+                                <span className="truncate">{node.label}</span>
+                                <span className="font-mono text-amber-600 shrink-0">{Math.round((node.certainty ?? 1) * 100)}%</span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
         </div>
 
+        {note && (
+          <div className="rounded-lg p-3 border border-amber-200 bg-amber-50/60">
+            <h4 className="text-xs font-bold text-slate-700 mb-2 uppercase tracking-wider flex items-center gap-2">
+              <StickyNote size={12} className="text-amber-500" /> Note
+            </h4>
+            <MarkdownNote source={note} />
+          </div>
+        )}
+
         {/* Steps Timeline */}
         <div>
             <h4 className="text-xs font-bold text-slate-700 mb-3 uppercase tracking-wider flex items-center gap-2">
                 <Box size={12} className="text-blue-500" /> Cognitive Steps
             </h4>
             <div className="relative pl-3 ml-1 border-l border-slate-200 space-y-4">
-                {data.steps.map((step, idx) => (
-                    <div key={idx} className="relative group">
-                        <span className="absolute -left-[17px] top-1.5 w-2 h-2 bg-white border-2 border-blue-500 rounded-full group-hover:bg-blue-500 transition-colors"></span>
-                        <p className="text-xs text-slate-600 leading-relaxed hover:text-slate-900 transition-colors">
-                          {step}
-                        </p>
-                    </div>
-                ))}
+                {data.steps.map((step, idx) => {
+                    const active = activeSteps.includes(idx);
+                    return (
+                        <button
+                            key={idx}
+                            ref={active && idx === activeSteps[0] ? activeStepRef : undefined}
+                            onClick={() => onSelectStep?.(idx)}
+                            className={clsx(
+                                "relative group block w-full text-left rounded -ml-1 pl-1 pr-1 transition-colors",
+                                active ? "bg-blue-50" : "hover:bg-slate-50"
+                            )}
+                            title="Show this step in the graph"
+                        >
+                            <span className={clsx(
+                                "absolute -left-[13px] top-1.5 w-2 h-2 border-2 border-blue-500 rounded-full group-hover:bg-blue-500 transition-colors",
+                                active ? "bg-blue-500 ring-2 ring-blue-200" : "bg-white"
+                            )}></span>
+                            <p className={clsx(
+                                "text-xs leading-relaxed transition-colors",
+                                active ? "text-slate-900 font-medium" : "text-slate-600 hover:text-slate-900"
+                            )}>
+                              {step}
+                            </p>
+                        </button>
+                    );
+                })}
             </div>
         </div>
 
@@ -67,6 +185,59 @@ export const ReasoningOverlay: React.FC<ReasoningOverlayProps> = ({ data }) => {
             </div>
         </div>
 
+        {/* Sources */}
+        {sources.length > 0 && (
+            <div>
+                <h4 className="text-xs font-bold text-slate-700 mb-3 uppercase tracking-wider flex items-center gap-2">
+                    <BookOpen size={12} className="text-blue-500" /> Sources
+                </h4>
+                <div className="space-y-2">
+                    {sources.map(source => {
+                        const citing = data.nodes.filter(n => n.sources?.includes(source.id));
+                        return (
+                            <SourceExcerpt key={source.id} source={source}>
+                                <div className="flex flex-wrap items-center gap-1 px-2 pb-2 text-[10px] text-slate-400">
+                                    {citing.length === 0 ? 'Not cited' : 'Cited by'}
+                                    {citing.map(node => (
+                                        <button
+                                            key={node.id}
+                                            onClick={() => onSelectNode?.(node.id)}
+                                            className="flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-white border border-slate-200 text-slate-600 hover:text-blue-600 hover:border-blue-300 max-w-full"
+                                            title={`Inspect "${node.label}"`}
+                                        >
+                                            <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: getNodeColor(node.type) }} />
+                                            <span className="truncate">{node.label}</span>
+                                        </button>
+                                    ))}
+                                </div>
+                            </SourceExcerpt>
+                        );
+                    })}
+                </div>
+            </div>
+        )}
+
+        {/* Data Quality */}
+        {issues.length > 0 && (
+            <details className="bg-amber-50 rounded-lg border border-amber-200 group">
+                <summary className="px-3 py-2 cursor-pointer text-xs font-medium text-amber-800 flex items-center gap-2 list-none">
+                    <AlertTriangle size={12} className="text-amber-500" />
+                    {issues.length} {issues.length === 1 ? 'issue' : 'issues'} found in the model output
+                </summary>
+                <ul className="px-3 pb-3 space-y-1">
+                    {issues.map((issue, idx) => (
+                        <li key={idx} className="text-[11px] text-amber-900 leading-snug">
+                            <span className={clsx(
+                                "font-mono mr-1",
+                                issue.severity === 'fatal' ? "text-red-600" : "text-amber-600"
+                            )}>{issue.code}</span>
+                            {issue.message}
+                        </li>
+                    ))}
+                </ul>
+            </details>
+        )}
+
         {/* Graph Stats */}
         <div className="grid grid-cols-3 gap-2 pt-4 border-t border-slate-100 opacity-80">
             <div className="text-center">
@@ -0,0 +1,37 @@
+import React, { useState } from 'react';
+import { SourceChunk } from '../types';
+import { FileText } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface SourceExcerptProps {
+  source: SourceChunk;
+  children?: React.ReactNode; // Extra content below the excerpt, e.g. the nodes citing it
+}
+
+const PREVIEW_LENGTH = 160;
+
+// A cited document excerpt; clicking it toggles between a short preview and the full text.
+export const SourceExcerpt: React.FC<SourceExcerptProps> = ({ source, children }) => {
+  const [expanded, setExpanded] = useState(false);
+  const long = source.text.length > PREVIEW_LENGTH;
+  const text = expanded || !long ? source.text : `${source.text.slice(0, PREVIEW_LENGTH).trimEnd()}…`;
+
+  return (
+    <div className="bg-slate-50 rounded border border-slate-200 hover:border-slate-300 transition-colors">
+      <button
+        onClick={() => setExpanded(e => !e)}
+        aria-expanded={long ? expanded : undefined}
+        className="w-full text-left p-2"
+        title={long ? (expanded ? 'Show less' : 'Show the full excerpt') : undefined}
+      >
+        <div className="flex items-center gap-1.5 text-[10px] text-slate-500 mb-1">
+          <span className="font-mono font-bold text-blue-600">{source.id}</span>
+          <FileText size={10} className="shrink-0" />
+          <span className="truncate">{source.documentName}</span>
+        </div>
+        <p className={clsx("text-[11px] text-slate-600 leading-relaxed", expanded && "whitespace-pre-wrap")}>{text}</p>
+      </button>
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,292 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ExplainTrace, Node } from '../types';
+import { getNodeColor } from './ReasoningGraph';
+import { ChevronDown, ChevronRight, ArrowLeft, ArrowRight, ListTree } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface TraceOutlineProps {
+  data: ExplainTrace | null;
+  selectedNodeId: string | null;
+  onSelectNode: (nodeId: string | null) => void;
+}
+
+// One row of the tree; edges point at the node on their other end
+type OutlineItem =
+  | { key: string; kind: 'stage'; level: 1; label: string; description?: string; childKeys: string[] }
+  | { key: string; kind: 'node'; level: 2; node: Node; parentKey: string; childKeys: string[] }
+  | { key: string; kind: 'edge'; level: 3; parentKey: string; direction: 'in' | 'out'; otherId: string; otherLabel: string; relation: string; strength: number };
+
+const stageKey = (id: string) => `stage:${id}`;
+const nodeKey = (id: string) => `node:${id}`;
+
+const buildItems = (data: ExplainTrace): Map<string, OutlineItem> => {
+  const items = new Map<string, OutlineItem>();
+  const labelOf = new Map(data.nodes.map(n => [n.id, n.label]));
+  const stages = [...data.stages];
+  const known = new Set(stages.map(s => s.id));
+  if (data.nodes.some(n => !known.has(n.stage_id))) {
+    stages.push({ id: '__other', label: 'Other', description: '', weight: 0 });
+  }
+
+  stages.forEach(stage => {
+    const nodes = data.nodes.filter(n => known.has(n.stage_id) ? n.stage_id === stage.id : stage.id === '__other');
+    if (nodes.length === 0) return;
+    items.set(stageKey(stage.id), {
+      key: stageKey(stage.id), kind: 'stage', level: 1, label: stage.label, description: stage.description,
+      childKeys: nodes.map(n => nodeKey(n.id)),
+    });
+    nodes.forEach(node => {
+      const edgeKeys: string[] = [];
+      data.edges.forEach((edge, i) => {
+        const direction = edge.source === node.id ? 'out' : edge.target === node.id ? 'in' : null;
+        const otherId = direction === 'out' ? edge.target : edge.source;
+        if (!direction || !labelOf.has(otherId)) return;
+        const key = `edge:${node.id}:${direction}:${i}`;
+        edgeKeys.push(key);
+        items.set(key, {
+          key, kind: 'edge', level: 3, parentKey: nodeKey(node.id), direction, otherId,
+          otherLabel: labelOf.get(otherId)!, relation: edge.relation_label || 'related to',
+          strength: Number.isFinite(edge.strength) ? edge.strength : 0.5,
+        });
+      });
+      items.set(nodeKey(node.id), {
+        key: nodeKey(node.id), kind: 'node', level: 2, node, parentKey: stageKey(stage.id), childKeys: edgeKeys,
+      });
+    });
+  });
+  return items;
+};
+
+const describe = (item: OutlineItem): string => {
+  switch (item.kind) {
+    case 'stage': return `Stage ${item.label}, ${item.childKeys.length} nodes`;
+    case 'node': return `${item.node.label}, ${item.node.type}, importance ${item.node.importance.toFixed(2)}` +
+      `${item.node.certainty !== undefined ? `, certainty ${Math.round(item.node.certainty * 100)}%` : ''}, ${item.childKeys.length} relations`;
+    case 'edge': return item.direction === 'out'
+      ? `${item.relation} ${item.otherLabel}, strength ${item.strength.toFixed(2)}`
+      : `${item.otherLabel} ${item.relation} this, strength ${item.strength.toFixed(2)}`;
+  }
+};
+
+/**
+ * Stages → nodes → relations as an ARIA tree. Arrow keys move and expand/collapse, Home/End jump,
+ * Enter selects a node or follows a relation to the node on its other end.
+ */
+export const TraceOutline: React.FC<TraceOutlineProps> = ({ data, selectedNodeId, onSelectNode }) => {
+  const items = useMemo(() => data ? buildItems(data) : new Map<string, OutlineItem>(), [data]);
+  const roots = useMemo(() => Array.from(items.values()).filter(i => i.kind === 'stage').map(i => i.key), [items]);
+  // Stages start open so every node is one arrow key away
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(roots));
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  const rowRefs = useRef(new Map<string, HTMLLIElement>());
+  const treeRef = useRef<HTMLUListElement>(null);
+
+  // Reset for a different set of stages, but not for every streamed update of the same trace
+  useEffect(() => {
+    setExpanded(new Set(roots));
+    setActiveKey(roots[0] ?? null);
+  }, [roots.join('|')]);
+
+  // Follow selections made in the graph, opening the node's stage
+  useEffect(() => {
+    if (!selectedNodeId) return;
+    const item = items.get(nodeKey(selectedNodeId));
+    if (item?.kind !== 'node') return;
+    setExpanded(prev => prev.has(item.parentKey) ? prev : new Set(prev).add(item.parentKey));
+    setActiveKey(item.key);
+  }, [selectedNodeId, items]);
+
+  // Visible rows in document order
+  const visible = useMemo(() => {
+    const rows: OutlineItem[] = [];
+    const walk = (key: string) => {
+      const item = items.get(key);
+      if (!item) return;
+      rows.push(item);
+      if (item.kind !== 'edge' && expanded.has(key)) item.childKeys.forEach(walk);
+    };
+    roots.forEach(walk);
+    return rows;
+  }, [items, roots, expanded]);
+
+  const focusRow = (key: string) => {
+    setActiveKey(key);
+    rowRefs.current.get(key)?.focus();
+  };
+
+  // Keeps DOM focus on the active row after it re-renders (e.g. when a relation jumps elsewhere)
+  useEffect(() => {
+    if (activeKey && treeRef.current?.contains(document.activeElement)) {
+      rowRefs.current.get(activeKey)?.focus();
+    }
+  }, [activeKey, visible]);
+
+  const toggle = (key: string, open?: boolean) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (open ?? !next.has(key)) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const activate = (item: OutlineItem) => {
+    if (item.kind === 'stage') {
+      toggle(item.key);
+    } else if (item.kind === 'node') {
+      onSelectNode(item.node.id === selectedNodeId ? null : item.node.id);
+    } else {
+      onSelectNode(item.otherId);
+      const target = items.get(nodeKey(item.otherId));
+      if (target?.kind === 'node') {
+        setExpanded(prev => new Set(prev).add(target.parentKey));
+        setActiveKey(target.key);
+      }
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, item: OutlineItem) => {
+    const index = visible.findIndex(v => v.key === item.key);
+    const hasChildren = item.kind !== 'edge' && item.childKeys.length > 0;
+    const isOpen = expanded.has(item.key);
+    let handled = true;
+    switch (e.key) {
+      case 'ArrowDown':
+        if (index < visible.length - 1) focusRow(visible[index + 1].key);
+        break;
+      case 'ArrowUp':
+        if (index > 0) focusRow(visible[index - 1].key);
+        break;
+      case 'ArrowRight':
+        if (hasChildren && !isOpen) toggle(item.key, true);
+        else if (hasChildren) focusRow(item.childKeys[0]);
+        break;
+      case 'ArrowLeft':
+        if (hasChildren && isOpen) toggle(item.key, false);
+        else if (item.kind !== 'stage') focusRow(item.parentKey);
+        break;
+      case 'Home':
+        if (visible.length > 0) focusRow(visible[0].key);
+        break;
+      case 'End':
+        if (visible.length > 0) focusRow(visible[visible.length - 1].key);
+        break;
+      case 'Enter':
+      case ' ':
+        activate(item);
+        break;
+      default:
+        handled = false;
+    }
+    if (handled) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  };
+
+  if (!data || items.size === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-slate-400 p-8 text-center bg-white">
+        <ListTree size={32} className="mb-3 opacity-20 text-slate-600" />
+        <p className="text-sm text-slate-600">No reasoning trace available.</p>
+      </div>
+    );
+  }
+
+  // Exactly one row is in the tab order; fall back to the first if the active one is collapsed away
+  const tabbableKey = activeKey && visible.some(v => v.key === activeKey) ? activeKey : roots[0];
+
+  const siblingsOf = (item: OutlineItem): string[] => {
+    if (item.kind === 'stage') return roots;
+    const parent = items.get(item.parentKey);
+    return parent && parent.kind !== 'edge' ? parent.childKeys : [item.key];
+  };
+
+  const renderItem = (key: string): React.ReactNode => {
+    const item = items.get(key);
+    if (!item) return null;
+    const siblings = siblingsOf(item);
+    const hasChildren = item.kind !== 'edge' && item.childKeys.length > 0;
+    const isOpen = hasChildren && expanded.has(key);
+    const selected = item.kind === 'node' && item.node.id === selectedNodeId;
+
+    return (
+      <li
+        key={key}
+        ref={el => {
+          if (el) rowRefs.current.set(key, el);
+          else rowRefs.current.delete(key);
+        }}
+        role="treeitem"
+        aria-level={item.level}
+        aria-setsize={siblings.length}
+        aria-posinset={siblings.indexOf(key) + 1}
+        aria-expanded={hasChildren ? isOpen : undefined}
+        aria-selected={item.kind === 'node' ? selected : undefined}
+        aria-label={describe(item)}
+        tabIndex={key === tabbableKey ? 0 : -1}
+        onKeyDown={e => handleKeyDown(e, item)}
+        onFocus={e => {
+          if (e.target === e.currentTarget) setActiveKey(key);
+        }}
+        className="focus:outline-none group/row"
+      >
+        <div
+          onClick={e => {
+            e.stopPropagation();
+            setActiveKey(key);
+            activate(item);
+          }}
+          className={clsx(
+            "flex items-center gap-1.5 py-1 pr-2 rounded cursor-pointer text-xs",
+            "group-focus-visible/row:ring-1 group-focus-visible/row:ring-blue-400",
+            selected ? "bg-blue-50 text-blue-700" : "hover:bg-slate-50 text-slate-700"
+          )}
+          style={{ paddingLeft: `${(item.level - 1) * 16 + 4}px` }}
+        >
+          <span className="w-3 shrink-0 text-slate-400" aria-hidden="true">
+            {hasChildren && (isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />)}
+          </span>
+          {item.kind === 'stage' && (
+            <span className="font-bold uppercase tracking-wider text-[10px] text-slate-500">
+              {item.label} <span className="font-normal normal-case text-slate-400">· {item.childKeys.length}</span>
+            </span>
+          )}
+          {item.kind === 'node' && (
+            <>
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: getNodeColor(item.node.type) }} aria-hidden="true" />
+              <span className="truncate flex-1">{item.node.label}</span>
+              <span className="text-[10px] text-slate-400 shrink-0">{item.node.type} · {item.node.importance.toFixed(2)}</span>
+            </>
+          )}
+          {item.kind === 'edge' && (
+            <>
+              {item.direction === 'out'
+                ? <ArrowRight size={10} className="text-slate-400 shrink-0" aria-hidden="true" />
+                : <ArrowLeft size={10} className="text-slate-400 shrink-0" aria-hidden="true" />}
+              <span className="italic text-slate-500 shrink-0">{item.relation}</span>
+              <span className="truncate flex-1">{item.otherLabel}</span>
+              <span className="text-[10px] font-mono text-slate-400 shrink-0">{item.strength.toFixed(2)}</span>
+            </>
+          )}
+        </div>
+        {isOpen && (
+          <ul role="group">{item.childKeys.map(renderItem)}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white w-full overflow-hidden">
+      <div className="flex-1 overflow-y-auto p-3 custom-scrollbar">
+        <p id="trace-outline-help" className="text-[10px] text-slate-400 mb-2 px-1">
+          Arrow keys move and expand, Enter selects a node or follows a relation.
+        </p>
+        <ul ref={treeRef} role="tree" aria-label="Reasoning trace outline" aria-describedby="trace-outline-help">
+          {roots.map(renderItem)}
+        </ul>
+      </div>
+    </div>
+  );
+};
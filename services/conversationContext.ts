@@ -0,0 +1,110 @@
+import { ExplainTrace, Message } from "../types";
+
+// A provider-neutral chat turn. Adapters map these onto their own wire format.
+export interface ContextTurn {
+  role: "user" | "model";
+  text: string;
+}
+
+export interface ConversationContextOptions {
+  // Looks up the trace attached to an AI message so its key factors can be replayed.
+  resolveTrace?: (traceId: string) => ExplainTrace | undefined;
+  includeKeyFactors?: boolean;
+  maxTurns?: number;
+  maxTokens?: number;
+}
+
+const DEFAULT_MAX_TURNS = 12;
+const DEFAULT_MAX_TOKENS = 6000;
+const MAX_KEY_FACTORS = 4;
+const SUMMARY_SNIPPET_LENGTH = 140;
+const SUMMARY_MAX_ENTRIES = 8;
+
+// Rough heuristic (~4 characters per token) - good enough for budgeting.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+const messageToTurn = (msg: Message, options: ConversationContextOptions): ContextTurn => {
+  if (msg.role === "user") {
+    return { role: "user", text: msg.text };
+  }
+
+  let text = msg.text;
+  if (options.includeKeyFactors !== false && msg.traceId && options.resolveTrace) {
+    const trace = options.resolveTrace(msg.traceId);
+    const factors = (trace?.key_factors || []).slice(0, MAX_KEY_FACTORS);
+    if (factors.length > 0) {
+      text += `\n\n(Key basis for this answer: ${factors.join("; ")})`;
+    }
+  }
+  return { role: "model", text };
+};
+
+// Collapses trimmed turns into a single compact recap so the model keeps the gist.
+const summarizeTurns = (turns: ContextTurn[]): string => {
+  const lines = turns
+    .slice(-SUMMARY_MAX_ENTRIES * 2)
+    .map(t => `${t.role === "user" ? "User asked" : "You answered"}: ${truncate(t.text.replace(/\s+/g, " "), SUMMARY_SNIPPET_LENGTH)}`);
+  const omitted = turns.length - lines.length;
+  const header = omitted > 0
+    ? `Summary of earlier conversation (${omitted} older turns omitted):`
+    : "Summary of earlier conversation:";
+  return [header, ...lines.map(l => `- ${l}`)].join("\n");
+};
+
+// Gemini (and most chat APIs) expect alternating roles starting with the user.
+const normalizeTurns = (turns: ContextTurn[]): ContextTurn[] => {
+  const merged: ContextTurn[] = [];
+  turns.forEach(turn => {
+    const last = merged[merged.length - 1];
+    if (last && last.role === turn.role) {
+      last.text = `${last.text}\n\n${turn.text}`;
+    } else {
+      merged.push({ ...turn });
+    }
+  });
+  while (merged.length > 0 && merged[0].role !== "user") {
+    merged.shift();
+  }
+  return merged;
+};
+
+/**
+ * Builds the multi-turn context for a new question from the prior chat messages.
+ * The most recent turns are kept verbatim within the turn/token budget; anything
+ * older is folded into a short summary placed at the start of the conversation.
+ */
+export const buildConversationTurns = (
+  prompt: string,
+  history: Message[],
+  options: ConversationContextOptions = {}
+): ContextTurn[] => {
+  const maxTurns = options.maxTurns ?? DEFAULT_MAX_TURNS;
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+
+  // Placeholders and failed answers (no trace) carry no useful context.
+  const priorTurns = history
+    .filter(m => !m.isThinking && m.text.trim() && (m.role === "user" || m.traceId))
+    .map(m => messageToTurn(m, options));
+
+  let budget = maxTokens - estimateTokens(prompt);
+  let keepFrom = priorTurns.length;
+  while (keepFrom > 0 && priorTurns.length - keepFrom < maxTurns) {
+    const cost = estimateTokens(priorTurns[keepFrom - 1].text);
+    if (cost > budget) break;
+    budget -= cost;
+    keepFrom--;
+  }
+
+  const turns: ContextTurn[] = [];
+  const trimmed = priorTurns.slice(0, keepFrom);
+  if (trimmed.length > 0) {
+    turns.push({ role: "user", text: summarizeTurns(trimmed) });
+  }
+  turns.push(...priorTurns.slice(keepFrom));
+  turns.push({ role: "user", text: prompt });
+
+  return normalizeTurns(turns);
+};
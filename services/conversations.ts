@@ -0,0 +1,42 @@
+import { v4 as uuidv4 } from "uuid";
+import { Conversation, Message } from "../types";
+
+// Pre-IndexedDB location of the conversations, only read by the one-time import in storage.ts
+export const CONVERSATIONS_STORAGE_KEY = "neuroviz_conversations";
+export const ACTIVE_CONVERSATION_STORAGE_KEY = "neuroviz_active_conversation";
+
+export const DEFAULT_CONVERSATION_TITLE = "New chat";
+const MAX_TITLE_LENGTH = 48;
+
+export const createConversation = (title = DEFAULT_CONVERSATION_TITLE): Conversation => {
+  const now = new Date().toISOString();
+  return { id: uuidv4(), title, createdAt: now, updatedAt: now, messages: [] };
+};
+
+// Untitled chats are named after their first question.
+export const deriveConversationTitle = (question: string): string => {
+  const singleLine = question.replace(/\s+/g, " ").trim();
+  return singleLine.length > MAX_TITLE_LENGTH
+    ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…`
+    : singleLine || DEFAULT_CONVERSATION_TITLE;
+};
+
+// A reload during generation leaves placeholders behind; turn them into a visible note.
+const settleInterruptedMessage = (msg: Message): Message =>
+  msg.isThinking || msg.isStreaming
+    ? {
+        ...msg,
+        text: msg.isStreaming ? `${msg.text} …(interrupted)` : "Generation was interrupted.",
+        isThinking: false,
+        isStreaming: false,
+      }
+    : msg;
+
+export const normalizeConversation = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  messages: (conversation.messages || []).map(settleInterruptedMessage),
+});
+
+// Most recently active first.
+export const sortConversations = (conversations: Conversation[]) =>
+  conversations.slice().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
@@ -0,0 +1,39 @@
+// Triggers a browser download for generated content.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+// Filesystem-safe timestamp, e.g. 2025-01-31T12-30-00-000Z
+export const filenameTimestamp = (date = new Date()) => date.toISOString().replace(/[:.]/g, "-");
+
+// Opens the browser's print dialog for a standalone HTML page, from which it can be saved as PDF.
+// Uses a hidden iframe so popup blockers don't interfere.
+export const printHtml = (html: string) => {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.setAttribute("aria-hidden", "true");
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.focus();
+    win.print();
+    // print() blocks until the dialog closes in most browsers; remove the frame afterwards
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,308 @@
+import { ExplainTrace, Node } from "../types";
+import { isUncertain } from "./uncertainty";
+import { downloadBlob, filenameTimestamp } from "./download";
+
+// Serializers that take a reasoning graph into other tools: GraphML (Gephi, yEd), Graphviz DOT,
+// Mermaid flowcharts (Markdown docs) and JSON-LD (knowledge-graph tooling). Every format keeps
+// node type, importance, the stage grouping and edge relation labels and strengths, plus the
+// model's certainty where the trace has it.
+
+export type GraphFormat = "graphml" | "dot" | "mermaid" | "jsonld";
+
+export const GRAPH_EXPORT_FORMATS: { id: GraphFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: "graphml", label: "GraphML", extension: "graphml", mimeType: "application/graphml+xml" },
+  { id: "dot", label: "Graphviz DOT", extension: "dot", mimeType: "text/vnd.graphviz" },
+  { id: "mermaid", label: "Mermaid", extension: "mmd", mimeType: "text/plain" },
+  { id: "jsonld", label: "JSON-LD", extension: "jsonld", mimeType: "application/ld+json" },
+];
+
+// Optional context written alongside the graph where the format has room for it
+export interface GraphExportMeta {
+  id?: string;
+  title?: string;
+  question?: string;
+  answer?: string;
+}
+
+interface StageGroup {
+  id: string;
+  label: string;
+  nodes: Node[];
+}
+
+const UNGROUPED_STAGE = "ungrouped";
+
+// Nodes grouped by stage in stage order; nodes pointing at unknown stages are collected last.
+const groupByStage = (trace: ExplainTrace): StageGroup[] => {
+  const groups: StageGroup[] = trace.stages.map(s => ({ id: s.id, label: s.label, nodes: [] }));
+  const byId = new Map(groups.map(g => [g.id, g]));
+  const ungrouped: StageGroup = { id: UNGROUPED_STAGE, label: "Ungrouped", nodes: [] };
+  trace.nodes.forEach(node => (byId.get(node.stage_id) ?? ungrouped).nodes.push(node));
+  return [...groups, ungrouped].filter(g => g.nodes.length > 0);
+};
+
+// Only edges between known nodes are exported; dangling ones would break most importers.
+const exportedEdges = (trace: ExplainTrace) => {
+  const ids = new Set(trace.nodes.map(n => n.id));
+  return trace.edges.filter(e => ids.has(e.source) && ids.has(e.target));
+};
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// -- GraphML --
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+
+const xmlData = (key: string, value: string | number) => `<data key="${key}">${escapeXml(String(value))}</data>`;
+
+export const toGraphML = (trace: ExplainTrace, meta: GraphExportMeta = {}): string => {
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">`,
+    `  <key id="label" for="node" attr.name="label" attr.type="string"/>`,
+    `  <key id="type" for="node" attr.name="type" attr.type="string"/>`,
+    `  <key id="importance" for="node" attr.name="importance" attr.type="double"/>`,
+    `  <key id="certainty" for="node" attr.name="certainty" attr.type="double"/>`,
+    `  <key id="stage" for="node" attr.name="stage" attr.type="string"/>`,
+    `  <key id="stage_label" for="node" attr.name="stage_label" attr.type="string"/>`,
+    `  <key id="relation" for="edge" attr.name="relation" attr.type="string"/>`,
+    `  <key id="strength" for="edge" attr.name="strength" attr.type="double"/>`,
+    `  <key id="edge_certainty" for="edge" attr.name="certainty" attr.type="double"/>`,
+    `  <key id="question" for="graph" attr.name="question" attr.type="string"/>`,
+    `  <key id="confidence" for="graph" attr.name="confidence" attr.type="string"/>`,
+    `  <key id="confidence_score" for="graph" attr.name="confidence_score" attr.type="double"/>`,
+    `  <graph id="${escapeXml(meta.id || "reasoning")}" edgedefault="directed">`,
+  ];
+  if (meta.question) lines.push(`    ${xmlData("question", meta.question)}`);
+  lines.push(`    ${xmlData("confidence", trace.confidence)}`);
+  if (trace.confidence_score !== undefined) lines.push(`    ${xmlData("confidence_score", round(trace.confidence_score))}`);
+
+  // Stages become nested graphs; the stage is also repeated as plain node data for
+  // tools that flatten the hierarchy
+  groupByStage(trace).forEach(group => {
+    lines.push(`    <node id="${escapeXml(`stage:${group.id}`)}">`);
+    lines.push(`      ${xmlData("label", group.label)}`);
+    lines.push(`      <graph id="${escapeXml(`stage:${group.id}:`)}" edgedefault="directed">`);
+    group.nodes.forEach(node => {
+      lines.push(`        <node id="${escapeXml(node.id)}">`);
+      lines.push(`          ${xmlData("label", node.label)}`);
+      lines.push(`          ${xmlData("type", node.type)}`);
+      lines.push(`          ${xmlData("importance", round(node.importance))}`);
+      if (node.certainty !== undefined) lines.push(`          ${xmlData("certainty", round(node.certainty))}`);
+      lines.push(`          ${xmlData("stage", group.id)}`);
+      lines.push(`          ${xmlData("stage_label", group.label)}`);
+      lines.push(`        </node>`);
+    });
+    lines.push(`      </graph>`);
+    lines.push(`    </node>`);
+  });
+
+  exportedEdges(trace).forEach((edge, i) => {
+    lines.push(`    <edge id="e${i}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">`);
+    lines.push(`      ${xmlData("relation", edge.relation_label)}`);
+    lines.push(`      ${xmlData("strength", round(edge.strength))}`);
+    if (edge.certainty !== undefined) lines.push(`      ${xmlData("edge_certainty", round(edge.certainty))}`);
+    lines.push(`    </edge>`);
+  });
+
+  lines.push(`  </graph>`, `</graphml>`, "");
+  return lines.join("\n");
+};
+
+// -- Graphviz DOT --
+
+const dotString = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\r?\n/g, "\\n")}"`;
+
+const DOT_SHAPES: Record<Node["type"], string> = {
+  intent: "box",
+  fact: "ellipse",
+  intermediate: "ellipse",
+  conclusion: "doubleoctagon",
+  constraint: "hexagon",
+  context: "note",
+};
+
+export const toDot = (trace: ExplainTrace, meta: GraphExportMeta = {}, colorOf?: (type: Node["type"]) => string): string => {
+  const lines = ["digraph reasoning {"];
+  if (meta.question) lines.push(`  label=${dotString(meta.question)};`, `  labelloc="t";`);
+  lines.push(`  rankdir=LR;`, `  node [style=filled, fontname="Helvetica"];`, `  edge [fontname="Helvetica", fontsize=10];`);
+
+  groupByStage(trace).forEach((group, i) => {
+    lines.push(`  subgraph cluster_${i} {`);
+    lines.push(`    label=${dotString(group.label)};`, `    stage=${dotString(group.id)};`, `    style=rounded; color="#cbd5e1";`);
+    group.nodes.forEach(node => {
+      const attrs = [
+        `label=${dotString(node.label)}`,
+        `type=${dotString(node.type)}`,
+        `importance=${round(node.importance)}`,
+        `shape=${DOT_SHAPES[node.type] ?? "ellipse"}`,
+        // Larger text for more important nodes
+        `fontsize=${Math.round(10 + node.importance * 8)}`,
+      ];
+      if (node.certainty !== undefined) attrs.push(`certainty=${round(node.certainty)}`);
+      if (isUncertain(node)) attrs.push(`style="filled,dashed"`);
+      if (colorOf) attrs.push(`fillcolor=${dotString(colorOf(node.type))}`);
+      lines.push(`    ${dotString(node.id)} [${attrs.join(", ")}];`);
+    });
+    lines.push(`  }`);
+  });
+
+  exportedEdges(trace).forEach(edge => {
+    const attrs = [
+      `label=${dotString(edge.relation_label)}`,
+      `strength=${round(edge.strength)}`,
+      `penwidth=${round(0.5 + edge.strength * 2.5)}`,
+    ];
+    if (edge.certainty !== undefined) attrs.push(`certainty=${round(edge.certainty)}`);
+    if (isUncertain(edge)) attrs.push(`style=dashed`);
+    lines.push(`  ${dotString(edge.source)} -> ${dotString(edge.target)} [${attrs.join(", ")}];`);
+  });
+
+  lines.push("}", "");
+  return lines.join("\n");
+};
+
+// -- Mermaid --
+
+// Mermaid ids must be plain identifiers and labels cannot contain quotes
+const mermaidText = (text: string) => text.replace(/"/g, "#quot;").replace(/[\r\n]+/g, " ");
+
+const MERMAID_SHAPES: Record<Node["type"], [string, string]> = {
+  intent: ["([", "])"],
+  fact: ["[", "]"],
+  intermediate: ["(", ")"],
+  conclusion: ["[[", "]]"],
+  constraint: ["{{", "}}"],
+  context: ["[/", "/]"],
+};
+
+export const toMermaid = (trace: ExplainTrace, _meta: GraphExportMeta = {}, colorOf?: (type: Node["type"]) => string): string => {
+  const ids = new Map(trace.nodes.map((node, i) => [node.id, `n${i}`]));
+  const lines = ["flowchart LR"];
+
+  groupByStage(trace).forEach((group, i) => {
+    lines.push(`  subgraph s${i}["${mermaidText(group.label)}"]`);
+    group.nodes.forEach(node => {
+      const [open, close] = MERMAID_SHAPES[node.type] ?? ["[", "]"];
+      lines.push(`    ${ids.get(node.id)}${open}"${mermaidText(node.label)}<br/>${node.type} · ${round(node.importance)}"${close}`);
+    });
+    lines.push(`  end`);
+  });
+
+  exportedEdges(trace).forEach(edge => {
+    // Dotted arrows for weak links
+    const arrow = edge.strength < 0.4 ? "-.->" : edge.strength > 0.75 ? "==>" : "-->";
+    lines.push(`  ${ids.get(edge.source)} ${arrow}|"${mermaidText(edge.relation_label)} · ${round(edge.strength)}"| ${ids.get(edge.target)}`);
+  });
+
+  if (colorOf) {
+    const types = Array.from(new Set(trace.nodes.map(n => n.type)));
+    types.forEach(type => lines.push(`  classDef ${type} fill:${colorOf(type)},stroke:#334155,color:#0f172a`));
+    types.forEach(type => {
+      const members = trace.nodes.filter(n => n.type === type).map(n => ids.get(n.id));
+      lines.push(`  class ${members.join(",")} ${type}`);
+    });
+  }
+
+  return lines.join("\n") + "\n";
+};
+
+// -- JSON-LD --
+
+const VOCAB = "urn:neuroviz:vocab#";
+
+export const toJsonLd = (trace: ExplainTrace, meta: GraphExportMeta = {}): string => {
+  const doc = {
+    "@context": {
+      "@vocab": VOCAB,
+      "@base": `urn:neuroviz:trace:${meta.id || "export"}/`,
+      label: "http://www.w3.org/2000/01/rdf-schema#label",
+      description: "http://www.w3.org/2000/01/rdf-schema#comment",
+      stage: { "@type": "@id" },
+      source: { "@type": "@id" },
+      target: { "@type": "@id" },
+      importance: { "@type": "http://www.w3.org/2001/XMLSchema#double" },
+      strength: { "@type": "http://www.w3.org/2001/XMLSchema#double" },
+      certainty: { "@type": "http://www.w3.org/2001/XMLSchema#double" },
+      confidenceScore: { "@type": "http://www.w3.org/2001/XMLSchema#double" },
+      weight: { "@type": "http://www.w3.org/2001/XMLSchema#double" },
+      timestamp: { "@type": "http://www.w3.org/2001/XMLSchema#dateTime" },
+    },
+    "@id": "",
+    "@type": "ReasoningTrace",
+    ...(meta.question ? { question: meta.question } : {}),
+    ...(meta.answer ? { answer: meta.answer } : {}),
+    confidence: trace.confidence,
+    ...(trace.confidence_score !== undefined ? { confidenceScore: trace.confidence_score } : {}),
+    timestamp: trace.timestamp,
+    steps: { "@list": trace.steps },
+    keyFactors: trace.key_factors,
+    "@graph": [
+      ...trace.stages.map(stage => ({
+        "@id": `stage/${encodeURIComponent(stage.id)}`,
+        "@type": "Stage",
+        label: stage.label,
+        description: stage.description,
+        weight: stage.weight,
+      })),
+      ...trace.nodes.map(node => ({
+        "@id": `node/${encodeURIComponent(node.id)}`,
+        "@type": ["Concept", node.type],
+        label: node.label,
+        nodeType: node.type,
+        importance: node.importance,
+        ...(node.certainty !== undefined ? { certainty: node.certainty } : {}),
+        stage: `stage/${encodeURIComponent(node.stage_id)}`,
+      })),
+      ...exportedEdges(trace).map((edge, i) => ({
+        "@id": `edge/${i}`,
+        "@type": "Relation",
+        source: `node/${encodeURIComponent(edge.source)}`,
+        target: `node/${encodeURIComponent(edge.target)}`,
+        label: edge.relation_label,
+        strength: edge.strength,
+        ...(edge.certainty !== undefined ? { certainty: edge.certainty } : {}),
+      })),
+    ],
+  };
+  return JSON.stringify(doc, null, 2);
+};
+
+export const serializeGraph = (
+  format: GraphFormat,
+  trace: ExplainTrace,
+  meta: GraphExportMeta = {},
+  colorOf?: (type: Node["type"]) => string
+): string => {
+  switch (format) {
+    case "graphml": return toGraphML(trace, meta);
+    case "dot": return toDot(trace, meta, colorOf);
+    case "mermaid": return toMermaid(trace, meta, colorOf);
+    case "jsonld": return toJsonLd(trace, meta);
+  }
+};
+
+export const graphExportFile = (
+  format: GraphFormat,
+  trace: ExplainTrace,
+  meta: GraphExportMeta = {},
+  colorOf?: (type: Node["type"]) => string
+): { blob: Blob; extension: string } => {
+  const option = GRAPH_EXPORT_FORMATS.find(f => f.id === format)!;
+  return {
+    blob: new Blob([serializeGraph(format, trace, meta, colorOf)], { type: `${option.mimeType};charset=utf-8` }),
+    extension: option.extension,
+  };
+};
+
+// Saves the trace as GraphML, DOT, Mermaid or JSON-LD; pass the on-screen node colors as `colorOf`.
+export const downloadGraphExport = (
+  format: GraphFormat,
+  trace: ExplainTrace,
+  meta: GraphExportMeta = {},
+  colorOf?: (type: Node["type"]) => string
+) => {
+  const { blob, extension } = graphExportFile(format, trace, meta, colorOf);
+  downloadBlob(blob, `neuroviz-graph-${filenameTimestamp()}.${extension}`);
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { Edge, ExplainTrace, Node } from "../types";
+import { computeLayout, countCrossings, layeredLayout, orderLayers, radialLayout } from "./graphLayout";
+
+const node = (id: string, stage_id: string, type: Node["type"] = "fact", importance = 0.5): Node => ({
+  id,
+  label: id,
+  type,
+  importance,
+  stage_id,
+});
+
+const edge = (source: string, target: string): Edge => ({ source, target, relation_label: "leads to", strength: 0.5 });
+
+const trace = (nodes: Node[], edges: Edge[], stageIds: string[] = []): ExplainTrace => ({
+  stages: stageIds.map(id => ({ id, label: id, description: "", weight: 1 })),
+  nodes,
+  edges,
+  steps: [],
+  key_factors: [],
+  confidence: "medium",
+  timestamp: "2024-01-01T00:00:00.000Z",
+});
+
+describe("countCrossings / orderLayers", () => {
+  // a -> d crosses b -> c, and c -> f crosses d -> e; swapping c and d fixes both
+  const edges = [edge("a", "d"), edge("b", "c"), edge("c", "f"), edge("d", "e")];
+  const layers = [["a", "b"], ["c", "d"], ["e", "f"]];
+
+  it("counts crossing edge pairs between adjacent layers", () => {
+    expect(countCrossings(layers, edges)).toBe(2);
+    expect(countCrossings([["a", "b"], ["c", "d"], ["f", "e"]], edges)).toBe(1);
+    expect(countCrossings([["a", "b"], ["d", "c"], ["e", "f"]], edges)).toBe(0);
+  });
+
+  it("reorders layers to remove crossings without losing nodes", () => {
+    const ordered = orderLayers(layers, edges);
+
+    expect(countCrossings(ordered, edges)).toBe(0);
+    expect(ordered.map(layer => layer.slice().sort())).toEqual(layers);
+    // The input is left alone
+    expect(layers).toEqual([["a", "b"], ["c", "d"], ["e", "f"]]);
+  });
+
+  it("never returns an ordering with more crossings than it was given", () => {
+    const crossed = [["a", "b", "c"], ["x", "y", "z"]];
+    const crossedEdges = [edge("a", "z"), edge("b", "x"), edge("c", "y"), edge("a", "y"), edge("c", "x")];
+
+    expect(countCrossings(orderLayers(crossed, crossedEdges), crossedEdges))
+      .toBeLessThanOrEqual(countCrossings(crossed, crossedEdges));
+  });
+});
+
+describe("layeredLayout", () => {
+  const staged = trace(
+    [node("q", "s1", "intent"), node("f1", "s2"), node("f2", "s2"), node("c", "s3", "conclusion")],
+    [edge("q", "f2"), edge("q", "f1"), edge("f1", "c"), edge("f2", "c"), edge("f2", "missing")],
+    ["s1", "s2", "s3"]
+  );
+
+  it("puts each stage in its own column and is deterministic", () => {
+    const positions = layeredLayout(staged);
+
+    expect(positions).toEqual(layeredLayout(staged));
+    expect(positions.get("q")).toEqual({ x: -2, y: 0, z: 0 });
+    expect(positions.get("c")).toEqual({ x: 2, y: 0, z: 0 });
+    expect(positions.get("f1")?.x).toBe(0);
+    expect(positions.get("f2")?.x).toBe(0);
+    expect(Math.abs(positions.get("f1")!.y - positions.get("f2")!.y)).toBeCloseTo(0.9);
+  });
+
+  it("falls back to longest-path layers without stages", () => {
+    const unstaged = trace(
+      [node("a", ""), node("b", ""), node("c", "")],
+      [edge("a", "b"), edge("b", "c"), edge("a", "c")]
+    );
+    const positions = layeredLayout(unstaged);
+
+    expect([positions.get("a")?.x, positions.get("b")?.x, positions.get("c")?.x]).toEqual([-2, 0, 2]);
+  });
+});
+
+describe("radialLayout", () => {
+  const graph = trace(
+    [node("f1", "s"), node("q", "s", "intent", 0.2), node("f2", "s"), node("c", "s", "conclusion", 0.9), node("lone", "s")],
+    [edge("q", "f1"), edge("q", "f2"), edge("f1", "c"), edge("f2", "c")]
+  );
+
+  it("centers the intent node and rings the rest by distance", () => {
+    const positions = radialLayout(graph);
+    const radius = (id: string) => Math.hypot(positions.get(id)!.x, positions.get(id)!.y);
+
+    expect(positions.get("q")).toEqual({ x: 0, y: 0, z: 0 });
+    expect(radius("f1")).toBeCloseTo(1.6);
+    expect(radius("f2")).toBeCloseTo(1.6);
+    expect(radius("c")).toBeCloseTo(3.2);
+    // Disconnected nodes get an outer ring of their own
+    expect(radius("lone")).toBeCloseTo(4.8);
+    expect(positions).toEqual(radialLayout(graph));
+  });
+});
+
+describe("computeLayout", () => {
+  it("returns no positions for an empty trace", () => {
+    expect(computeLayout("layered", trace([], [])).size).toBe(0);
+    expect(computeLayout("radial", trace([], [])).size).toBe(0);
+  });
+});
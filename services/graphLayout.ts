@@ -0,0 +1,422 @@
+import * as d3 from "d3";
+import { Edge, ExplainTrace, Node } from "../types";
+
+// Node placement for the reasoning graph. Pure functions of the trace so they can be run and
+// checked outside of React/three.js; the graph component only animates between results.
+
+export interface Point3D {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type LayoutKind = "force" | "layered" | "radial" | "force3d";
+
+export const LAYOUT_OPTIONS: { id: LayoutKind; label: string }[] = [
+  { id: "force", label: "Force (stages)" },
+  { id: "layered", label: "Layered DAG" },
+  { id: "radial", label: "Radial" },
+  { id: "force3d", label: "Force 3D" },
+];
+
+export const DEFAULT_LAYOUT: LayoutKind = "force";
+
+export const isLayoutKind = (value: unknown): value is LayoutKind =>
+  LAYOUT_OPTIONS.some(option => option.id === value);
+
+const STAGE_WIDTH = 6;
+const LAYER_SPACING = 2;
+const NODE_SPACING = 0.9;
+const RING_SPACING = 1.6;
+const COORDINATE_LIMIT = 50;
+
+const clamp = (value: number) =>
+  Number.isFinite(value) ? Math.max(-COORDINATE_LIMIT, Math.min(COORDINATE_LIMIT, value)) : 0;
+
+const validEdges = (trace: ExplainTrace): Edge[] => {
+  const ids = new Set(trace.nodes.map(n => n.id));
+  return (Array.isArray(trace.edges) ? trace.edges : []).filter(e => ids.has(e.source) && ids.has(e.target));
+};
+
+// X target of each stage column, spread evenly over STAGE_WIDTH.
+const stageColumns = (trace: ExplainTrace): Record<string, number> => {
+  const stageIds = (trace.stages || []).map(s => s.id);
+  const columns: Record<string, number> = {};
+  stageIds.forEach((id, index) => {
+    const t = index / (stageIds.length - 1 || 1);
+    columns[id] = -STAGE_WIDTH / 2 + t * STAGE_WIDTH;
+  });
+  return columns;
+};
+
+// Deterministic value in [0, 1) from a string, so layouts don't change between renders.
+const hashUnit = (text: string, salt = 0) => {
+  let h = 2166136261 ^ salt;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return ((h >>> 0) % 10000) / 10000;
+};
+
+/**
+ * d3 force simulation pulled into stage columns, with a shallow pseudo-random depth.
+ * Nodes that already have a position in `previous` are pinned, so streamed-in nodes are
+ * absorbed without reshuffling the graph.
+ */
+export const forceLayout = (trace: ExplainTrace, previous = new Map<string, Point3D>()): Map<string, Point3D> => {
+  const nodes = trace.nodes;
+  const edges = validEdges(trace);
+  const stageX = stageColumns(trace);
+
+  // New nodes start next to an already placed neighbour (or their stage column)
+  const neighbourPosition = (id: string) => {
+    for (const e of edges) {
+      const other = e.source === id ? e.target : e.target === id ? e.source : null;
+      const p = other ? previous.get(other) : undefined;
+      if (p) return p;
+    }
+    return undefined;
+  };
+
+  // CRITICAL: Initialize x/y with random values to avoid (0,0) singularity which causes NaNs in forceManyBody
+  const d3Nodes = nodes.map(n => {
+    const prev = previous.get(n.id);
+    if (prev) return { ...n, x: prev.x, y: prev.y, fx: prev.x, fy: prev.y };
+    const anchor = neighbourPosition(n.id);
+    return {
+      ...n,
+      x: (anchor ? anchor.x : stageX[n.stage_id] || 0) + Math.random() - 0.5,
+      y: (anchor ? anchor.y : 0) + Math.random() - 0.5,
+    };
+  }) as any[];
+
+  const d3Links = edges.map(e => ({ source: e.source, target: e.target, strength: e.strength }));
+
+  // Fewer ticks are needed when only a few nodes are being added
+  const ticks = previous.size > 0 ? 120 : 300;
+
+  try {
+    const simulation = d3.forceSimulation(d3Nodes)
+      .force("link", d3.forceLink(d3Links).id((d: any) => d.id).distance(1).strength(0.5))
+      .force("charge", d3.forceManyBody().strength(-10))
+      .force("x", d3.forceX((d: any) => stageX[d.stage_id] || 0).strength(1.5))
+      .force("y", d3.forceY(0).strength(0.8))
+      .force("collide", d3.forceCollide().radius(0.4).iterations(3))
+      .stop();
+
+    // Run simulation synchronously with NaN check
+    for (let i = 0; i < ticks; i++) {
+      simulation.tick();
+      // Emergency break if values explode
+      if (d3Nodes.length > 0 && !Number.isFinite(d3Nodes[0].x)) break;
+    }
+  } catch (e) {
+    console.warn("D3 Simulation failed", e);
+  }
+
+  const zSpread = 1.5;
+  const positions = new Map<string, Point3D>();
+  d3Nodes.forEach((node: any) => {
+    const prev = previous.get(node.id);
+    if (prev) {
+      positions.set(node.id, prev);
+      return;
+    }
+    // Pseudo-random Z based on index to be deterministic
+    const pseudoRandomZ = (((node.index || 0) * 1337) % 100) / 100 - 0.5;
+    positions.set(node.id, { x: clamp(node.x), y: clamp(node.y), z: clamp(pseudoRandomZ * zSpread) });
+  });
+  return positions;
+};
+
+// Layers in stage order; without stages, the longest path from a source node decides the layer.
+const assignLayers = (trace: ExplainTrace, edges: Edge[]): string[][] => {
+  const stages = trace.stages || [];
+  if (stages.length > 0) {
+    const stageIndex = new Map(stages.map((s, i) => [s.id, i]));
+    const layers: string[][] = stages.map(() => []);
+    const unstaged: string[] = [];
+    trace.nodes.forEach(n => {
+      const index = stageIndex.get(n.stage_id);
+      if (index === undefined) unstaged.push(n.id);
+      else layers[index].push(n.id);
+    });
+    if (unstaged.length > 0) layers.push(unstaged);
+    return layers.filter(layer => layer.length > 0);
+  }
+
+  const depth = new Map<string, number>(trace.nodes.map(n => [n.id, 0]));
+  // Bellman-Ford style relaxation, capped so cycles cannot loop forever
+  for (let round = 0; round < trace.nodes.length; round++) {
+    let changed = false;
+    edges.forEach(e => {
+      const next = (depth.get(e.source) ?? 0) + 1;
+      if (next > (depth.get(e.target) ?? 0) && next < trace.nodes.length) {
+        depth.set(e.target, next);
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+  const layers: string[][] = [];
+  trace.nodes.forEach(n => {
+    const d = depth.get(n.id) ?? 0;
+    (layers[d] = layers[d] || []).push(n.id);
+  });
+  return layers.filter(Boolean);
+};
+
+// Number of crossing edge pairs between every pair of adjacent layers.
+export const countCrossings = (layers: string[][], edges: Edge[]): number => {
+  const layerOf = new Map<string, number>();
+  const positionOf = new Map<string, number>();
+  layers.forEach((layer, l) => layer.forEach((id, i) => {
+    layerOf.set(id, l);
+    positionOf.set(id, i);
+  }));
+
+  let crossings = 0;
+  for (let l = 0; l < layers.length - 1; l++) {
+    const segments: [number, number][] = [];
+    edges.forEach(e => {
+      const ls = layerOf.get(e.source), lt = layerOf.get(e.target);
+      if (ls === l && lt === l + 1) segments.push([positionOf.get(e.source)!, positionOf.get(e.target)!]);
+      else if (lt === l && ls === l + 1) segments.push([positionOf.get(e.target)!, positionOf.get(e.source)!]);
+    });
+    for (let i = 0; i < segments.length; i++) {
+      for (let j = i + 1; j < segments.length; j++) {
+        const [a1, b1] = segments[i], [a2, b2] = segments[j];
+        if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+      }
+    }
+  }
+  return crossings;
+};
+
+const BARYCENTER_SWEEPS = 8;
+
+/**
+ * Orders the nodes within each layer with alternating down/up barycenter sweeps and keeps
+ * the ordering with the fewest crossings.
+ */
+export const orderLayers = (layers: string[][], edges: Edge[]): string[][] => {
+  const neighbours = new Map<string, string[]>();
+  edges.forEach(e => {
+    neighbours.set(e.source, [...(neighbours.get(e.source) || []), e.target]);
+    neighbours.set(e.target, [...(neighbours.get(e.target) || []), e.source]);
+  });
+
+  let current = layers.map(layer => layer.slice());
+  let best = current;
+  let bestCrossings = countCrossings(current, edges);
+
+  for (let sweep = 0; sweep < BARYCENTER_SWEEPS && bestCrossings > 0; sweep++) {
+    const down = sweep % 2 === 0;
+    const next = current.map(layer => layer.slice());
+    const range = down
+      ? next.map((_, l) => l).slice(1)
+      : next.map((_, l) => l).slice(0, -1).reverse();
+
+    range.forEach(l => {
+      const reference = next[down ? l - 1 : l + 1];
+      const referencePosition = new Map(reference.map((id, i) => [id, i]));
+      const barycenter = new Map<string, number>();
+      next[l].forEach((id, i) => {
+        const positions = (neighbours.get(id) || [])
+          .map(other => referencePosition.get(other))
+          .filter((p): p is number => p !== undefined);
+        // Nodes without neighbours on the reference side keep their slot
+        barycenter.set(id, positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : i);
+      });
+      next[l].sort((a, b) => barycenter.get(a)! - barycenter.get(b)!);
+    });
+
+    current = next;
+    const crossings = countCrossings(current, edges);
+    if (crossings < bestCrossings) {
+      best = current;
+      bestCrossings = crossings;
+    }
+  }
+  return best;
+};
+
+// Sugiyama-style layout: one column per stage, nodes ordered within it to minimize crossings.
+export const layeredLayout = (trace: ExplainTrace): Map<string, Point3D> => {
+  const edges = validEdges(trace);
+  const layers = orderLayers(assignLayers(trace, edges), edges);
+  const positions = new Map<string, Point3D>();
+  layers.forEach((layer, l) => {
+    const x = (l - (layers.length - 1) / 2) * LAYER_SPACING;
+    layer.forEach((id, i) => {
+      positions.set(id, { x: clamp(x), y: clamp(((layer.length - 1) / 2 - i) * NODE_SPACING), z: 0 });
+    });
+  });
+  return positions;
+};
+
+// The most important intent node, falling back to the most important node overall.
+const pickCenter = (nodes: Node[]): Node | undefined => {
+  const byImportance = nodes.slice().sort((a, b) => b.importance - a.importance);
+  return byImportance.find(n => n.type === "intent") || byImportance[0];
+};
+
+// Concentric rings by graph distance from the intent node; each ring is ordered by the
+// angles of its neighbours in the ring inside it.
+export const radialLayout = (trace: ExplainTrace): Map<string, Point3D> => {
+  const positions = new Map<string, Point3D>();
+  const center = pickCenter(trace.nodes);
+  if (!center) return positions;
+
+  const edges = validEdges(trace);
+  const neighbours = new Map<string, string[]>();
+  edges.forEach(e => {
+    neighbours.set(e.source, [...(neighbours.get(e.source) || []), e.target]);
+    neighbours.set(e.target, [...(neighbours.get(e.target) || []), e.source]);
+  });
+
+  const depth = new Map<string, number>([[center.id, 0]]);
+  const queue = [center.id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (neighbours.get(id) || []).forEach(other => {
+      if (!depth.has(other)) {
+        depth.set(other, depth.get(id)! + 1);
+        queue.push(other);
+      }
+    });
+  }
+  // Disconnected nodes go on an outer ring of their own
+  const maxDepth = Math.max(0, ...Array.from(depth.values()));
+  trace.nodes.forEach(n => {
+    if (!depth.has(n.id)) depth.set(n.id, maxDepth + 1);
+  });
+
+  const rings: string[][] = [];
+  trace.nodes.forEach(n => {
+    const d = depth.get(n.id)!;
+    (rings[d] = rings[d] || []).push(n.id);
+  });
+
+  const angles = new Map<string, number>();
+  positions.set(center.id, { x: 0, y: 0, z: 0 });
+  angles.set(center.id, 0);
+
+  rings.forEach((ring, d) => {
+    if (!ring || d === 0) return;
+    const preferred = new Map<string, number>();
+    ring.forEach((id, i) => {
+      const inner = (neighbours.get(id) || []).filter(other => depth.get(other) === d - 1 && angles.has(other));
+      if (inner.length === 0) {
+        preferred.set(id, (2 * Math.PI * i) / ring.length);
+        return;
+      }
+      // Circular mean of the neighbours' angles
+      const sin = inner.reduce((sum, other) => sum + Math.sin(angles.get(other)!), 0);
+      const cos = inner.reduce((sum, other) => sum + Math.cos(angles.get(other)!), 0);
+      preferred.set(id, Math.atan2(sin, cos));
+    });
+
+    const ordered = ring.slice().sort((a, b) => preferred.get(a)! - preferred.get(b)!);
+    const offset = preferred.get(ordered[0])!;
+    const radius = d * RING_SPACING;
+    ordered.forEach((id, i) => {
+      const angle = offset + (2 * Math.PI * i) / ordered.length;
+      angles.set(id, angle);
+      positions.set(id, { x: clamp(Math.cos(angle) * radius), y: clamp(Math.sin(angle) * radius), z: 0 });
+    });
+  });
+  return positions;
+};
+
+const FORCE3D_ITERATIONS = 300;
+const REPULSION = 0.8;
+const LINK_DISTANCE = 1.4;
+const MAX_STEP = 0.5;
+
+/**
+ * Force-directed layout in all three dimensions: pairwise repulsion, springs along edges and
+ * a gentle pull towards the node's stage column. Previously placed nodes stay pinned.
+ */
+export const force3dLayout = (trace: ExplainTrace, previous = new Map<string, Point3D>()): Map<string, Point3D> => {
+  const nodes = trace.nodes;
+  const stageX = stageColumns(trace);
+  const indexOf = new Map(nodes.map((n, i) => [n.id, i]));
+  const links = validEdges(trace).map(e => ({
+    source: indexOf.get(e.source)!,
+    target: indexOf.get(e.target)!,
+    strength: Number.isFinite(e.strength) ? e.strength : 0.5,
+  }));
+
+  const pinned = nodes.map(n => previous.has(n.id));
+  const points = nodes.map(n => {
+    const prev = previous.get(n.id);
+    if (prev) return { ...prev };
+    return {
+      x: (stageX[n.stage_id] || 0) + hashUnit(n.id, 1) * 2 - 1,
+      y: hashUnit(n.id, 2) * 2 - 1,
+      z: hashUnit(n.id, 3) * 2 - 1,
+    };
+  });
+
+  const iterations = previous.size > 0 ? FORCE3D_ITERATIONS / 2 : FORCE3D_ITERATIONS;
+  let alpha = 1;
+  for (let it = 0; it < iterations; it++) {
+    const forces = points.map(() => ({ x: 0, y: 0, z: 0 }));
+
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const dx = points[i].x - points[j].x, dy = points[i].y - points[j].y, dz = points[i].z - points[j].z;
+        const dist2 = Math.max(0.01, dx * dx + dy * dy + dz * dz);
+        const dist = Math.sqrt(dist2);
+        const f = REPULSION / dist2;
+        forces[i].x += (dx / dist) * f; forces[i].y += (dy / dist) * f; forces[i].z += (dz / dist) * f;
+        forces[j].x -= (dx / dist) * f; forces[j].y -= (dy / dist) * f; forces[j].z -= (dz / dist) * f;
+      }
+    }
+
+    links.forEach(({ source, target, strength }) => {
+      const a = points[source], b = points[target];
+      const dx = b.x - a.x, dy = b.y - a.y, dz = b.z - a.z;
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz) || 0.01;
+      const f = (dist - LINK_DISTANCE) * (0.1 + 0.2 * strength);
+      forces[source].x += (dx / dist) * f; forces[source].y += (dy / dist) * f; forces[source].z += (dz / dist) * f;
+      forces[target].x -= (dx / dist) * f; forces[target].y -= (dy / dist) * f; forces[target].z -= (dz / dist) * f;
+    });
+
+    points.forEach((p, i) => {
+      if (pinned[i]) return;
+      forces[i].x += ((stageX[nodes[i].stage_id] || 0) - p.x) * 0.05;
+      forces[i].y -= p.y * 0.02;
+      forces[i].z -= p.z * 0.02;
+      const step = Math.sqrt(forces[i].x ** 2 + forces[i].y ** 2 + forces[i].z ** 2) * alpha;
+      const scale = step > MAX_STEP ? MAX_STEP / step : 1;
+      p.x += forces[i].x * alpha * scale;
+      p.y += forces[i].y * alpha * scale;
+      p.z += forces[i].z * alpha * scale;
+    });
+    alpha *= 0.985;
+  }
+
+  return new Map(nodes.map((n, i) => [n.id, { x: clamp(points[i].x), y: clamp(points[i].y), z: clamp(points[i].z) }]));
+};
+
+/**
+ * Computes node positions for a trace. `previous` holds positions from an earlier version of
+ * the same trace (while streaming); the force layouts keep those nodes where they were, the
+ * deterministic layouts simply recompute.
+ */
+export const computeLayout = (
+  kind: LayoutKind,
+  trace: ExplainTrace,
+  previous?: Map<string, Point3D>
+): Map<string, Point3D> => {
+  if (!trace || !Array.isArray(trace.nodes) || trace.nodes.length === 0) return new Map();
+  switch (kind) {
+    case "layered": return layeredLayout(trace);
+    case "radial": return radialLayout(trace);
+    case "force3d": return force3dLayout(trace, previous);
+    default: return forceLayout(trace, previous);
+  }
+};
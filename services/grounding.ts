@@ -0,0 +1,200 @@
+import { v4 as uuidv4 } from "uuid";
+import { GroundingDocument, SourceChunk } from "../types";
+import { extractPdfText, isPdf } from "./pdfText";
+
+// Grounded answers: documents attached to a conversation are split into chunks, indexed with
+// BM25 in memory, and the best chunks for a question are sent to the model as numbered
+// excerpts ("S1", "S2", ...) that its fact nodes cite.
+
+export interface DocumentChunk {
+  documentId: string;
+  documentName: string;
+  index: number;
+  text: string;
+}
+
+interface IndexedChunk {
+  chunk: DocumentChunk;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+export interface GroundingIndex {
+  chunks: IndexedChunk[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+}
+
+export class DocumentReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentReadError";
+  }
+}
+
+const CHUNK_SIZE = 900;
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+const DEFAULT_SOURCE_LIMIT = 6;
+// Keeps the excerpts to roughly 1.5k tokens so the conversation history still fits
+const MAX_SOURCE_CHARS = 6000;
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "did", "do", "does", "for", "from",
+  "had", "has", "have", "how", "i", "if", "in", "into", "is", "it", "its", "me", "my", "no", "not",
+  "of", "on", "or", "our", "so", "than", "that", "the", "their", "them", "then", "there", "these",
+  "they", "this", "to", "was", "we", "were", "what", "when", "where", "which", "who", "why", "will",
+  "with", "would", "you", "your",
+]);
+
+// Lowercased words without stop words; plural "s" is stripped so "graphs" matches "graph".
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || ([] as string[]))
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+
+// Splits at sentence ends, falling back to hard cuts for text without punctuation.
+const splitLongParagraph = (paragraph: string, size: number): string[] => {
+  const sentences = paragraph.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [paragraph];
+  const parts: string[] = [];
+  let current = "";
+  sentences.forEach(sentence => {
+    if (current && current.length + sentence.length > size) {
+      parts.push(current.trim());
+      current = "";
+    }
+    current += sentence;
+    while (current.length > size) {
+      parts.push(current.slice(0, size).trim());
+      current = current.slice(size);
+    }
+  });
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+};
+
+/** Packs paragraphs into chunks of up to `size` characters; paragraphs are only split when too long. */
+export const chunkDocument = (document: GroundingDocument, size = CHUNK_SIZE): DocumentChunk[] => {
+  const paragraphs = document.text
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/[ \t]+/g, " ").trim())
+    .filter(Boolean)
+    .flatMap(p => p.length > size ? splitLongParagraph(p, size) : [p]);
+
+  const texts: string[] = [];
+  let current = "";
+  paragraphs.forEach(paragraph => {
+    if (current && current.length + paragraph.length + 2 > size) {
+      texts.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  });
+  if (current) texts.push(current);
+
+  return texts.map((text, index) => ({ documentId: document.id, documentName: document.name, index, text }));
+};
+
+export const buildGroundingIndex = (documents: GroundingDocument[]): GroundingIndex => {
+  const documentFrequencies = new Map<string, number>();
+  const chunks = documents.flatMap(d => chunkDocument(d)).map(chunk => {
+    const terms = tokenize(chunk.text);
+    const termFrequencies = new Map<string, number>();
+    terms.forEach(term => termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1));
+    termFrequencies.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1));
+    return { chunk, termFrequencies, length: terms.length };
+  });
+  const totalLength = chunks.reduce((sum, c) => sum + c.length, 0);
+  return { chunks, documentFrequencies, averageLength: chunks.length > 0 ? totalLength / chunks.length : 0 };
+};
+
+/** BM25-ranked chunks for a query; chunks sharing no term with it are left out. */
+export const searchIndex = (index: GroundingIndex, query: string, limit: number): { chunk: DocumentChunk; score: number }[] => {
+  const terms = Array.from(new Set(tokenize(query)));
+  const total = index.chunks.length;
+  if (terms.length === 0 || total === 0) return [];
+
+  const idf = new Map(terms.map(term => {
+    const df = index.documentFrequencies.get(term) || 0;
+    return [term, Math.log(1 + (total - df + 0.5) / (df + 0.5))];
+  }));
+
+  return index.chunks
+    .map(({ chunk, termFrequencies, length }) => {
+      const norm = K1 * (1 - B + B * (length / (index.averageLength || 1)));
+      const score = terms.reduce((sum, term) => {
+        const tf = termFrequencies.get(term) || 0;
+        return tf === 0 ? sum : sum + idf.get(term)! * (tf * (K1 + 1)) / (tf + norm);
+      }, 0);
+      return { chunk, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Picks the excerpts to send with a question and numbers them S1..Sn in rank order. The ids
+ * are only meaningful together with the returned chunks, which are stored on the history item.
+ */
+export const retrieveSources = (index: GroundingIndex, query: string, limit = DEFAULT_SOURCE_LIMIT): SourceChunk[] => {
+  const sources: SourceChunk[] = [];
+  let budget = MAX_SOURCE_CHARS;
+  for (const { chunk } of searchIndex(index, query, limit)) {
+    if (chunk.text.length > budget && sources.length > 0) break;
+    budget -= chunk.text.length;
+    sources.push({
+      id: `S${sources.length + 1}`,
+      documentId: chunk.documentId,
+      documentName: chunk.documentName,
+      text: chunk.text,
+    });
+  }
+  return sources;
+};
+
+// Prepended to the question so the excerpts sit right next to what they should answer.
+export const formatSourcesForPrompt = (sources: SourceChunk[], question: string): string =>
+  [
+    "Answer using the following excerpts from the user's documents. Cite them by id in the \"sources\" of the nodes they support.",
+    "",
+    ...sources.map(s => `[${s.id}] (from "${s.documentName}")\n${s.text}\n`),
+    `Question: ${question}`,
+  ].join("\n");
+
+const documentKind = (name: string, type: string): GroundingDocument["kind"] | null => {
+  const extension = name.toLowerCase().split(".").pop() || "";
+  if (extension === "pdf" || type === "application/pdf") return "pdf";
+  if (["md", "markdown"].includes(extension) || type === "text/markdown") return "markdown";
+  if (extension === "txt" || type.startsWith("text/")) return "text";
+  return null;
+};
+
+export const createTextDocument = (name: string, text: string, kind: GroundingDocument["kind"] = "text"): GroundingDocument => ({
+  id: uuidv4(),
+  name: name.trim() || "Pasted text",
+  kind,
+  text: text.replace(/\r\n?/g, "\n").trim(),
+  addedAt: new Date().toISOString(),
+});
+
+/** Reads a .txt, .md or .pdf upload into a document; throws a DocumentReadError the UI can show. */
+export const readDocumentFile = async (file: File): Promise<GroundingDocument> => {
+  const kind = documentKind(file.name, file.type);
+  if (!kind) throw new DocumentReadError(`"${file.name}" is not a .txt, .md or .pdf file.`);
+  if (file.size > MAX_DOCUMENT_BYTES) throw new DocumentReadError(`"${file.name}" is larger than 10 MB.`);
+
+  let text: string;
+  if (kind === "pdf") {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    if (!isPdf(bytes)) throw new DocumentReadError(`"${file.name}" is not a valid PDF.`);
+    text = await extractPdfText(bytes);
+    if (!text) throw new DocumentReadError(`No text could be extracted from "${file.name}" (it may be scanned or use embedded fonts).`);
+  } else {
+    text = await file.text();
+  }
+  if (!text.trim()) throw new DocumentReadError(`"${file.name}" is empty.`);
+  return createTextDocument(file.name, text, kind);
+};
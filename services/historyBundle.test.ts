@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { BundleError, createBundle, createBundleZip, mergeBundle, readBundleFile } from "./historyBundle";
+import { createConversation } from "./conversations";
+import { generateMockResponse } from "./mockProvider";
+import { HistoryItem } from "../types";
+
+const response = generateMockResponse("why is the sky blue", 1);
+const item: HistoryItem = {
+  id: "item-1",
+  question: "why is the sky blue",
+  answer: response.answer,
+  explain_trace: response.explain_trace,
+  timestamp: response.explain_trace.timestamp,
+};
+const conversation = createConversation();
+
+describe("readBundleFile", () => {
+  it("reads back a zipped bundle", async () => {
+    const zip = await createBundleZip(createBundle("all", [item], [conversation]), [item]);
+    const loaded = await readBundleFile(zip);
+
+    expect(loaded.bundle.items.map(i => i.id)).toEqual(["item-1"]);
+    expect(loaded.bundle.conversations.map(c => c.id)).toEqual([conversation.id]);
+  });
+
+  it("rejects a truncated archive with a BundleError", async () => {
+    const zip = await createBundleZip(createBundle("all", [item], [conversation]), [item]);
+    const bytes = new Uint8Array(await zip.arrayBuffer());
+    const truncated = new Blob([bytes.slice(0, bytes.length - 30)]);
+
+    await expect(readBundleFile(truncated)).rejects.toThrow(BundleError);
+    await expect(readBundleFile(truncated)).rejects.toThrow("not a valid NeuroViz bundle");
+  });
+});
+
+describe("mergeBundle", () => {
+  it("counts skipped traces and chats separately", async () => {
+    const loaded = await readBundleFile(new Blob([JSON.stringify(createBundle("all", [item], [conversation]))]));
+    const result = mergeBundle(loaded, [item], [conversation]);
+
+    expect(result.items).toHaveLength(0);
+    expect(result.skippedItems).toBe(1);
+    expect(result.skippedConversations).toBe(1);
+  });
+});
@@ -0,0 +1,269 @@
+import { v4 as uuidv4 } from "uuid";
+import { Conversation, GroundingDocument, HistoryItem, SourceChunk } from "../types";
+import { normalizeConversation } from "./conversations";
+import {
+  CONVERSATION_SCHEMA_VERSION,
+  HISTORY_SCHEMA_VERSION,
+  MigrationError,
+  migrateConversation,
+  migrateHistoryItem,
+} from "./schemaMigrations";
+import { createZip, isZip, readZip, ZipEntry } from "./zip";
+import { normalizeTags } from "./historySearch";
+
+// Portable JSON bundle of reasoning history, optionally zipped together with thumbnails.
+
+export const BUNDLE_FORMAT = "neuroviz-history-bundle";
+export const BUNDLE_VERSION = 1;
+
+export type BundleScope = "trace" | "conversation" | "all";
+
+export interface HistoryBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  scope: BundleScope;
+  conversations: Conversation[];
+  items: HistoryItem[]; // Without thumbnails; those travel as separate ZIP entries
+}
+
+export interface LoadedBundle {
+  bundle: HistoryBundle;
+  thumbnails: Map<string, Blob>;
+}
+
+export interface MergeResult {
+  items: HistoryItem[];
+  conversations: Conversation[];
+  thumbnails: Map<string, Blob>;
+  // Exact duplicates of what is already stored
+  skippedItems: number;
+  skippedConversations: number;
+  renamed: number;
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+const BUNDLE_JSON = "bundle.json";
+const THUMBNAIL_DIR = "thumbnails/";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const createBundle = (
+  scope: BundleScope,
+  items: HistoryItem[],
+  conversations: Conversation[] = []
+): HistoryBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  scope,
+  conversations: conversations.map(c => ({ ...c, schemaVersion: CONVERSATION_SCHEMA_VERSION })),
+  items: items.map(({ thumbnail: _thumbnail, ...rest }) => ({ ...rest, schemaVersion: HISTORY_SCHEMA_VERSION })),
+});
+
+export const serializeBundle = (bundle: HistoryBundle) => JSON.stringify(bundle, null, 2);
+
+// Thumbnails are object or data URLs in memory; both can be fetched back into blobs.
+const fetchThumbnail = async (url: string): Promise<Blob | null> => {
+  try {
+    return await (await fetch(url)).blob();
+  } catch (e) {
+    console.warn("Could not read thumbnail for export", e);
+    return null;
+  }
+};
+
+export const createBundleZip = async (bundle: HistoryBundle, sourceItems: HistoryItem[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const entries = [{ name: BUNDLE_JSON, data: encoder.encode(serializeBundle(bundle)) }];
+  for (const item of sourceItems) {
+    if (!item.thumbnail) continue;
+    const blob = await fetchThumbnail(item.thumbnail);
+    if (blob) {
+      entries.push({ name: `${THUMBNAIL_DIR}${item.id}.png`, data: new Uint8Array(await blob.arrayBuffer()) });
+    }
+  }
+  return createZip(entries);
+};
+
+// Bundles from older versions are upgraded like stored records; a failure rejects the bundle.
+const migrateOrReject = <T>(migrate: (raw: unknown) => T, raw: unknown, what: string): T => {
+  try {
+    return migrate(raw);
+  } catch (error) {
+    if (error instanceof MigrationError) throw new BundleError(`${what} ${error.message}.`);
+    throw error;
+  }
+};
+
+const validateItem = (input: unknown, index: number): HistoryItem => {
+  // The migrations check the required fields and repair the trace
+  const item = migrateOrReject(migrateHistoryItem, input, `Item ${index + 1}`);
+  const raw = item as unknown as Record<string, unknown>;
+  return {
+    ...item,
+    thumbnail: undefined,
+    title: typeof raw.title === "string" && raw.title.trim() ? raw.title : undefined,
+    pinned: raw.pinned === true || undefined,
+    tags: Array.isArray(raw.tags) ? normalizeTags(raw.tags.filter((t): t is string => typeof t === "string")) : undefined,
+    note: typeof raw.note === "string" && raw.note.trim() ? raw.note : undefined,
+    sources: Array.isArray(raw.sources)
+      ? (raw.sources as SourceChunk[]).filter(s => isRecord(s) && typeof s.id === "string" && typeof s.text === "string")
+      : undefined,
+  };
+};
+
+const validateConversation = (input: unknown, index: number): Conversation => {
+  const conversation = migrateOrReject(migrateConversation, input, `Conversation ${index + 1}`);
+  const raw = input as Record<string, unknown>;
+  return normalizeConversation({
+    id: conversation.id,
+    title: typeof raw.title === "string" && raw.title.trim() ? conversation.title : "Imported chat",
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messages: conversation.messages,
+    schemaVersion: conversation.schemaVersion,
+    documents: Array.isArray(raw.documents)
+      ? (raw.documents as GroundingDocument[]).filter(d => isRecord(d) && typeof d.id === "string" && typeof d.text === "string")
+      : undefined,
+    grounding: raw.grounding === true || undefined,
+  });
+};
+
+export const validateBundle = (raw: unknown): HistoryBundle => {
+  if (!isRecord(raw) || raw.format !== BUNDLE_FORMAT) {
+    throw new BundleError("This file is not a NeuroViz history bundle.");
+  }
+  if (typeof raw.version !== "number" || raw.version > BUNDLE_VERSION) {
+    throw new BundleError(`Unsupported bundle version ${String(raw.version)}; please update NeuroViz.`);
+  }
+  if (!Array.isArray(raw.items)) {
+    throw new BundleError("The bundle does not contain any items.");
+  }
+  return {
+    format: BUNDLE_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : new Date().toISOString(),
+    scope: (["trace", "conversation", "all"] as BundleScope[]).includes(raw.scope as BundleScope) ? raw.scope as BundleScope : "all",
+    items: raw.items.map(validateItem),
+    conversations: Array.isArray(raw.conversations) ? raw.conversations.map(validateConversation) : [],
+  };
+};
+
+const parseJson = (text: string) => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new BundleError("The bundle file is not valid JSON.");
+  }
+};
+
+// Accepts either a plain .json bundle or a .zip with bundle.json and thumbnails/<id>.png.
+export const readBundleFile = async (file: Blob): Promise<LoadedBundle> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (!isZip(bytes)) {
+    return { bundle: validateBundle(parseJson(new TextDecoder().decode(bytes))), thumbnails: new Map() };
+  }
+
+  let entries: ZipEntry[];
+  try {
+    entries = await readZip(bytes);
+  } catch (error) {
+    console.warn("Could not read bundle archive", error);
+    throw new BundleError("The archive is damaged or incomplete; it is not a valid NeuroViz bundle.");
+  }
+  const json = entries.find(e => e.name === BUNDLE_JSON || e.name.endsWith(`/${BUNDLE_JSON}`));
+  if (!json) throw new BundleError(`The archive does not contain ${BUNDLE_JSON}.`);
+
+  const thumbnails = new Map<string, Blob>();
+  entries
+    .filter(e => e.name.includes(THUMBNAIL_DIR) && e.name.endsWith(".png"))
+    .forEach(e => {
+      const id = e.name.slice(e.name.lastIndexOf("/") + 1, -".png".length);
+      thumbnails.set(id, new Blob([e.data as BlobPart], { type: "image/png" }));
+    });
+
+  return { bundle: validateBundle(parseJson(new TextDecoder().decode(json.data))), thumbnails };
+};
+
+// Two items with the same id are the same record if they were asked and answered identically.
+const sameItem = (a: HistoryItem, b: HistoryItem) =>
+  a.question === b.question && a.answer === b.answer && a.timestamp === b.timestamp;
+
+/**
+ * Prepares bundle contents for merging into the existing history. Exact duplicates are
+ * skipped; anything else whose id is already taken gets a fresh id, and references to it
+ * (message traceIds, item conversationIds, thumbnails) are rewritten accordingly.
+ */
+export const mergeBundle = (
+  loaded: LoadedBundle,
+  existingItems: HistoryItem[],
+  existingConversations: Conversation[]
+): MergeResult => {
+  const itemsById = new Map(existingItems.map(i => [i.id, i]));
+  const conversationsById = new Map(existingConversations.map(c => [c.id, c]));
+  const itemIdMap = new Map<string, string>();
+  const conversationIdMap = new Map<string, string>();
+  let skippedItems = 0;
+  let skippedConversations = 0;
+  let renamed = 0;
+
+  const items: HistoryItem[] = [];
+  const thumbnails = new Map<string, Blob>();
+  loaded.bundle.items.forEach(item => {
+    const existing = itemsById.get(item.id);
+    if (existing && sameItem(existing, item)) {
+      skippedItems++;
+      itemIdMap.set(item.id, existing.id);
+      return;
+    }
+    const id = existing ? uuidv4() : item.id;
+    if (existing) renamed++;
+    itemIdMap.set(item.id, id);
+    itemsById.set(id, item);
+    items.push({ ...item, id });
+    const thumbnail = loaded.thumbnails.get(item.id);
+    if (thumbnail) thumbnails.set(id, thumbnail);
+  });
+
+  const conversations: Conversation[] = [];
+  loaded.bundle.conversations.forEach(conversation => {
+    const existing = conversationsById.get(conversation.id);
+    if (existing && existing.createdAt === conversation.createdAt) {
+      skippedConversations++;
+      return;
+    }
+    const id = existing ? uuidv4() : conversation.id;
+    if (existing) renamed++;
+    conversationsById.set(id, conversation);
+    conversationIdMap.set(conversation.id, id);
+    conversations.push({
+      ...conversation,
+      id,
+      messages: conversation.messages.map(m => ({
+        ...m,
+        traceId: m.traceId ? itemIdMap.get(m.traceId) ?? m.traceId : undefined,
+        versions: m.versions?.map(v => ({ ...v, traceId: v.traceId ? itemIdMap.get(v.traceId) ?? v.traceId : undefined })),
+      })),
+    });
+  });
+
+  return {
+    items: items.map(item => ({
+      ...item,
+      conversationId: item.conversationId ? conversationIdMap.get(item.conversationId) ?? item.conversationId : undefined,
+    })),
+    conversations,
+    thumbnails,
+    skippedItems,
+    skippedConversations,
+    renamed,
+  };
+};
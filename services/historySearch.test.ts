@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_FILTERS, buildSnippet, parseQuery, searchHistory } from "./historySearch";
+import { HistoryItem, Node } from "../types";
+
+const historyItem = (id: string, question: string, timestamp: string, extra: Partial<HistoryItem> = {}, nodes: Node[] = []): HistoryItem => ({
+  id,
+  question,
+  answer: "",
+  explain_trace: {
+    stages: [{ id: "s1", label: "Recall", description: "", weight: 1 }],
+    nodes,
+    edges: [],
+    steps: [],
+    key_factors: [],
+    confidence: "medium",
+    timestamp,
+  },
+  timestamp,
+  ...extra,
+});
+
+const node = (id: string, label: string): Node => ({ id, label, type: "fact", importance: 0.5, stage_id: "s1" });
+
+describe("parseQuery", () => {
+  it("lowercases terms and keeps quoted phrases together", () => {
+    expect(parseQuery('Rayleigh  "Blue Light" sky')).toEqual(["rayleigh", "blue light", "sky"]);
+    expect(parseQuery("   ")).toEqual([]);
+  });
+});
+
+describe("searchHistory", () => {
+  const items = [
+    historyItem("answer-only", "Why do sunsets look red?", "2024-01-03T12:00:00.000Z", { answer: "Blue light scatters away." }),
+    historyItem("question", "Why is blue light scattered more?", "2024-01-01T12:00:00.000Z", {}, [
+      node("n1", "Short wavelengths"),
+      node("n2", "Blue light scatters"),
+    ]),
+    historyItem("unrelated", "How do tides work?", "2024-01-02T12:00:00.000Z"),
+  ];
+
+  it("requires every term and ranks by weighted matches", () => {
+    const results = searchHistory(items, { ...EMPTY_FILTERS, query: "blue light" }, "relevance");
+
+    expect(results.map(r => r.item.id)).toEqual(["question", "answer-only"]);
+    expect(results[0].matches.map(m => m.field)).toEqual(["question", "node"]);
+    expect(results[0].focusNodeId).toBe("n2");
+    expect(results[1].focusNodeId).toBeUndefined();
+  });
+
+  it("falls back to newest first when there is nothing to rank by, with pinned items on top", () => {
+    const pinned = items.map(i => (i.id === "question" ? { ...i, pinned: true } : i));
+
+    expect(searchHistory(items, EMPTY_FILTERS, "relevance").map(r => r.item.id)).toEqual(["answer-only", "unrelated", "question"]);
+    expect(searchHistory(pinned, EMPTY_FILTERS).map(r => r.item.id)).toEqual(["question", "answer-only", "unrelated"]);
+  });
+
+  it("filters by inclusive day range", () => {
+    const results = searchHistory(items, { ...EMPTY_FILTERS, from: "2024-01-02", to: "2024-01-02" });
+
+    expect(results.map(r => r.item.id)).toEqual(["unrelated"]);
+  });
+});
+
+describe("buildSnippet", () => {
+  it("highlights the terms found in the excerpt", () => {
+    expect(buildSnippet("Blue light scatters", ["light"])).toEqual([
+      { text: "Blue ", highlight: false },
+      { text: "light", highlight: true },
+      { text: " scatters", highlight: false },
+    ]);
+  });
+});
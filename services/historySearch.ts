@@ -0,0 +1,207 @@
+import { ExplainTrace, HistoryItem, Node } from "../types";
+
+// Full-text search, filtering and sorting over the reasoning history shown in the gallery.
+
+export type HistorySort = "newest" | "oldest" | "relevance" | "confidence" | "size";
+
+export const HISTORY_SORT_OPTIONS: { id: HistorySort; label: string }[] = [
+  { id: "newest", label: "Newest first" },
+  { id: "oldest", label: "Oldest first" },
+  { id: "relevance", label: "Best match" },
+  { id: "confidence", label: "Confidence" },
+  { id: "size", label: "Largest graph" },
+];
+
+export interface HistoryFilters {
+  query: string;
+  // Empty lists mean "any"
+  confidence: ExplainTrace["confidence"][];
+  nodeTypes: Node["type"][];
+  // Inclusive calendar days, as produced by <input type="date"> (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+  conversationId?: string | null;
+  // Items must carry all of these tags
+  tags: string[];
+  pinnedOnly: boolean;
+}
+
+export const EMPTY_FILTERS: HistoryFilters = { query: "", confidence: [], nodeTypes: [], tags: [], pinnedOnly: false };
+
+export type MatchField = "title" | "question" | "tag" | "answer" | "node" | "step" | "key_factor" | "note";
+
+export interface SearchMatch {
+  field: MatchField;
+  text: string;
+  nodeId?: string;
+}
+
+export interface SearchResult {
+  item: HistoryItem;
+  score: number;
+  matches: SearchMatch[];
+  // Best matching node, focused when the result is opened
+  focusNodeId?: string;
+}
+
+const FIELD_WEIGHTS: Record<MatchField, number> = {
+  title: 3,
+  question: 3,
+  tag: 2,
+  note: 1,
+  node: 2,
+  key_factor: 1.5,
+  step: 1,
+  answer: 1,
+};
+
+const CONFIDENCE_RANK: Record<ExplainTrace["confidence"], number> = { high: 3, medium: 2, low: 1 };
+
+// Splits a query into lowercase terms; "quoted phrases" stay together.
+export const parseQuery = (query: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /"([^"]+)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    const term = (match[1] ?? match[2]).trim().toLowerCase();
+    if (term) terms.push(term);
+  }
+  return terms;
+};
+
+export const hasActiveFilters = (filters: HistoryFilters) =>
+  Boolean(
+    filters.query.trim() || filters.confidence.length || filters.nodeTypes.length || filters.from || filters.to ||
+    filters.conversationId || filters.tags.length || filters.pinnedOnly
+  );
+
+// Tags are trimmed, lowercased and unique so that filtering by them is predictable.
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(t => t.trim().toLowerCase().replace(/\s+/g, "-")).filter(Boolean)));
+
+// Every tag in use, most frequent first.
+export const collectTags = (items: HistoryItem[]): string[] => {
+  const counts = new Map<string, number>();
+  items.forEach(item => (item.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+};
+
+const countOccurrences = (haystack: string, needle: string) => {
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+};
+
+const searchableFields = (item: HistoryItem): SearchMatch[] => [
+  ...(item.title ? [{ field: "title" as const, text: item.title }] : []),
+  { field: "question", text: item.question },
+  ...(item.tags || []).map(text => ({ field: "tag" as const, text })),
+  ...(item.note ? [{ field: "note" as const, text: item.note }] : []),
+  { field: "answer", text: item.answer },
+  ...item.explain_trace.nodes.map(n => ({ field: "node" as const, text: n.label, nodeId: n.id })),
+  ...item.explain_trace.steps.map(text => ({ field: "step" as const, text })),
+  ...item.explain_trace.key_factors.map(text => ({ field: "key_factor" as const, text })),
+];
+
+// Every term has to appear somewhere in the item; fields are weighted by how telling they are.
+const scoreItem = (item: HistoryItem, terms: string[]): Omit<SearchResult, "item"> | null => {
+  if (terms.length === 0) return { score: 0, matches: [] };
+
+  const fields = searchableFields(item).map(f => ({ ...f, lower: f.text.toLowerCase() }));
+  let score = 0;
+  const matched = new Set<number>();
+  for (const term of terms) {
+    let found = false;
+    fields.forEach((f, i) => {
+      const hits = countOccurrences(f.lower, term);
+      if (hits > 0) {
+        found = true;
+        matched.add(i);
+        score += hits * FIELD_WEIGHTS[f.field];
+      }
+    });
+    if (!found) return null;
+  }
+
+  const matches = Array.from(matched)
+    .map(i => fields[i])
+    .sort((a, b) => FIELD_WEIGHTS[b.field] - FIELD_WEIGHTS[a.field])
+    .map(({ field, text, nodeId }) => ({ field, text, nodeId }));
+  const nodeMatch = matches
+    .filter(m => m.nodeId)
+    .sort((a, b) => terms.filter(t => b.text.toLowerCase().includes(t)).length - terms.filter(t => a.text.toLowerCase().includes(t)).length)[0];
+  return { score, matches, focusNodeId: nodeMatch?.nodeId };
+};
+
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const passesFilters = (item: HistoryItem, filters: HistoryFilters) => {
+  const trace = item.explain_trace;
+  if (filters.confidence.length > 0 && !filters.confidence.includes(trace.confidence)) return false;
+  if (filters.nodeTypes.length > 0 && !filters.nodeTypes.every(type => trace.nodes.some(n => n.type === type))) return false;
+  if (filters.conversationId && item.conversationId !== filters.conversationId) return false;
+  if (filters.pinnedOnly && !item.pinned) return false;
+  if (filters.tags.length > 0 && !filters.tags.every(tag => item.tags?.includes(tag))) return false;
+  const time = Date.parse(item.timestamp);
+  if (filters.from && time < dayStart(filters.from)) return false;
+  if (filters.to && time >= dayStart(filters.to) + DAY_MS) return false;
+  return true;
+};
+
+const compareResults = (sort: HistorySort) => (a: SearchResult, b: SearchResult): number => {
+  const newestFirst = b.item.timestamp.localeCompare(a.item.timestamp);
+  switch (sort) {
+    case "oldest": return -newestFirst;
+    case "relevance": return b.score - a.score || newestFirst;
+    case "confidence":
+      return CONFIDENCE_RANK[b.item.explain_trace.confidence] - CONFIDENCE_RANK[a.item.explain_trace.confidence] || newestFirst;
+    case "size": return b.item.explain_trace.nodes.length - a.item.explain_trace.nodes.length || newestFirst;
+    default: return newestFirst;
+  }
+};
+
+export const searchHistory = (items: HistoryItem[], filters: HistoryFilters, sort: HistorySort = "newest"): SearchResult[] => {
+  const terms = parseQuery(filters.query);
+  const results: SearchResult[] = [];
+  items.forEach(item => {
+    if (!passesFilters(item, filters)) return;
+    const scored = scoreItem(item, terms);
+    if (scored) results.push({ item, ...scored });
+  });
+  // Without a query there is nothing to rank by relevance
+  const effectiveSort = sort === "relevance" && terms.length === 0 ? "newest" : sort;
+  const compare = compareResults(effectiveSort);
+  // Pinned items always come first
+  return results.sort((a, b) => Number(Boolean(b.item.pinned)) - Number(Boolean(a.item.pinned)) || compare(a, b));
+};
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+const SNIPPET_RADIUS = 40;
+
+// A short excerpt around the first term found in `text`, split into highlighted parts.
+export const buildSnippet = (text: string, terms: string[]): SnippetPart[] => {
+  const lower = text.toLowerCase();
+  const positions = terms.map(t => lower.indexOf(t)).filter(i => i >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = first > SNIPPET_RADIUS ? first - SNIPPET_RADIUS : 0;
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+  const excerpt = `${start > 0 ? "…" : ""}${text.slice(start, end)}${end < text.length ? "…" : ""}`;
+
+  if (terms.length === 0) return [{ text: excerpt, highlight: false }];
+  const escaped = terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return excerpt
+    .split(new RegExp(`(${escaped.join("|")})`, "gi"))
+    .filter(Boolean)
+    .map(part => ({ text: part, highlight: terms.includes(part.toLowerCase()) }));
+};
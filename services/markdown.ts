@@ -0,0 +1,101 @@
+// Parser for the small markdown subset used in history notes: headings, paragraphs, bullet
+// and numbered lists, fenced code, **bold**, *italic*, `code` and [links](https://...).
+// Produces a plain tree that components render as React elements, so no HTML is injected.
+
+export type InlineToken =
+  | { type: "text" | "bold" | "italic" | "code"; text: string }
+  | { type: "link"; text: string; href: string };
+
+export type MarkdownBlock =
+  | { type: "heading"; level: 1 | 2 | 3; content: InlineToken[] }
+  | { type: "paragraph"; content: InlineToken[] }
+  | { type: "list"; ordered: boolean; items: InlineToken[][] }
+  | { type: "code"; text: string };
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\*[^*\s][^*]*\*|_[^_\s][^_]*_|\[[^\]]+\]\([^)\s]+\))/g;
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+export const parseInline = (text: string): InlineToken[] => {
+  const tokens: InlineToken[] = [];
+  text.split(INLINE_PATTERN).forEach(part => {
+    if (!part) return;
+    if ((part.startsWith("**") && part.endsWith("**")) || (part.startsWith("__") && part.endsWith("__"))) {
+      tokens.push({ type: "bold", text: part.slice(2, -2) });
+    } else if (part.startsWith("`") && part.endsWith("`")) {
+      tokens.push({ type: "code", text: part.slice(1, -1) });
+    } else if (part.length > 2 && ((part.startsWith("*") && part.endsWith("*")) || (part.startsWith("_") && part.endsWith("_")))) {
+      tokens.push({ type: "italic", text: part.slice(1, -1) });
+    } else if (part.startsWith("[")) {
+      const match = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(part);
+      if (match && SAFE_LINK.test(match[2])) {
+        tokens.push({ type: "link", text: match[1], href: match[2] });
+      } else {
+        tokens.push({ type: "text", text: match ? match[1] : part });
+      }
+    } else {
+      tokens.push({ type: "text", text: part });
+    }
+  });
+  return tokens;
+};
+
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const FENCE = /^```/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: "paragraph", content: parseInline(paragraph.join(" ")) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line.trim())) {
+      flushParagraph();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i].trim())) code.push(lines[i++]);
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: "heading", level: heading[1].length as 1 | 2 | 3, content: parseInline(heading[2]) });
+      continue;
+    }
+
+    const bullet = BULLET.exec(line);
+    const numbered = bullet ? null : NUMBERED.exec(line);
+    if (bullet || numbered) {
+      flushParagraph();
+      const ordered = Boolean(numbered);
+      const item = parseInline((bullet || numbered)![1]);
+      const last = blocks[blocks.length - 1];
+      if (last?.type === "list" && last.ordered === ordered && lines[i - 1]?.trim()) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: "list", ordered, items: [item] });
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+    paragraph.push(line.trim());
+  }
+  flushParagraph();
+  return blocks;
+};
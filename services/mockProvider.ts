@@ -0,0 +1,220 @@
+import { Edge, ExplainTrace, GeminiResponse, Node, SourceChunk, Stage } from "../types";
+import type { GenerateOptions, ReasoningProvider, ReasoningRequest } from "./reasoningProvider";
+import { createPartialReasoningStream } from "./reasoningPrompt";
+import { abortableSleep } from "./reasoningClient";
+import { confidenceForScore } from "./uncertainty";
+
+export interface MockProviderConfig {
+  // Simulated generation time so the thinking animation is visible.
+  latencyMs?: number;
+  // Extra seed mixed into the prompt hash; same prompt + seed always yields the same trace.
+  seed?: number;
+}
+
+const DEFAULT_LATENCY_MS = 900;
+const STREAM_CHUNK_SIZE = 48;
+
+const STOP_WORDS = new Set([
+  "about", "after", "again", "also", "because", "been", "before", "being", "between", "could",
+  "does", "doing", "from", "have", "having", "here", "into", "just", "more", "most", "other",
+  "over", "really", "should", "some", "such", "than", "that", "their", "them", "then", "there",
+  "these", "they", "this", "those", "through", "very", "want", "were", "what", "when", "where",
+  "which", "while", "will", "with", "would", "your", "explain", "tell", "please", "know",
+]);
+
+const STAGES: Omit<Stage, "weight">[] = [
+  { id: "s1", label: "Comprehension", description: "Parse the question and identify what is being asked." },
+  { id: "s2", label: "Retrieval", description: "Recall facts and context relevant to the question." },
+  { id: "s3", label: "Synthesis", description: "Combine facts, weigh constraints and derive intermediate results." },
+  { id: "s4", label: "Formulation", description: "Shape the conclusion into a clear answer." },
+];
+
+const FACT_TEMPLATES = [
+  "Definition of {k}",
+  "Known properties of {k}",
+  "Common examples of {k}",
+  "History of {k}",
+  "How {k} is measured",
+];
+
+const INTERMEDIATE_TEMPLATES = [
+  "Relationship between {a} and {b}",
+  "Implications of {a}",
+  "Trade-offs around {a}",
+];
+
+const RELATIONS = ["informs", "supports", "refines", "constrains", "leads to", "depends on"];
+
+// FNV-1a string hash, used to seed the generator from the prompt.
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 - tiny deterministic PRNG.
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const extractKeywords = (prompt: string): string[] => {
+  const seen = new Set<string>();
+  const words = prompt.toLowerCase().match(/[a-z][a-z0-9-]{3,}/g) || [];
+  words.forEach(w => {
+    if (!STOP_WORDS.has(w)) seen.add(w);
+  });
+  const keywords = Array.from(seen).slice(0, 5);
+  return keywords.length > 0 ? keywords : ["the topic"];
+};
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+// First sentence of an excerpt, used as the label of the fact node citing it.
+const firstSentence = (text: string) => text.replace(/\s+/g, " ").trim().split(/(?<=[.!?])\s/)[0];
+
+/**
+ * Generates a plausible, fully deterministic reasoning trace for a prompt.
+ * Useful for UI development and demos without network access. With `sources`, each fact
+ * node stands for one excerpt and cites it.
+ */
+export const generateMockResponse = (prompt: string, seed = 0, sources: SourceChunk[] = []): GeminiResponse => {
+  const random = createRandom(hashString(prompt) ^ seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const keywords = extractKeywords(prompt);
+
+  const stages: Stage[] = STAGES.map((s, i) => ({ ...s, weight: round2(0.15 + i * 0.05 + random() * 0.2) }));
+  const nodes: Node[] = [];
+  const edges: Edge[] = [];
+
+  // Overall score first; node certainty scatters around it so a few nodes end up doubtful
+  const confidenceScore = round2(0.25 + random() * 0.7);
+
+  const addNode = (label: string, type: Node["type"], stage_id: string, base: number): Node => {
+    const node: Node = {
+      id: `n${nodes.length + 1}`,
+      label,
+      type,
+      importance: round2(Math.min(1, base + random() * 0.3)),
+      certainty: round2(Math.max(0.05, Math.min(1, confidenceScore + (random() - 0.4) * 0.6))),
+      stage_id,
+    };
+    nodes.push(node);
+    return node;
+  };
+
+  const link = (source: Node, target: Node) => {
+    edges.push({
+      source: source.id,
+      target: target.id,
+      relation_label: pick(RELATIONS),
+      strength: round2(0.4 + random() * 0.6),
+      certainty: round2(Math.min(source.certainty ?? 1, target.certainty ?? 1)),
+    });
+  };
+
+  // Comprehension
+  const intent = addNode(`Question: ${truncate(prompt.trim(), 40)}`, "intent", "s1", 0.7);
+  const context = addNode(`Scope of ${keywords[0]}`, "context", "s1", 0.4);
+  link(intent, context);
+
+  // Retrieval
+  const facts = sources.length > 0
+    ? sources.slice(0, 3).map(source => {
+        const fact = addNode(truncate(firstSentence(source.text), 48), "fact", "s2", 0.5);
+        fact.sources = [source.id];
+        // A quoted excerpt is about as certain as a fact gets
+        fact.certainty = round2(Math.max(fact.certainty ?? 0, 0.85));
+        return fact;
+      })
+    : keywords.slice(0, 3).map(k => addNode(pick(FACT_TEMPLATES).replace("{k}", k), "fact", "s2", 0.5));
+  facts.forEach(f => link(random() > 0.3 ? intent : context, f));
+
+  // Synthesis
+  const constraint = random() > 0.4 ? addNode(`Limits of available knowledge on ${keywords[0]}`, "constraint", "s3", 0.3) : null;
+  const intermediates = [0, 1].map(i => {
+    const a = keywords[i % keywords.length];
+    const b = keywords[(i + 1) % keywords.length];
+    return addNode(pick(INTERMEDIATE_TEMPLATES).replace("{a}", a).replace("{b}", b), "intermediate", "s3", 0.5);
+  });
+  facts.forEach((f, i) => link(f, intermediates[i % intermediates.length]));
+  if (constraint) link(constraint, intermediates[0]);
+
+  // Formulation
+  const conclusion = addNode(`Answer about ${keywords.slice(0, 2).join(" & ")}`, "conclusion", "s4", 0.7);
+  intermediates.forEach(im => link(im, conclusion));
+
+  const confidence: ExplainTrace["confidence"] = confidenceForScore(confidenceScore);
+  const topic = keywords.slice(0, 3).join(", ");
+
+  return {
+    answer: `This is an offline mock answer about ${topic}. ` +
+      (sources.length > 0 ? `It cites ${facts.length} of the ${sources.length} retrieved excerpts. ` : "") +
+      `It was generated locally from the question so the reasoning visualization can be explored without a live model. ` +
+      `Switch NEUROVIZ_PROVIDER to a real backend for genuine answers.`,
+    explain_trace: {
+      stages,
+      nodes,
+      edges,
+      steps: [
+        `Identified the intent of the question about ${keywords[0]}.`,
+        sources.length > 0
+          ? `Read ${facts.length} excerpts from the attached documents.`
+          : `Recalled ${facts.length} relevant facts about ${topic}.`,
+        constraint ? "Weighed the relevant constraints against the facts." : "Combined the facts into intermediate conclusions.",
+        "Formulated a concise answer from the intermediate results.",
+      ],
+      step_node_ids: [
+        [intent.id, context.id],
+        facts.map(f => f.id),
+        [...intermediates.map(im => im.id), ...(constraint ? [constraint.id] : [])],
+        [conclusion.id],
+      ],
+      key_factors: facts.map(f => f.label),
+      confidence,
+      confidence_score: confidenceScore,
+      timestamp: new Date().toISOString(),
+    },
+  };
+};
+
+export const createMockProvider = (config: MockProviderConfig = {}): ReasoningProvider => ({
+  id: "mock",
+  label: "Offline mock",
+  generate: async (request: ReasoningRequest, options: GenerateOptions = {}) => {
+    const latency = config.latencyMs ?? DEFAULT_LATENCY_MS;
+    // Each self-consistency sample gets its own seed so the samples disagree somewhat
+    const seed = (config.seed ?? 0) + (request.sample ?? 0) * 7919;
+    const response = generateMockResponse(request.prompt, seed, request.sources);
+    if (!options.onPartial) {
+      await abortableSleep(latency, options.signal);
+      return response;
+    }
+
+    // Replay the serialized response in small chunks, like a real streaming backend.
+    const text = JSON.stringify(response);
+    const chunkCount = Math.ceil(text.length / STREAM_CHUNK_SIZE);
+    const stream = createPartialReasoningStream(options.onPartial);
+    try {
+      for (let i = 0; i < chunkCount; i++) {
+        await abortableSleep((latency * 2) / chunkCount, options.signal);
+        stream.push(text.slice(i * STREAM_CHUNK_SIZE, (i + 1) * STREAM_CHUNK_SIZE));
+      }
+    } finally {
+      stream.close();
+    }
+    return response;
+  },
+});
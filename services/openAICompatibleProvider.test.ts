@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import { createOpenAICompatibleProvider, resolveCompletionsUrl } from "./openAICompatibleProvider";
+import { generateMockResponse } from "./mockProvider";
+import { ReasoningError } from "./reasoningErrors";
+import { strictResponseJsonSchema } from "./reasoningPrompt";
+
+const expected = generateMockResponse("why is the sky blue", 1);
+
+interface RecordedCall {
+  url: string;
+  init: RequestInit;
+}
+
+// Stands in for an OpenAI-compatible server, answering every request with `respond`.
+const stubEndpoint = (respond: () => Response) => {
+  const calls: RecordedCall[] = [];
+  const fetchImpl = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    calls.push({ url: String(input), init });
+    return respond();
+  }) as typeof fetch;
+  return { calls, fetchImpl };
+};
+
+const completion = (message: Record<string, unknown>) =>
+  new Response(JSON.stringify({ object: "chat.completion", choices: [{ index: 0, message }] }), {
+    headers: { "Content-Type": "application/json" },
+  });
+
+const request = { prompt: "why is the sky blue", history: [] };
+
+describe("resolveCompletionsUrl", () => {
+  it("accepts a bare host, a /v1 base or the full completions URL", () => {
+    expect(resolveCompletionsUrl("http://stub:8080")).toBe("http://stub:8080/v1/chat/completions");
+    expect(resolveCompletionsUrl("http://stub:8080/v1/")).toBe("http://stub:8080/v1/chat/completions");
+    expect(resolveCompletionsUrl("http://stub:8080/v1/chat/completions")).toBe("http://stub:8080/v1/chat/completions");
+  });
+});
+
+describe("OpenAI-compatible provider", () => {
+  it("posts a json_schema request and parses the message content", async () => {
+    const { calls, fetchImpl } = stubEndpoint(() =>
+      completion({ role: "assistant", content: JSON.stringify(expected) })
+    );
+    const provider = createOpenAICompatibleProvider({ baseUrl: "http://stub:8080", model: "test-model", apiKey: "sk-test", fetchImpl });
+
+    const result = await provider.generate(request);
+
+    expect(result.answer).toBe(expected.answer);
+    expect(result.explain_trace.nodes.map(n => n.id)).toEqual(expected.explain_trace.nodes.map(n => n.id));
+    expect(calls).toHaveLength(1);
+    expect(calls[0].url).toBe("http://stub:8080/v1/chat/completions");
+    expect((calls[0].init.headers as Record<string, string>).Authorization).toBe("Bearer sk-test");
+    const body = JSON.parse(String(calls[0].init.body));
+    expect(body.model).toBe("test-model");
+    expect(body.stream).toBe(false);
+    expect(body.response_format.type).toBe("json_schema");
+    expect(body.response_format.json_schema.strict).toBe(true);
+    expect(body.messages[0].role).toBe("system");
+    expect(body.messages.at(-1)).toEqual({ role: "user", content: expect.stringContaining("why is the sky blue") });
+  });
+
+  it("reads the arguments of the forced tool call in tool mode", async () => {
+    const { calls, fetchImpl } = stubEndpoint(() =>
+      completion({
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "submit_reasoning", arguments: JSON.stringify(expected) } }],
+      })
+    );
+    const provider = createOpenAICompatibleProvider({ baseUrl: "http://stub:8080/v1", structuredOutput: "tool", fetchImpl });
+
+    const result = await provider.generate(request);
+
+    expect(result.answer).toBe(expected.answer);
+    const body = JSON.parse(String(calls[0].init.body));
+    expect(body.tools[0].function.name).toBe("submit_reasoning");
+    expect(body.response_format).toBeUndefined();
+  });
+
+  it("maps a 429 to a rate_limit error honouring retry-after", async () => {
+    const { fetchImpl } = stubEndpoint(() =>
+      new Response("slow down", { status: 429, headers: { "retry-after": "3" } })
+    );
+    const provider = createOpenAICompatibleProvider({ fetchImpl });
+
+    const error = await provider.generate(request).catch(e => e);
+
+    expect(error).toBeInstanceOf(ReasoningError);
+    expect(error).toMatchObject({ kind: "rate_limit", status: 429, retryAfterMs: 3000 });
+  });
+
+  it("reports unparseable content as a parse error with the raw output", async () => {
+    const { fetchImpl } = stubEndpoint(() => completion({ role: "assistant", content: "not json" }));
+    const provider = createOpenAICompatibleProvider({ fetchImpl });
+
+    await expect(provider.generate(request)).rejects.toMatchObject({ kind: "parse", rawOutput: "not json" });
+  });
+});
+
+describe("strict json_schema", () => {
+  type Schema = { properties?: Record<string, Schema>; items?: Schema; required?: string[]; additionalProperties?: boolean };
+  const objects = (schema: Schema): Schema[] => [
+    ...(schema.properties ? [schema, ...Object.values(schema.properties).flatMap(objects)] : []),
+    ...(schema.items ? objects(schema.items) : []),
+  ];
+
+  it("requires every property and forbids extra ones, with optional fields nullable", () => {
+    const schema = strictResponseJsonSchema as Schema;
+
+    objects(schema).forEach(object => {
+      expect(object.required).toEqual(Object.keys(object.properties!));
+      expect(object.additionalProperties).toBe(false);
+    });
+    expect(schema.properties!.explain_trace.properties!.confidence_score).toMatchObject({ type: ["number", "null"] });
+    expect(schema.properties!.explain_trace.properties!.confidence).toMatchObject({ type: "string" });
+  });
+
+  it("accepts the nulls a strict model sends for fields it leaves out", async () => {
+    const trace = expected.explain_trace;
+    const strictOutput = {
+      answer: expected.answer,
+      explain_trace: {
+        ...trace,
+        nodes: trace.nodes.map(n => ({ ...n, certainty: null, sources: null })),
+        edges: trace.edges.map(e => ({ ...e, certainty: null })),
+        step_node_ids: null,
+        key_factors: null,
+        confidence_score: null,
+      },
+    };
+    const { fetchImpl } = stubEndpoint(() => completion({ role: "assistant", content: JSON.stringify(strictOutput) }));
+
+    const result = await createOpenAICompatibleProvider({ fetchImpl }).generate(request);
+
+    expect(result.issues ?? []).toEqual([]);
+    expect(result.explain_trace.step_node_ids).toBeUndefined();
+    expect(result.explain_trace.key_factors).toEqual([]);
+  });
+});
+
+describe("OpenAI-compatible streaming", () => {
+  const sse = (lines: string[]) =>
+    new Response(lines.map(line => `${line}\n\n`).join(""), { headers: { "Content-Type": "text/event-stream" } });
+  const chunk = (content: string) => `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}`;
+
+  it("concatenates content deltas and ignores comments and the [DONE] marker", async () => {
+    const text = JSON.stringify(expected);
+    const half = Math.floor(text.length / 2);
+    const { fetchImpl } = stubEndpoint(() => sse([": keep-alive", chunk(text.slice(0, half)), chunk(text.slice(half)), "data: [DONE]"]));
+    const provider = createOpenAICompatibleProvider({ fetchImpl });
+
+    const result = await provider.generate(request, { onPartial: () => {} });
+
+    expect(result.answer).toBe(expected.answer);
+  });
+
+  it("turns a malformed chunk into a parse error carrying the output so far", async () => {
+    const { fetchImpl } = stubEndpoint(() => sse([chunk('{"answer": "Ray'), "data: {not json"]));
+    const provider = createOpenAICompatibleProvider({ fetchImpl });
+
+    await expect(provider.generate(request, { onPartial: () => {} })).rejects.toMatchObject({
+      kind: "parse",
+      rawOutput: '{"answer": "Ray',
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { GeminiResponse } from "../types";
+import type { GenerateOptions, PartialReasoning, ReasoningProvider, ReasoningRequest } from "./reasoningProvider";
+import {
+  SYSTEM_INSTRUCTION,
+  responseJsonSchema,
+  strictResponseJsonSchema,
+  parseReasoningResponse,
+  buildRequestTurns,
+  createPartialReasoningStream,
+} from "./reasoningPrompt";
+import { ReasoningError, kindForStatus, isAbortError, toReasoningError } from "./reasoningErrors";
+
+// How the response structure is enforced. Servers differ in what they support:
+// - json_schema: `response_format` with the full schema in strict form (vLLM, llama.cpp, recent OpenAI)
+// - json_object: plain JSON mode, the schema is only described in the system prompt (Ollama)
+// - tool: a forced function call whose parameters are the schema
+export type StructuredOutputMode = "json_schema" | "json_object" | "tool";
+
+export interface OpenAICompatibleConfig {
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  structuredOutput?: StructuredOutputMode;
+  temperature?: number;
+  // Injectable for pointing at stub servers or mocking in tests.
+  fetchImpl?: typeof fetch;
+}
+
+const DEFAULT_BASE_URL = "http://localhost:8080/v1";
+const DEFAULT_MODEL = "local-model";
+const TOOL_NAME = "submit_reasoning";
+
+// The parts of a chat.completion response this adapter reads
+interface ToolCall {
+  function?: { name?: string; arguments?: string };
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null; tool_calls?: ToolCall[] } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null; tool_calls?: ToolCall[] } }[];
+}
+
+const STRUCTURED_OUTPUT_MODES: StructuredOutputMode[] = ["json_schema", "json_object", "tool"];
+
+export const parseStructuredOutputMode = (value?: string): StructuredOutputMode =>
+  (STRUCTURED_OUTPUT_MODES as string[]).includes(value || "") ? (value as StructuredOutputMode) : "json_schema";
+
+// Accepts "http://host:port", "http://host:port/v1" or the full completions URL.
+export const resolveCompletionsUrl = (baseUrl = DEFAULT_BASE_URL): string => {
+  const trimmed = baseUrl.trim().replace(/\/+$/, "");
+  if (trimmed.endsWith("/chat/completions")) return trimmed;
+  if (/\/v\d+$/.test(trimmed)) return `${trimmed}/chat/completions`;
+  return `${trimmed}/v1/chat/completions`;
+};
+
+const buildRequestBody = (request: ReasoningRequest, config: OpenAICompatibleConfig, stream: boolean) => {
+  const mode = config.structuredOutput || "json_schema";
+  const messages = [
+    { role: "system", content: SYSTEM_INSTRUCTION },
+    ...buildRequestTurns(request).map(turn => ({
+      role: turn.role === "model" ? "assistant" : "user",
+      content: turn.text,
+    })),
+  ];
+
+  const body: Record<string, unknown> = {
+    model: config.model || DEFAULT_MODEL,
+    messages,
+    temperature: config.temperature ?? 0.4,
+    stream,
+  };
+
+  if (mode === "json_schema") {
+    body.response_format = {
+      type: "json_schema",
+      json_schema: { name: "neuroviz_response", strict: true, schema: strictResponseJsonSchema },
+    };
+  } else if (mode === "json_object") {
+    body.response_format = { type: "json_object" };
+  } else {
+    body.tools = [{
+      type: "function",
+      function: {
+        name: TOOL_NAME,
+        description: "Submit the answer together with its explain_trace.",
+        parameters: responseJsonSchema,
+      },
+    }];
+    body.tool_choice = { type: "function", function: { name: TOOL_NAME } };
+  }
+
+  return body;
+};
+
+// Pulls the JSON text out of either the tool call arguments or the message content.
+const extractOutputText = (payload: ChatCompletionResponse | null): string | undefined => {
+  const message = payload?.choices?.[0]?.message;
+  if (!message) return undefined;
+  const toolCall = (message.tool_calls || []).find(call => call?.function?.name === TOOL_NAME)
+    || message.tool_calls?.[0];
+  if (toolCall?.function?.arguments) {
+    return toolCall.function.arguments;
+  }
+  return typeof message.content === "string" ? message.content : undefined;
+};
+
+// Reads a server-sent event stream of chat.completion.chunk payloads, forwarding the
+// content (or tool call argument) deltas, and returns the concatenated output.
+const readCompletionStream = async (
+  body: ReadableStream<Uint8Array>,
+  onPartial: (partial: PartialReasoning) => void
+): Promise<string> => {
+  const stream = createPartialReasoningStream(onPartial);
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  const handleLine = (line: string) => {
+    const data = line.replace(/^data:\s*/, "");
+    if (!line.startsWith("data:") || data === "[DONE]") return;
+    let chunk: ChatCompletionChunk | null;
+    try {
+      chunk = JSON.parse(data);
+    } catch (error) {
+      throw new ReasoningError("parse", `Malformed stream chunk from model: ${data.slice(0, 200)}`, {
+        rawOutput: stream.text,
+        cause: error,
+      });
+    }
+    const delta = chunk?.choices?.[0]?.delta;
+    const piece = delta?.tool_calls?.[0]?.function?.arguments ?? delta?.content;
+    if (typeof piece === "string" && piece) stream.push(piece);
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split("\n");
+      pending = lines.pop() ?? "";
+      lines.forEach(line => handleLine(line.trim()));
+    }
+    handleLine(pending.trim());
+    return stream.text;
+  } finally {
+    stream.close();
+  }
+};
+
+export const fetchOpenAICompatibleResponse = async (
+  request: ReasoningRequest,
+  config: OpenAICompatibleConfig,
+  options: GenerateOptions = {}
+): Promise<GeminiResponse> => {
+  const fetchImpl = config.fetchImpl || fetch;
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  try {
+    const response = await fetchImpl(resolveCompletionsUrl(config.baseUrl), {
+      method: "POST",
+      headers,
+      body: JSON.stringify(buildRequestBody(request, config, Boolean(options.onPartial))),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      const retryAfter = Number(response.headers.get("retry-after"));
+      throw new ReasoningError(
+        kindForStatus(response.status),
+        `OpenAI-compatible endpoint returned ${response.status}: ${detail.slice(0, 200)}`,
+        { status: response.status, retryAfterMs: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined }
+      );
+    }
+
+    if (options.onPartial && response.body) {
+      return parseReasoningResponse(await readCompletionStream(response.body, options.onPartial));
+    }
+    return parseReasoningResponse(extractOutputText(await response.json()));
+  } catch (error) {
+    if (isAbortError(error)) throw toReasoningError(error);
+    console.error("OpenAI-compatible API Error:", error);
+    throw error;
+  }
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): ReasoningProvider => ({
+  id: "openai",
+  label: `OpenAI-compatible (${config.model || DEFAULT_MODEL})`,
+  generate: (request, options) => fetchOpenAICompatibleResponse(request, config, options),
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { IncrementalJsonParser, parsePartialJson } from "./partialJson";
+import { createPartialReasoningStream } from "./reasoningPrompt";
+import type { PartialReasoning } from "./reasoningProvider";
+
+describe("parsePartialJson", () => {
+  it("keeps unterminated strings and drops unfinished array items", () => {
+    expect(parsePartialJson('{"answer": "The sky is bl')).toEqual({ answer: "The sky is bl" });
+    expect(parsePartialJson('{"nodes": [{"id": "a"}, {"id": "b')).toEqual({ nodes: [{ id: "a" }] });
+    expect(parsePartialJson('{"score": 0.')).toEqual({});
+  });
+});
+
+describe("IncrementalJsonParser", () => {
+  it("skips a leading markdown fence and only re-parses after new input", () => {
+    const parser = new IncrementalJsonParser();
+    parser.push("```json\n");
+    expect(parser.value).toBeUndefined();
+    parser.push('{"answer": "Ray');
+    const first = parser.value;
+    expect(first).toEqual({ answer: "Ray" });
+    expect(parser.value).toBe(first);
+    parser.push('leigh"}');
+    expect(parser.value).toEqual({ answer: "Rayleigh" });
+    expect(parser.text).toBe('```json\n{"answer": "Rayleigh"}');
+  });
+});
+
+describe("createPartialReasoningStream", () => {
+  it("reports at most once per scheduled frame and nothing after close", () => {
+    const frames: Array<() => void> = [];
+    const partials: PartialReasoning[] = [];
+    const stream = createPartialReasoningStream(
+      partial => partials.push(partial),
+      callback => {
+        frames.push(callback);
+        return () => frames.splice(frames.indexOf(callback), 1);
+      }
+    );
+
+    stream.push('{"answer": "Light ');
+    stream.push("scatters");
+    expect(frames).toHaveLength(1);
+    frames.shift()?.();
+    expect(partials).toEqual([{ answer: "Light scatters", trace: null }]);
+
+    stream.push('"}');
+    stream.close();
+    expect(frames).toHaveLength(0);
+    expect(partials).toHaveLength(1);
+    expect(stream.text).toBe('{"answer": "Light scatters"}');
+  });
+});
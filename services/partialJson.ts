@@ -0,0 +1,191 @@
+// Tolerant parser for JSON that is still being streamed. It returns the largest value that
+// can be recovered from the prefix received so far:
+// - unterminated strings are kept as-is (so answer text can fill in as it arrives)
+// - incomplete numbers, literals and object keys are dropped
+// - items of an array that are not yet closed are dropped, so stages/nodes/edges only
+//   appear once their object is complete and their ids can be trusted
+
+const INCOMPLETE = Symbol("incomplete");
+
+type Parsed = unknown | typeof INCOMPLETE;
+
+const WHITESPACE = /\s/;
+
+class PartialJsonReader {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): unknown {
+    this.skipWhitespace();
+    if (this.pos >= this.text.length) return undefined;
+    const value = this.parseValue();
+    return value === INCOMPLETE ? undefined : value;
+  }
+
+  private skipWhitespace() {
+    while (this.pos < this.text.length && WHITESPACE.test(this.text[this.pos])) this.pos++;
+  }
+
+  private atEnd() {
+    this.skipWhitespace();
+    return this.pos >= this.text.length;
+  }
+
+  private parseValue(): Parsed {
+    if (this.atEnd()) return INCOMPLETE;
+    const ch = this.text[this.pos];
+    if (ch === "{") return this.parseObject();
+    if (ch === "[") return this.parseArray();
+    if (ch === '"') return this.parseString().value;
+    if (ch === "-" || (ch >= "0" && ch <= "9")) return this.parseNumber();
+    return this.parseLiteral();
+  }
+
+  private parseObject(): Parsed {
+    const result: Record<string, unknown> = {};
+    this.pos++; // {
+    for (;;) {
+      if (this.atEnd()) return result;
+      if (this.text[this.pos] === "}") {
+        this.pos++;
+        return result;
+      }
+      if (this.text[this.pos] === ",") {
+        this.pos++;
+        continue;
+      }
+      if (this.text[this.pos] !== '"') throw new SyntaxError(`Unexpected "${this.text[this.pos]}" in object`);
+
+      const key = this.parseString();
+      if (!key.complete || this.atEnd()) return result;
+      if (this.text[this.pos] !== ":") throw new SyntaxError("Expected ':' after object key");
+      this.pos++;
+
+      const value = this.parseValue();
+      if (value === INCOMPLETE) return result;
+      result[key.value] = value;
+    }
+  }
+
+  private parseArray(): Parsed {
+    const result: unknown[] = [];
+    this.pos++; // [
+    for (;;) {
+      if (this.atEnd()) return result;
+      if (this.text[this.pos] === "]") {
+        this.pos++;
+        return result;
+      }
+      if (this.text[this.pos] === ",") {
+        this.pos++;
+        continue;
+      }
+      const value = this.parseValue();
+      // Only keep items that were fully read; a truncated item means the input ended inside it.
+      if (value === INCOMPLETE || this.pos >= this.text.length) return result;
+      result.push(value);
+    }
+  }
+
+  private parseString(): { value: string; complete: boolean } {
+    this.pos++; // opening quote
+    let value = "";
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos];
+      if (ch === '"') {
+        this.pos++;
+        return { value, complete: true };
+      }
+      if (ch === "\\") {
+        const escape = this.readEscape();
+        if (escape === null) break;
+        value += escape;
+        continue;
+      }
+      value += ch;
+      this.pos++;
+    }
+    this.pos = this.text.length;
+    return { value, complete: false };
+  }
+
+  // Returns null when the escape sequence itself is cut off.
+  private readEscape(): string | null {
+    const next = this.text[this.pos + 1];
+    if (next === undefined) return null;
+    const simple: Record<string, string> = { '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" };
+    if (next === "u") {
+      const hex = this.text.slice(this.pos + 2, this.pos + 6);
+      if (hex.length < 4) return null;
+      this.pos += 6;
+      return String.fromCharCode(parseInt(hex, 16));
+    }
+    this.pos += 2;
+    return simple[next] ?? next;
+  }
+
+  private parseNumber(): Parsed {
+    const match = /^-?\d*(\.\d*)?([eE][+-]?\d*)?/.exec(this.text.slice(this.pos));
+    const raw = match ? match[0] : "";
+    this.pos += raw.length;
+    // A number running into the end of input may still grow ("0." -> "0.75").
+    if (this.pos >= this.text.length) return INCOMPLETE;
+    const value = Number(raw);
+    if (!raw || !Number.isFinite(value)) throw new SyntaxError(`Invalid number "${raw}"`);
+    return value;
+  }
+
+  private parseLiteral(): Parsed {
+    for (const [word, value] of [["true", true], ["false", false], ["null", null]] as const) {
+      const slice = this.text.slice(this.pos, this.pos + word.length);
+      if (slice === word) {
+        this.pos += word.length;
+        return value;
+      }
+      if (word.startsWith(slice) && this.pos + slice.length >= this.text.length) {
+        this.pos = this.text.length;
+        return INCOMPLETE;
+      }
+    }
+    throw new SyntaxError(`Unexpected "${this.text[this.pos]}"`);
+  }
+}
+
+// Throws a SyntaxError only for input that can never become valid JSON.
+export const parsePartialJson = (text: string): unknown => new PartialJsonReader(text).parse();
+
+/**
+ * Accumulates streamed chunks and exposes the best-effort value parsed so far.
+ * Appending is cheap; the buffer is only re-parsed when `value` is read after new input,
+ * so callers decide how often to pay for a parse. Markdown fences some models emit
+ * before the JSON are skipped.
+ */
+export class IncrementalJsonParser {
+  private buffer = "";
+  private lastValue: unknown = undefined;
+  private dirty = false;
+
+  get text() {
+    return this.buffer;
+  }
+
+  get value(): unknown {
+    if (!this.dirty) return this.lastValue;
+    this.dirty = false;
+    const start = this.buffer.search(/[{[]/);
+    if (start === -1) return this.lastValue;
+    try {
+      this.lastValue = parsePartialJson(this.buffer.slice(start));
+    } catch {
+      // Keep the previous snapshot; the final parse reports the real error.
+    }
+    return this.lastValue;
+  }
+
+  push(chunk: string) {
+    if (!chunk) return;
+    this.buffer += chunk;
+    this.dirty = true;
+  }
+}
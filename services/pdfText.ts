@@ -0,0 +1,179 @@
+// Naive text extraction from PDF files for grounding documents. Reads the text-showing operators
+// (Tj, TJ, ', ") of every uncompressed or Flate-compressed content stream. Fonts with custom
+// encodings, scanned pages and encrypted files yield little or no text; that is reported as empty.
+
+const latin1 = (bytes: Uint8Array): string => {
+  let text = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Yields the decoded bytes of every stream object that may hold page content.
+const readStreams = async (bytes: Uint8Array, raw: string): Promise<string[]> => {
+  const contents: string[] = [];
+  const streamPattern = /stream\r?\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = streamPattern.exec(raw))) {
+    // "endstream" also matches the pattern; only real stream starts follow a dictionary
+    if (raw.slice(match.index - 3, match.index) === "end") continue;
+    const start = match.index + match[0].length;
+    const end = raw.indexOf("endstream", start);
+    if (end < 0) break;
+    streamPattern.lastIndex = end + "endstream".length;
+
+    const dictionary = raw.slice(raw.lastIndexOf("obj", match.index), match.index);
+    if (/\/Subtype\s*\/Image|\/Type\s*\/XRef|\/Length[123]\b/.test(dictionary)) continue;
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? "";
+    const data = bytes.subarray(start, end);
+    if (!filters) {
+      contents.push(raw.slice(start, end));
+    } else if (filters.replace(/[[\]\s]/g, "") === "/FlateDecode") {
+      try {
+        contents.push(latin1(await inflate(data)));
+      } catch {
+        // Truncated or corrupt stream; the rest of the file may still be readable
+      }
+    }
+  }
+  return contents;
+};
+
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+
+// Reads a (literal) string starting after its opening parenthesis; returns the text and end offset.
+const readLiteral = (content: string, from: number): [string, number] => {
+  let text = "";
+  let depth = 1;
+  let i = from;
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === "\\") {
+      const next = content[i + 1];
+      const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4));
+      if (octal) {
+        text += String.fromCharCode(parseInt(octal[0], 8));
+        i += 1 + octal[0].length;
+        continue;
+      }
+      if (next === "\r" || next === "\n") {
+        i += next === "\r" && content[i + 2] === "\n" ? 3 : 2;
+        continue;
+      }
+      text += ESCAPES[next] ?? next ?? "";
+      i += 2;
+      continue;
+    }
+    if (ch === "(") depth++;
+    if (ch === ")" && --depth === 0) return [text, i + 1];
+    text += ch;
+    i++;
+  }
+  return [text, i];
+};
+
+const decodeHex = (hex: string): string => {
+  const clean = hex.replace(/[^0-9a-fA-F]/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < clean.length; i += 2) bytes.push(parseInt(clean.slice(i, i + 2).padEnd(2, "0"), 16));
+  // UTF-16BE with byte order mark, as used for metadata and some simple fonts
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let text = "";
+    for (let i = 2; i + 1 < bytes.length; i += 2) text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+    return text;
+  }
+  return String.fromCharCode(...bytes);
+};
+
+// TJ kerning below this (in thousandths of an em) is treated as a word gap.
+const WORD_GAP = -200;
+
+const extractContentText = (content: string): string => {
+  let out = "";
+  let pending = "";
+  let numbers: number[] = [];
+  let inArray = false;
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === "(") {
+      const [text, end] = readLiteral(content, i + 1);
+      pending += text;
+      i = end;
+    } else if (ch === "<" && content[i + 1] !== "<") {
+      const end = content.indexOf(">", i);
+      if (end < 0) break;
+      pending += decodeHex(content.slice(i + 1, end));
+      i = end + 1;
+    } else if (ch === "[") {
+      inArray = true;
+      i++;
+    } else if (ch === "]") {
+      inArray = false;
+      i++;
+    } else if (ch === "%") {
+      const end = content.indexOf("\n", i);
+      i = end < 0 ? content.length : end + 1;
+    } else if (/[-+.\d]/.test(ch)) {
+      const token = /^[-+]?(\d+\.?\d*|\.\d+)/.exec(content.slice(i, i + 32));
+      if (!token) {
+        i++;
+        continue;
+      }
+      const value = parseFloat(token[0]);
+      if (inArray && value < WORD_GAP) pending += " ";
+      numbers.push(value);
+      i += token[0].length;
+    } else if (/[A-Za-z'"*]/.test(ch)) {
+      const operator = /^[A-Za-z'"*]+/.exec(content.slice(i, i + 8))![0];
+      i += operator.length;
+      if (inArray) continue;
+      if (operator === "'" || operator === '"' || operator === "T*") out += "\n";
+      if (operator === "Tj" || operator === "TJ" || operator === "'" || operator === '"') {
+        out += pending;
+      } else if (operator === "Td" || operator === "TD") {
+        // A vertical move starts a new line; a horizontal one usually separates words
+        out += numbers[numbers.length - 1] ? "\n" : " ";
+      } else if (operator === "ET") {
+        out += "\n";
+      }
+      pending = "";
+      numbers = [];
+    } else if (ch === "/") {
+      const name = /^\/[^\s/[\]()<>{}%]*/.exec(content.slice(i, i + 128));
+      i += name ? name[0].length : 1;
+    } else {
+      i++;
+    }
+  }
+  return out;
+};
+
+// Share of letters, digits, punctuation and whitespace; font-encoded glyph ids score low.
+const readableRatio = (text: string) =>
+  text.length === 0 ? 0 : (text.match(/[\p{L}\p{N}\p{P}\s]/gu)?.length ?? 0) / text.length;
+
+const MIN_READABLE_RATIO = 0.85;
+
+export const isPdf = (bytes: Uint8Array) => latin1(bytes.subarray(0, 5)) === "%PDF-";
+
+/** Returns the readable text of a PDF, or an empty string when none could be extracted. */
+export const extractPdfText = async (bytes: Uint8Array): Promise<string> => {
+  const raw = latin1(bytes);
+  const pages = (await readStreams(bytes, raw))
+    .filter(content => /\bBT\b/.test(content))
+    .map(extractContentText)
+    .filter(text => text.trim() && readableRatio(text) >= MIN_READABLE_RATIO);
+  return pages
+    .join("\n\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
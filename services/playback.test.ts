@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { buildPlaybackFrames } from "./playback";
+import { generateMockResponse } from "./mockProvider";
+
+const { explain_trace: trace } = generateMockResponse("why is the sky blue", 1);
+
+describe("buildPlaybackFrames", () => {
+  it("carries the previous frame forward for steps without node ids", () => {
+    const [first, second] = trace.nodes.map(n => n.id);
+    const frames = buildPlaybackFrames({
+      ...trace,
+      steps: ["intro", "first", "aside", "second"],
+      step_node_ids: [[], [first], [], [second]],
+    });
+
+    expect([...frames[0].visibleNodeIds]).toEqual([first]);
+    expect([...frames[2].visibleNodeIds]).toEqual([first]);
+    expect([...frames[2].focusNodeIds]).toEqual([first]);
+    expect(frames[3].visibleNodeIds.has(first) && frames[3].visibleNodeIds.has(second)).toBe(true);
+  });
+});
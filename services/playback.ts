@@ -0,0 +1,77 @@
+import { ExplainTrace } from "../types";
+
+// Step-by-step playback of a reasoning trace: the graph is revealed frame by frame while the
+// matching entries of the Cognitive Steps list are highlighted.
+
+export interface PlaybackFrame {
+  label: string;
+  // Indices into trace.steps covered by this frame
+  stepIndices: number[];
+  // Everything revealed so far, including this frame
+  visibleNodeIds: Set<string>;
+  // Nodes introduced or used by this frame
+  focusNodeIds: Set<string>;
+}
+
+export const PLAYBACK_INTERVAL_MS = 1600;
+
+const hasStepMapping = (trace: ExplainTrace) =>
+  Array.isArray(trace.step_node_ids) && trace.step_node_ids.some(ids => ids.length > 0);
+
+// One frame per step, using the node ids the model attached to each step. A step without
+// node ids keeps showing the previous frame; leading ones show the first mapped step.
+const framesFromSteps = (trace: ExplainTrace): PlaybackFrame[] => {
+  const visible = new Set<string>();
+  let focus = new Set<string>();
+  const frames = trace.steps.map((step, i) => {
+    const ids = trace.step_node_ids?.[i] || [];
+    if (ids.length > 0) {
+      focus = new Set(ids);
+      focus.forEach(id => visible.add(id));
+    }
+    return { label: step, stepIndices: [i], visibleNodeIds: new Set(visible), focusNodeIds: new Set(focus) };
+  });
+  const firstMapped = frames.find(f => f.visibleNodeIds.size > 0);
+  frames.forEach(frame => {
+    if (firstMapped && frame.visibleNodeIds.size === 0) {
+      frame.visibleNodeIds = new Set(firstMapped.visibleNodeIds);
+      frame.focusNodeIds = new Set(firstMapped.focusNodeIds);
+    }
+  });
+  // Nodes no step mentions appear with the last frame so the playback ends on the full graph
+  const unmapped = trace.nodes.filter(n => !visible.has(n.id));
+  if (frames.length > 0 && unmapped.length > 0) {
+    const last = frames[frames.length - 1];
+    unmapped.forEach(n => last.visibleNodeIds.add(n.id));
+  }
+  return frames;
+};
+
+// One frame per stage (in stage order); steps are spread evenly over the stages.
+const framesFromStages = (trace: ExplainTrace): PlaybackFrame[] => {
+  const stages = trace.stages.filter(stage => trace.nodes.some(n => n.stage_id === stage.id));
+  const stepCount = trace.steps.length;
+  const visible = new Set<string>();
+  return stages.map((stage, i) => {
+    const focus = new Set(trace.nodes.filter(n => n.stage_id === stage.id).map(n => n.id));
+    focus.forEach(id => visible.add(id));
+    const first = Math.floor((i * stepCount) / stages.length);
+    const end = Math.floor(((i + 1) * stepCount) / stages.length);
+    const stepIndices = Array.from({ length: end - first }, (_, k) => first + k);
+    return { label: stage.label, stepIndices, visibleNodeIds: new Set(visible), focusNodeIds: focus };
+  });
+};
+
+export const buildPlaybackFrames = (trace: ExplainTrace | null): PlaybackFrame[] => {
+  if (!trace || trace.nodes.length === 0) return [];
+  return hasStepMapping(trace) ? framesFromSteps(trace) : framesFromStages(trace);
+};
+
+// The frame a click on a Cognitive Step should jump to; the first frame at or after it when
+// the step is not covered directly (more stages than steps).
+export const frameForStep = (frames: PlaybackFrame[], stepIndex: number): number => {
+  const exact = frames.findIndex(f => f.stepIndices.includes(stepIndex));
+  if (exact >= 0) return exact;
+  const after = frames.findIndex(f => f.stepIndices.some(i => i > stepIndex));
+  return after >= 0 ? after : frames.length - 1;
+};
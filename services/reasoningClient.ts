@@ -0,0 +1,103 @@
+import { GeminiResponse } from "../types";
+import { ReasoningError, toReasoningError, throwIfAborted } from "./reasoningErrors";
+import { restrictSourceCitations } from "./traceValidation";
+import type { GenerateOptions, ReasoningProvider, ReasoningRequest } from "./reasoningProvider";
+
+export interface RetryOptions extends GenerateOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: ReasoningError, attempt: number) => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 15000;
+const MAX_REPORTED_PROBLEMS = 12;
+
+// Resolves after `ms`, or rejects early when the signal fires.
+export const abortableSleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ReasoningError("aborted", "Request was cancelled"));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ReasoningError("aborted", "Request was cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Exponential backoff with jitter; rate limits start from a longer base or the server's Retry-After.
+const backoffDelay = (error: ReasoningError, attempt: number, options: RetryOptions) => {
+  const base = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const max = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  if (error.retryAfterMs) return Math.min(max, error.retryAfterMs);
+  const factor = error.kind === "rate_limit" ? 3 : 1;
+  const delay = base * factor * Math.pow(2, attempt - 1);
+  return Math.min(max, delay * (0.75 + Math.random() * 0.5));
+};
+
+// Turns a structural failure into the bullet points sent back to the model.
+const describeProblems = (error: ReasoningError): string[] => {
+  if (error.kind === "parse") {
+    return [`The output was not valid JSON (${error.message}).`];
+  }
+  const issues = error.issues || [];
+  const fatal = issues.filter(i => i.severity === "fatal");
+  const repaired = issues.filter(i => i.severity === "repaired");
+  return [...fatal, ...repaired]
+    .slice(0, MAX_REPORTED_PROBLEMS)
+    .map(i => (i.path ? `${i.path}: ${i.message}` : i.message));
+};
+
+/**
+ * Calls the provider, retrying transient failures with backoff and re-prompting the model
+ * with the specific violations when its output fails to parse or validate. Configuration
+ * errors are thrown immediately. The thrown error records how many attempts were made.
+ * When streaming, each attempt starts a fresh stream; `onRetry` lets callers reset the UI.
+ * Source citations are limited to the excerpts sent with the request.
+ */
+export const generateWithRetry = async (
+  provider: ReasoningProvider,
+  request: ReasoningRequest,
+  options: RetryOptions = {}
+): Promise<GeminiResponse> => {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  let currentRequest = request;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      throwIfAborted(options.signal);
+      const response = await provider.generate(currentRequest, { onPartial: options.onPartial, signal: options.signal });
+      return restrictSourceCitations(response, (request.sources || []).map(s => s.id));
+    } catch (raw) {
+      const error = toReasoningError(options.signal?.aborted ? new ReasoningError("aborted", "Request was cancelled") : raw);
+      error.attempts = attempt;
+
+      if (error.kind === "config" || error.kind === "aborted" || attempt >= maxAttempts) {
+        throw error;
+      }
+
+      options.onRetry?.(error, attempt);
+      console.warn(`Reasoning attempt ${attempt} failed (${error.kind}), retrying`, error);
+
+      if (error.isTransient) {
+        await abortableSleep(backoffDelay(error, attempt, options), options.signal);
+      } else {
+        currentRequest = {
+          ...request,
+          correction: {
+            previousOutput: error.rawOutput ?? "",
+            problems: describeProblems(error),
+          },
+        };
+      }
+    }
+  }
+};
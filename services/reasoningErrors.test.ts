@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { ReasoningError, toReasoningError } from "./reasoningErrors";
+
+describe("toReasoningError", () => {
+  it("treats fetch failures as network errors", () => {
+    expect(toReasoningError(new TypeError("Failed to fetch")).kind).toBe("network");
+    expect(toReasoningError(new TypeError("fetch failed")).kind).toBe("network");
+    expect(toReasoningError(new TypeError("NetworkError when attempting to fetch resource.")).kind).toBe("network");
+    expect(toReasoningError(new Error("connect ECONNREFUSED 127.0.0.1:8080")).kind).toBe("network");
+  });
+
+  it("does not mistake programming errors for network failures", () => {
+    expect(toReasoningError(new TypeError("Cannot read properties of undefined (reading 'map')")).kind).toBe("unknown");
+    expect(toReasoningError(new TypeError("response.fetchThing is not a function")).kind).toBe("unknown");
+  });
+
+  it("classifies by HTTP status and keeps existing ReasoningErrors", () => {
+    const withStatus = Object.assign(new Error("Too many requests"), { status: 429 });
+    const existing = new ReasoningError("config", "API Key not found");
+
+    expect(toReasoningError(withStatus).kind).toBe("rate_limit");
+    expect(toReasoningError(existing)).toBe(existing);
+  });
+});
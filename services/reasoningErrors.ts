@@ -0,0 +1,113 @@
+import { TraceIssue } from "../types";
+
+// Failure categories drive the retry policy:
+// - network / rate_limit are transient and retried with backoff
+// - parse / validation are structural and retried with feedback to the model
+// - config (missing key, bad URL, auth) is never retried
+// - aborted means the user cancelled the request
+// - unknown covers anything unrecognized; it is retried with backoff like a transient failure
+export type ReasoningFailureKind = "network" | "rate_limit" | "parse" | "validation" | "config" | "aborted" | "unknown";
+
+export interface ReasoningErrorDetails {
+  status?: number;
+  rawOutput?: string;
+  issues?: TraceIssue[];
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export class ReasoningError extends Error {
+  readonly kind: ReasoningFailureKind;
+  readonly status?: number;
+  readonly rawOutput?: string;
+  readonly issues?: TraceIssue[];
+  readonly retryAfterMs?: number;
+  attempts = 1;
+
+  constructor(kind: ReasoningFailureKind, message: string, details: ReasoningErrorDetails = {}) {
+    super(message);
+    this.name = "ReasoningError";
+    this.kind = kind;
+    this.status = details.status;
+    this.rawOutput = details.rawOutput;
+    this.issues = details.issues;
+    this.retryAfterMs = details.retryAfterMs;
+    if (details.cause !== undefined) {
+      (this as { cause?: unknown }).cause = details.cause;
+    }
+  }
+
+  get isTransient() {
+    return this.kind === "network" || this.kind === "rate_limit" || this.kind === "unknown";
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof ReasoningError && error.kind === "aborted") ||
+  (error instanceof Error && error.name === "AbortError") ||
+  (typeof DOMException !== "undefined" && error instanceof DOMException && error.name === "AbortError");
+
+// Throws if the signal has fired, so long-running loops can bail out between steps.
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new ReasoningError("aborted", "Request was cancelled");
+  }
+};
+
+export const kindForStatus = (status: number): ReasoningFailureKind => {
+  if (status === 429) return "rate_limit";
+  if (status === 408 || status >= 500) return "network";
+  return "config";
+};
+
+// fetch() rejects with a TypeError when the request never got a response; the message differs
+// per runtime. Other TypeErrors are bugs and must not be retried as network trouble.
+const isFetchFailure = (error: unknown) =>
+  error instanceof TypeError && /failed to fetch|fetch failed|networkerror|load failed|network request failed/i.test(error.message);
+
+/**
+ * Wraps anything thrown by a provider into a ReasoningError. Errors carrying an HTTP
+ * status (e.g. Gemini's ApiError) are classified by it; fetch failures count as network.
+ */
+export const toReasoningError = (error: unknown): ReasoningError => {
+  if (error instanceof ReasoningError) return error;
+  if (isAbortError(error)) {
+    return new ReasoningError("aborted", "Request was cancelled", { cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === "number"
+    ? (error as { status: number }).status
+    : undefined;
+
+  if (status !== undefined) {
+    return new ReasoningError(kindForStatus(status), message, { status, cause: error });
+  }
+  if (error instanceof SyntaxError) {
+    return new ReasoningError("parse", message, { cause: error });
+  }
+  if (/rate.?limit|quota|resource.?exhausted/i.test(message)) {
+    return new ReasoningError("rate_limit", message, { cause: error });
+  }
+  if (isFetchFailure(error) || (!(error instanceof TypeError) && /network|fetch|timeout|ECONN/i.test(message))) {
+    return new ReasoningError("network", message, { cause: error });
+  }
+  return new ReasoningError("unknown", message, { cause: error });
+};
+
+const FAILURE_DESCRIPTIONS: Record<ReasoningFailureKind, string> = {
+  network: "I couldn't reach the reasoning model (network or server error)",
+  rate_limit: "the reasoning model is rate-limiting requests right now",
+  parse: "the model kept returning output that wasn't valid JSON",
+  validation: "the model kept returning a reasoning trace that broke the expected structure",
+  config: "the reasoning provider is not configured correctly",
+  aborted: "the request was stopped before it finished",
+  unknown: "something unexpected went wrong while generating the reasoning",
+};
+
+// User-facing chat text for a request that failed after all retries.
+export const describeReasoningFailure = (error: unknown): string => {
+  const reasoningError = toReasoningError(error);
+  const attempts = reasoningError.attempts > 1 ? ` after ${reasoningError.attempts} attempts` : "";
+  return `Sorry, ${FAILURE_DESCRIPTIONS[reasoningError.kind]}${attempts}. (${reasoningError.kind} error)`;
+};
@@ -0,0 +1,345 @@
+import { Type, Schema } from "@google/genai";
+import { GeminiResponse } from "../types";
+import { validateReasoningResponse, hasFatalIssues } from "./traceValidation";
+import { buildConversationTurns, ContextTurn } from "./conversationContext";
+import { ReasoningError } from "./reasoningErrors";
+import { IncrementalJsonParser } from "./partialJson";
+import { formatSourcesForPrompt } from "./grounding";
+import type { PartialReasoning, ReasoningRequest } from "./reasoningProvider";
+
+export const SYSTEM_INSTRUCTION = `
+You are the backend reasoning engine for "NeuroViz Chat" (a chatbot with an explainable 3D reasoning visualization).
+For every user question, respond with only a single JSON object (no extra text) with this exact structure:
+
+{
+  "answer": "string",
+  "explain_trace": {
+    "stages": [
+      {
+        "id": "string",
+        "label": "string",
+        "description": "string",
+        "weight": 0.0
+      }
+    ],
+    "nodes": [
+      {
+        "id": "string",
+        "label": "string",
+        "type": "intent | fact | intermediate | conclusion | constraint | context",
+        "importance": 0.0,
+        "certainty": 0.0,
+        "stage_id": "string",
+        "sources": ["ids of the cited excerpts, e.g. S1"]
+      }
+    ],
+    "edges": [
+      {
+        "source": "string",
+        "target": "string",
+        "relation_label": "string",
+        "strength": 0.0,
+        "certainty": 0.0
+      }
+    ],
+    "steps": [
+      "Short textual step 1",
+      "Short textual step 2"
+    ],
+    "step_node_ids": [
+      ["node ids used in step 1"],
+      ["node ids used in step 2"]
+    ],
+    "key_factors": [
+      "Short phrase about key fact or assumption"
+    ],
+    "confidence": "high | medium | low",
+    "confidence_score": 0.0,
+    "timestamp": "ISO 8601 timestamp string"
+  }
+}
+
+Requirements:
+- "answer" must be a clear, helpful answer in 2–6 sentences.
+- stages must describe high-level reasoning phases, e.g., "Comprehension", "Retrieval", "Synthesis", "Formulation".
+- nodes represent concepts, facts, assumptions, or intermediate conclusions.
+- importance is a number between 0 and 1.
+- certainty (on nodes and edges) is a number between 0 and 1: how sure you are that the node is correct or that the relationship holds. Use low values for assumptions, guesses and contested claims, and high values only for well-established facts and direct consequences.
+- stage_id must reference one of the stages.
+- When the question comes with numbered excerpts from the user's documents, base the answer on them and give every fact node a "sources" list with the ids of the excerpts that support it (e.g. ["S1", "S3"]). Only cite ids that were provided; omit "sources" when no excerpts were given.
+- edges represent relationships or influence between nodes.
+- strength is a number between 0 and 1.
+- steps is a human-readable ordered list describing the reasoning steps.
+- step_node_ids has one entry per step listing the ids of the nodes that step introduces or uses.
+- key_factors list the main facts/assumptions/basis used to form the answer.
+- confidence_score is a calibrated probability between 0 and 1 that the answer is correct; confidence must match it ("high" >= 0.75, "medium" >= 0.45, otherwise "low"). Do not default to high values: a score of 0.8 should mean you expect about 4 in 5 such answers to be right.
+- Earlier turns of the conversation may be included; use them to resolve follow-up questions, but the reasoning trace must describe only the latest answer.
+- Always return valid JSON. Do not include any explanations outside the JSON.
+`;
+
+export const responseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING },
+    explain_trace: {
+      type: Type.OBJECT,
+      properties: {
+        stages: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING },
+              label: { type: Type.STRING },
+              description: { type: Type.STRING },
+              weight: { type: Type.NUMBER },
+            },
+            required: ["id", "label", "description"],
+          },
+        },
+        nodes: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              id: { type: Type.STRING },
+              label: { type: Type.STRING },
+              type: {
+                type: Type.STRING,
+                enum: [
+                  "intent",
+                  "fact",
+                  "intermediate",
+                  "conclusion",
+                  "constraint",
+                  "context",
+                ],
+              },
+              importance: { type: Type.NUMBER },
+              certainty: { type: Type.NUMBER },
+              stage_id: { type: Type.STRING },
+              sources: {
+                type: Type.ARRAY,
+                items: { type: Type.STRING },
+              },
+            },
+            required: ["id", "label", "type", "stage_id"],
+          },
+        },
+        edges: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              source: { type: Type.STRING },
+              target: { type: Type.STRING },
+              relation_label: { type: Type.STRING },
+              strength: { type: Type.NUMBER },
+              certainty: { type: Type.NUMBER },
+            },
+            required: ["source", "target"],
+          },
+        },
+        steps: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+        },
+        step_node_ids: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.ARRAY,
+            items: { type: Type.STRING },
+          },
+        },
+        key_factors: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+        },
+        confidence: {
+          type: Type.STRING,
+          enum: ["high", "medium", "low"],
+        },
+        confidence_score: { type: Type.NUMBER },
+        timestamp: { type: Type.STRING },
+      },
+      required: ["stages", "nodes", "edges", "steps", "confidence"],
+    },
+  },
+  required: ["answer", "explain_trace"],
+};
+
+// Strips markdown fences the model sometimes wraps around its JSON.
+export const cleanModelText = (text: string): string => {
+  let cleanText = text.trim();
+  if (cleanText.startsWith("```json")) {
+    cleanText = cleanText.replace(/^```json/, "").replace(/```$/, "");
+  } else if (cleanText.startsWith("```")) {
+    cleanText = cleanText.replace(/^```/, "").replace(/```$/, "");
+  }
+  return cleanText;
+};
+
+// Parses the raw model text into a GeminiResponse and normalizes the trace (see traceValidation).
+// Throws a ReasoningError of kind 'parse' or 'validation' so the retry loop can re-prompt.
+export const parseReasoningResponse = (text: string | undefined): GeminiResponse => {
+  if (!text) {
+    throw new ReasoningError("parse", "Empty response from model", { rawOutput: "" });
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(cleanModelText(text));
+  } catch (error) {
+    throw new ReasoningError("parse", `Model output is not valid JSON: ${(error as Error).message}`, {
+      rawOutput: text,
+      cause: error,
+    });
+  }
+
+  const { response, issues } = validateReasoningResponse(raw);
+  if (hasFatalIssues(issues)) {
+    throw new ReasoningError("validation", "Model output violates the explain_trace schema", {
+      rawOutput: text,
+      issues,
+    });
+  }
+  if (issues.length > 0) {
+    console.warn(`Reasoning trace required ${issues.length} repair(s)`, issues);
+  }
+  return response;
+};
+
+type FrameScheduler = (callback: () => void) => () => void;
+
+// Runs the callback on the next animation frame (or after ~16ms outside the browser)
+// and returns a function that cancels it.
+const scheduleFrame: FrameScheduler = callback => {
+  if (typeof requestAnimationFrame === "function") {
+    const id = requestAnimationFrame(() => callback());
+    return () => cancelAnimationFrame(id);
+  }
+  const id = setTimeout(callback, 16);
+  return () => clearTimeout(id);
+};
+
+/**
+ * Feeds streamed text chunks through the incremental parser and reports the partially
+ * built answer/trace. Chunks often arrive many times per frame, so parsing, validation and
+ * `onPartial` run at most once per frame. `text` holds the full output for the final parse;
+ * call `close()` when the stream ends or fails so no report lands after the final result.
+ */
+export const createPartialReasoningStream = (
+  onPartial?: (partial: PartialReasoning) => void,
+  schedule: FrameScheduler = scheduleFrame
+) => {
+  const parser = new IncrementalJsonParser();
+  let pending = false;
+  let cancelPending = () => {};
+
+  const report = () => {
+    pending = false;
+    const value = parser.value;
+    if (!onPartial || typeof value !== "object" || value === null) return;
+    const raw = value as { answer?: unknown; explain_trace?: unknown };
+    // Validation here only normalizes; issues are reported once the stream completes.
+    const { response } = validateReasoningResponse({ ...raw, answer: raw.answer ?? "" });
+    onPartial({
+      answer: typeof raw.answer === "string" ? raw.answer : "",
+      trace: raw.explain_trace ? response.explain_trace : null,
+    });
+  };
+
+  return {
+    push(chunk: string) {
+      parser.push(chunk);
+      if (!onPartial || pending) return;
+      pending = true;
+      cancelPending = schedule(report);
+    },
+    close() {
+      if (pending) cancelPending();
+      pending = false;
+    },
+    get text() {
+      return parser.text;
+    },
+  };
+};
+
+const MAX_ECHOED_OUTPUT = 4000;
+
+/**
+ * Conversation turns for a request. Grounding excerpts are placed in front of the question.
+ * When the request carries a correction, the rejected
+ * output is echoed back as the model's turn followed by the specific violations, so the
+ * model can fix its own answer instead of starting over.
+ */
+export const buildRequestTurns = (request: ReasoningRequest): ContextTurn[] => {
+  const prompt = request.sources?.length ? formatSourcesForPrompt(request.sources, request.prompt) : request.prompt;
+  const turns = buildConversationTurns(prompt, request.history, request.context);
+  const correction = request.correction;
+  if (!correction) return turns;
+
+  const echoed = correction.previousOutput.length > MAX_ECHOED_OUTPUT
+    ? `${correction.previousOutput.slice(0, MAX_ECHOED_OUTPUT)}\n...(truncated)`
+    : correction.previousOutput;
+
+  return [
+    ...turns,
+    { role: "model", text: echoed || "(empty response)" },
+    {
+      role: "user",
+      text: [
+        "Your previous response could not be used because of these problems:",
+        ...correction.problems.map(p => `- ${p}`),
+        "",
+        "Respond again to the same question with a single corrected JSON object that follows the required structure exactly.",
+      ].join("\n"),
+    },
+  ];
+};
+
+type JsonSchema = { [key: string]: unknown };
+
+// Converts the Gemini `Schema` above into plain JSON Schema for OpenAI-style structured output.
+export const toJsonSchema = (schema: Schema): JsonSchema => {
+  const result: JsonSchema = {};
+  if (schema.type) result.type = String(schema.type).toLowerCase();
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+export const responseJsonSchema = toJsonSchema(responseSchema);
+
+/**
+ * The same conversion for OpenAI's strict structured output, which only accepts objects that
+ * list every property as required and allow no others. Optional fields become nullable
+ * instead; validation treats null like a missing field.
+ */
+export const toStrictJsonSchema = (schema: Schema, nullable = false): JsonSchema => {
+  const result: JsonSchema = {};
+  if (schema.type) {
+    const type = String(schema.type).toLowerCase();
+    result.type = nullable ? [type, "null"] : type;
+  }
+  if (schema.enum) result.enum = nullable ? [...schema.enum, null] : schema.enum;
+  if (schema.items) result.items = toStrictJsonSchema(schema.items);
+  if (schema.properties) {
+    const required = new Set(schema.required || []);
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toStrictJsonSchema(value, !required.has(key))])
+    );
+    result.required = Object.keys(schema.properties);
+    result.additionalProperties = false;
+  }
+  return result;
+};
+
+export const strictResponseJsonSchema = toStrictJsonSchema(responseSchema);
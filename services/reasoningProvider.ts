@@ -0,0 +1,80 @@
+import { ExplainTrace, GeminiResponse, Message, SourceChunk } from "../types";
+import { ConversationContextOptions } from "./conversationContext";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAICompatibleProvider, parseStructuredOutputMode } from "./openAICompatibleProvider";
+
+export interface ReasoningRequest {
+  prompt: string;
+  history: Message[];
+  context?: ConversationContextOptions;
+  // Document excerpts to answer from; nodes may only cite these ids
+  sources?: SourceChunk[];
+  // Index of the sample in self-consistency mode; deterministic providers use it to vary output
+  sample?: number;
+  // Set by the retry loop when the previous attempt produced unusable output.
+  correction?: {
+    previousOutput: string;
+    problems: string[];
+  };
+}
+
+// Snapshot of a response that is still being streamed.
+export interface PartialReasoning {
+  answer: string;
+  trace: ExplainTrace | null;
+}
+
+export interface GenerateOptions {
+  // When set, providers stream and report the partially parsed response as it grows.
+  onPartial?: (partial: PartialReasoning) => void;
+  // Cancels the in-flight request; providers reject with an 'aborted' ReasoningError.
+  signal?: AbortSignal;
+}
+
+// A backend capable of answering a question together with its explain_trace.
+export interface ReasoningProvider {
+  readonly id: ReasoningProviderId;
+  readonly label: string;
+  generate(request: ReasoningRequest, options?: GenerateOptions): Promise<GeminiResponse>;
+}
+
+export type ReasoningProviderId = "gemini" | "openai" | "mock";
+
+export const REASONING_PROVIDER_IDS: ReasoningProviderId[] = ["gemini", "openai", "mock"];
+
+const isProviderId = (value: string): value is ReasoningProviderId =>
+  (REASONING_PROVIDER_IDS as string[]).includes(value);
+
+/**
+ * Picks the provider from NEUROVIZ_PROVIDER. When unset, Gemini is used if an API key
+ * is configured and the offline mock otherwise, so the UI always has something to talk to.
+ */
+export const resolveProviderId = (requested = process.env.NEUROVIZ_PROVIDER): ReasoningProviderId => {
+  const normalized = (requested || "").trim().toLowerCase();
+  if (normalized) {
+    if (isProviderId(normalized)) return normalized;
+    console.warn(`Unknown reasoning provider "${requested}", falling back to default`);
+  }
+  return process.env.API_KEY ? "gemini" : "mock";
+};
+
+export const createReasoningProvider = (id: ReasoningProviderId = resolveProviderId()): ReasoningProvider => {
+  switch (id) {
+    case "mock":
+      return createMockProvider();
+    case "openai":
+      return createOpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL,
+        model: process.env.OPENAI_MODEL,
+        apiKey: process.env.OPENAI_API_KEY,
+        structuredOutput: parseStructuredOutputMode(process.env.OPENAI_STRUCTURED_OUTPUT),
+      });
+    case "gemini":
+    default:
+      return createGeminiProvider({
+        apiKey: process.env.API_KEY,
+        model: process.env.GEMINI_MODEL,
+      });
+  }
+};
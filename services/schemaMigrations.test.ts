@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  CONVERSATION_SCHEMA_VERSION,
+  HISTORY_SCHEMA_VERSION,
+  MigrationError,
+  migrateConversation,
+  migrateHistoryItem,
+} from "./schemaMigrations";
+import { migrateRecords, STORES } from "./storage";
+import { generateMockResponse } from "./mockProvider";
+import { buildConsensus } from "./selfConsistency";
+
+const response = generateMockResponse("why is the sky blue", 1);
+
+const legacyItem = (overrides: Record<string, unknown> = {}) => ({
+  id: "item-1",
+  question: "why is the sky blue",
+  answer: response.answer,
+  explain_trace: response.explain_trace,
+  timestamp: response.explain_trace.timestamp,
+  ...overrides,
+});
+
+describe("history item migrations", () => {
+  it("v0 -> v1 repairs the trace of an unversioned item", () => {
+    const trace = {
+      ...response.explain_trace,
+      nodes: response.explain_trace.nodes.map(n => ({ ...n, importance: 3 })),
+    };
+    const item = migrateHistoryItem(legacyItem({ explain_trace: trace, timestamp: "not a date" }));
+
+    expect(item.schemaVersion).toBe(HISTORY_SCHEMA_VERSION);
+    expect(item.explain_trace.nodes.every(n => n.importance === 1)).toBe(true);
+    expect(item.timestamp).toBe(response.explain_trace.timestamp);
+    expect(item.issues?.some(i => i.severity === "repaired")).toBe(true);
+  });
+
+  it("v0 -> v1 rejects items without an id or a usable trace", () => {
+    expect(() => migrateHistoryItem({ question: "q" })).toThrow(MigrationError);
+    expect(() => migrateHistoryItem(legacyItem({ explain_trace: { nodes: [] } }))).toThrow("no usable reasoning trace");
+  });
+
+  it("v1 -> v2 backfills confidence_score of consensus traces from the agreement", () => {
+    const consensus = buildConsensus([0, 1, 2].map(sample => generateMockResponse("why is the sky blue", sample * 7919)));
+    const { confidence_score: _score, ...trace } = consensus.explain_trace;
+    const item = migrateHistoryItem(legacyItem({ explain_trace: trace, schemaVersion: 1 }));
+
+    expect(item.explain_trace.confidence_score).toBe(consensus.explain_trace.consensus!.agreement);
+  });
+
+  it("v1 -> v2 leaves traces without consensus alone", () => {
+    const { confidence_score: _score, ...trace } = response.explain_trace;
+    const item = migrateHistoryItem(legacyItem({ explain_trace: trace, schemaVersion: 1 }));
+
+    expect(item.explain_trace.confidence_score).toBeUndefined();
+    expect(item.schemaVersion).toBe(2);
+  });
+
+  it("flags records from a newer schema instead of migrating them", () => {
+    let error: unknown;
+    try {
+      migrateHistoryItem(legacyItem({ schemaVersion: HISTORY_SCHEMA_VERSION + 1 }));
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(MigrationError);
+    expect((error as MigrationError).newer).toBe(true);
+  });
+});
+
+describe("conversation migrations", () => {
+  it("v0 -> v1 drops malformed messages and fills in missing fields", () => {
+    const conversation = migrateConversation({
+      id: "c1",
+      messages: [{ id: "m1", role: "user", text: "hi", timestamp: "2025-01-01T00:00:00.000Z" }, { text: "no id" }, null],
+    });
+
+    expect(conversation.schemaVersion).toBe(CONVERSATION_SCHEMA_VERSION);
+    expect(conversation.messages.map(m => m.id)).toEqual(["m1"]);
+    expect(conversation.title).toBe("Untitled chat");
+    expect(Number.isNaN(Date.parse(conversation.createdAt))).toBe(false);
+  });
+
+  it("v0 -> v1 rejects conversations without messages", () => {
+    expect(() => migrateConversation({ id: "c1" })).toThrow(MigrationError);
+  });
+});
+
+describe("migrateRecords", () => {
+  it("upgrades old records, keeps current ones, quarantines broken ones and skips newer ones", () => {
+    const current = migrateHistoryItem(legacyItem({ id: "current" }));
+    const outcome = migrateRecords(
+      STORES.traces,
+      [
+        legacyItem({ id: "old" }),
+        current,
+        { id: "broken", question: "q", explain_trace: "nope" },
+        legacyItem({ id: "newer", schemaVersion: HISTORY_SCHEMA_VERSION + 1 }),
+      ],
+      migrateHistoryItem,
+      HISTORY_SCHEMA_VERSION
+    );
+
+    expect(outcome.current.map(i => i.id)).toEqual(["old", "current"]);
+    expect(outcome.upgraded.map(i => i.id)).toEqual(["old"]);
+    expect(outcome.quarantined).toHaveLength(1);
+    expect(outcome.quarantined[0]).toMatchObject({ id: "traces:broken", store: "traces", error: "has no usable reasoning trace" });
+  });
+});
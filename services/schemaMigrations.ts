@@ -0,0 +1,100 @@
+import { Conversation, HistoryItem, Message } from "../types";
+import { validateReasoningResponse } from "./traceValidation";
+
+// Versioned shapes for stored history items and conversations. Every record written to
+// IndexedDB is stamped with `schemaVersion`; on load, older records are upgraded one step at a
+// time so that a change to types.ts or the response schema never breaks saved history.
+
+type StoredRecord = Record<string, unknown>;
+type Migration = (record: StoredRecord) => StoredRecord;
+
+// Raised when a record cannot be upgraded; `newer` marks records written by a later version
+// of the app, which are left alone rather than set aside.
+export class MigrationError extends Error {
+  readonly newer: boolean;
+
+  constructor(message: string, newer = false) {
+    super(message);
+    this.name = "MigrationError";
+    this.newer = newer;
+  }
+}
+
+const isRecord = (value: unknown): value is StoredRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isDate = (value: unknown): value is string => typeof value === "string" && !Number.isNaN(Date.parse(value));
+
+/**
+ * History item migrations. Entry N upgrades a record at version N to N + 1; records saved
+ * before versioning count as version 0. Never edit a shipped entry - append a new one instead.
+ */
+const HISTORY_MIGRATIONS: Migration[] = [
+  // v1: unversioned records, including the ones imported from localStorage. The trace goes
+  // through the same repair pass as fresh model output.
+  (record) => {
+    if (typeof record.id !== "string" || typeof record.question !== "string") {
+      throw new MigrationError("is missing its id or question");
+    }
+    const { response, issues } = validateReasoningResponse({ answer: record.answer, explain_trace: record.explain_trace });
+    if (!isRecord(record.explain_trace) || response.explain_trace.nodes.length === 0) {
+      throw new MigrationError("has no usable reasoning trace");
+    }
+    return {
+      ...record,
+      answer: response.answer,
+      explain_trace: response.explain_trace,
+      timestamp: isDate(record.timestamp) ? record.timestamp : response.explain_trace.timestamp,
+      issues: issues.length > 0 ? issues : record.issues,
+    };
+  },
+  // v2: consensus traces from before numeric confidence use the sample agreement as score
+  (record) => {
+    const trace = record.explain_trace as HistoryItem["explain_trace"];
+    if (trace.confidence_score !== undefined || !trace.consensus) return record;
+    return { ...record, explain_trace: { ...trace, confidence_score: trace.consensus.agreement } };
+  },
+];
+
+const CONVERSATION_MIGRATIONS: Migration[] = [
+  // v1: unversioned conversations; messages without an id or text are dropped
+  (record) => {
+    if (typeof record.id !== "string" || !Array.isArray(record.messages)) {
+      throw new MigrationError("is missing its id or messages");
+    }
+    const now = new Date().toISOString();
+    return {
+      ...record,
+      title: typeof record.title === "string" && record.title.trim() ? record.title : "Untitled chat",
+      createdAt: isDate(record.createdAt) ? record.createdAt : now,
+      updatedAt: isDate(record.updatedAt) ? record.updatedAt : now,
+      messages: (record.messages as Message[]).filter(m => isRecord(m) && typeof m.id === "string" && typeof m.text === "string"),
+    };
+  },
+];
+
+export const HISTORY_SCHEMA_VERSION = HISTORY_MIGRATIONS.length;
+export const CONVERSATION_SCHEMA_VERSION = CONVERSATION_MIGRATIONS.length;
+
+export const schemaVersionOf = (record: unknown): number =>
+  isRecord(record) && typeof record.schemaVersion === "number" ? record.schemaVersion : 0;
+
+const migrate = (raw: unknown, migrations: Migration[]): StoredRecord => {
+  if (!isRecord(raw)) throw new MigrationError("is not an object");
+  const from = schemaVersionOf(raw);
+  if (from > migrations.length) {
+    throw new MigrationError(`was saved by a newer version of NeuroViz (schema ${from})`, true);
+  }
+  let record = raw;
+  for (let version = from; version < migrations.length; version++) {
+    record = migrations[version](record);
+  }
+  return { ...record, schemaVersion: migrations.length };
+};
+
+/** Upgrades a stored or imported history item to the current shape; throws a MigrationError. */
+export const migrateHistoryItem = (raw: unknown): HistoryItem =>
+  migrate(raw, HISTORY_MIGRATIONS) as unknown as HistoryItem;
+
+export const migrateConversation = (raw: unknown): Conversation =>
+  migrate(raw, CONVERSATION_MIGRATIONS) as unknown as Conversation;
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { buildConsensus, generateConsensus, parseSampleCount } from "./selfConsistency";
+import { createMockProvider, generateMockResponse } from "./mockProvider";
+import { GeminiResponse } from "../types";
+import type { ReasoningProvider } from "./reasoningProvider";
+
+const response = generateMockResponse("why is the sky blue", 1);
+
+// The same response with its nodes renamed, so clustering has to go by labels, not ids
+const withRenamedIds = (source: GeminiResponse, prefix: string): GeminiResponse => {
+  const rename = (id: string) => `${prefix}-${id}`;
+  const trace = source.explain_trace;
+  return {
+    ...source,
+    explain_trace: {
+      ...trace,
+      nodes: trace.nodes.map(n => ({ ...n, id: rename(n.id) })),
+      edges: trace.edges.map(e => ({ ...e, source: rename(e.source), target: rename(e.target) })),
+      step_node_ids: trace.step_node_ids?.map(ids => ids.map(rename)),
+    },
+  };
+};
+
+describe("buildConsensus", () => {
+  it("clusters equivalent nodes across samples and reports full agreement for identical samples", () => {
+    const consensus = buildConsensus([response, withRenamedIds(response, "b"), withRenamedIds(response, "c")]);
+    const trace = consensus.explain_trace;
+
+    expect(trace.nodes).toHaveLength(response.explain_trace.nodes.length);
+    expect(trace.nodes.every(n => n.support === 1)).toBe(true);
+    expect(trace.edges.every(e => e.support === 1)).toBe(true);
+    expect(trace.consensus).toMatchObject({ samples: 3, agreement: 1, nodeAgreement: 1, answerAgreement: 1 });
+    expect(trace.confidence).toBe("high");
+  });
+
+  it("gives nodes found in only some samples partial support and lowers the agreement", () => {
+    const extra = withRenamedIds(response, "b");
+    extra.explain_trace.nodes.push({
+      id: "lonely",
+      label: "Volcanic ash in the stratosphere",
+      type: "fact",
+      importance: 0.9,
+      stage_id: extra.explain_trace.stages[0].id,
+    });
+    const consensus = buildConsensus([response, extra, withRenamedIds(response, "c")]);
+    const lonely = consensus.explain_trace.nodes.find(n => n.label === "Volcanic ash in the stratosphere");
+
+    expect(lonely?.support).toBe(0.33);
+    expect(consensus.explain_trace.consensus!.nodeAgreement).toBeLessThan(1);
+    expect(consensus.explain_trace.confidence_score).toBe(consensus.explain_trace.consensus!.agreement);
+  });
+
+  it("counts disagreeing answers against the agreement", () => {
+    const other = { ...withRenamedIds(response, "b"), answer: "Because of ocean reflections and nothing else." };
+    const consensus = buildConsensus([response, other]);
+
+    expect(consensus.explain_trace.consensus!.answerAgreement).toBeLessThan(1);
+    expect(consensus.explain_trace.consensus!.sampleAnswers.map(s => s.answer)).toEqual([response.answer, other.answer]);
+  });
+});
+
+describe("generateConsensus", () => {
+  it("leaves failed samples out of the merge", async () => {
+    const mock = createMockProvider({ latencyMs: 0 });
+    const provider: ReasoningProvider = {
+      ...mock,
+      generate: async (request, options) => {
+        if (request.sample === 1) throw new Error("boom");
+        return mock.generate(request, options);
+      },
+    };
+
+    const result = await generateConsensus(provider, { prompt: "why is the sky blue", history: [] }, 3, { maxAttempts: 1 });
+
+    expect(result.explain_trace.consensus?.samples).toBe(2);
+  });
+});
+
+describe("parseSampleCount", () => {
+  it("accepts only the offered sample counts", () => {
+    expect(parseSampleCount("3")).toBe(3);
+    expect(parseSampleCount("5")).toBe(5);
+    expect(parseSampleCount("500")).toBe(1);
+    expect(parseSampleCount("2")).toBe(1);
+    expect(parseSampleCount(null)).toBe(1);
+    expect(parseSampleCount("abc")).toBe(1);
+  });
+});
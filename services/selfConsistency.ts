@@ -0,0 +1,248 @@
+import { ConsensusInfo, Edge, ExplainTrace, GeminiResponse, Node, Stage } from "../types";
+import { alignNodes } from "./traceDiff";
+import { tokenize } from "./grounding";
+import { confidenceForScore } from "./uncertainty";
+import { generateWithRetry, RetryOptions } from "./reasoningClient";
+import { ReasoningError, toReasoningError } from "./reasoningErrors";
+import type { ReasoningProvider, ReasoningRequest } from "./reasoningProvider";
+
+// Self-consistency: the same question is answered several times and the traces are merged into
+// one consensus trace. Equivalent nodes are clustered across samples (with the label alignment
+// used by the diff view), every node and edge records the share of samples that contained it,
+// and the confidence is derived from that agreement instead of the model's own label.
+
+export const SAMPLE_COUNTS = [1, 3, 5];
+
+// A remembered sample count; anything that is not one of the offered counts means a single sample.
+export const parseSampleCount = (value: string | null): number => {
+  const count = Number(value);
+  return SAMPLE_COUNTS.includes(count) ? count : SAMPLE_COUNTS[0];
+};
+
+// Weight of node agreement vs. answer agreement in the overall score
+const NODE_WEIGHT = 0.6;
+
+interface Member {
+  sample: number;
+  node: Node;
+}
+
+interface Cluster {
+  id: string;
+  seed: Node;
+  members: Member[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Mean of the values that are set; undefined when none is, so older samples add no field.
+const meanOf = (values: (number | undefined)[]): number | undefined => {
+  const set = values.filter((v): v is number => v !== undefined);
+  return set.length > 0 ? round2(set.reduce((sum, v) => sum + v, 0) / set.length) : undefined;
+};
+
+const normalize = (label: string) => label.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Most frequent value; ties go to the value seen first.
+const mostCommon = <T>(values: T[]): T => {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  let best = values[0];
+  counts.forEach((count, value) => {
+    if (count > (counts.get(best) || 0)) best = value;
+  });
+  return best;
+};
+
+// Dice coefficient over content words, so paraphrased answers still count as agreeing.
+const textSimilarity = (a: string, b: string): number => {
+  const ta = new Set(tokenize(a)), tb = new Set(tokenize(b));
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(t => {
+    if (tb.has(t)) shared++;
+  });
+  return (2 * shared) / (ta.size + tb.size);
+};
+
+const meanPairwise = <T>(items: T[], similarity: (a: T, b: T) => number): number => {
+  let total = 0, pairs = 0;
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      total += similarity(items[i], items[j]);
+      pairs++;
+    }
+  }
+  return pairs > 0 ? total / pairs : 1;
+};
+
+// Rendering helper: full opacity for unanimous or single-sample elements, fading with less support.
+export const supportOpacity = (support?: number) =>
+  support === undefined ? 1 : 0.3 + 0.7 * Math.max(0, Math.min(1, support));
+
+/**
+ * Maps each sample's stages onto the reference stages: by label where possible, otherwise by
+ * relative position, so phases named differently still line up.
+ */
+const mapStages = (reference: Stage[], stages: Stage[]): Map<string, string> => {
+  const mapping = new Map<string, string>();
+  stages.forEach((stage, i) => {
+    const byLabel = reference.find(r => normalize(r.label) === normalize(stage.label));
+    const position = stages.length > 1 ? Math.round((i * (reference.length - 1)) / (stages.length - 1)) : 0;
+    const target = byLabel ?? reference[Math.min(position, reference.length - 1)];
+    if (target) mapping.set(stage.id, target.id);
+  });
+  return mapping;
+};
+
+// The sample that shares the most nodes with the others anchors labels, stages and steps.
+const pickReference = (traces: ExplainTrace[]): number => {
+  const scores = traces.map(() => 0);
+  for (let i = 0; i < traces.length; i++) {
+    for (let j = i + 1; j < traces.length; j++) {
+      const matched = alignNodes(traces[i].nodes, traces[j].nodes).size;
+      const score = matched / Math.max(1, traces[i].nodes.length, traces[j].nodes.length);
+      scores[i] += score;
+      scores[j] += score;
+    }
+  }
+  return scores.indexOf(Math.max(...scores));
+};
+
+/** Merges several answers to the same question into one consensus response. */
+export const buildConsensus = (responses: GeminiResponse[]): GeminiResponse => {
+  const traces = responses.map(r => r.explain_trace);
+  const total = traces.length;
+  const referenceIndex = pickReference(traces);
+  const reference = traces[referenceIndex];
+  const order = [referenceIndex, ...traces.map((_, i) => i).filter(i => i !== referenceIndex)];
+
+  // Cluster nodes: each sample is aligned against one representative per existing cluster
+  const clusters: Cluster[] = [];
+  const clusterOf = traces.map(() => new Map<string, Cluster>());
+  const usedIds = new Set<string>();
+  order.forEach(sample => {
+    const representatives = clusters.map(c => ({ ...c.seed, id: c.id }));
+    const pairs = alignNodes(traces[sample].nodes, representatives);
+    traces[sample].nodes.forEach(node => {
+      const matched = pairs.get(node.id);
+      let cluster = matched !== undefined ? clusters.find(c => c.id === matched) : undefined;
+      if (!cluster) {
+        const id = usedIds.has(node.id) ? `s${sample + 1}-${node.id}` : node.id;
+        usedIds.add(id);
+        cluster = { id, seed: node, members: [] };
+        clusters.push(cluster);
+      }
+      cluster.members.push({ sample, node });
+      clusterOf[sample].set(node.id, cluster);
+    });
+  });
+
+  const stageMaps = traces.map(trace => mapStages(reference.stages, trace.stages));
+  const nodes: Node[] = clusters.map(cluster => {
+    const samples = new Set(cluster.members.map(m => m.sample));
+    const sources = Array.from(new Set(cluster.members.flatMap(m => m.node.sources || [])));
+    const certainty = meanOf(cluster.members.map(m => m.node.certainty));
+    const stageIds = cluster.members
+      .map(m => stageMaps[m.sample].get(m.node.stage_id))
+      .filter((id): id is string => Boolean(id));
+    return {
+      id: cluster.id,
+      label: cluster.seed.label,
+      type: mostCommon([cluster.seed.type, ...cluster.members.map(m => m.node.type)]),
+      importance: round2(cluster.members.reduce((sum, m) => sum + m.node.importance, 0) / cluster.members.length),
+      stage_id: stageIds.length > 0 ? mostCommon(stageIds) : reference.stages[0]?.id ?? cluster.seed.stage_id,
+      ...(certainty !== undefined ? { certainty } : {}),
+      ...(sources.length > 0 ? { sources } : {}),
+      support: round2(samples.size / total),
+    };
+  });
+
+  // Edges between clusters, merged across samples
+  const edgeGroups = new Map<string, { source: string; target: string; edges: Edge[]; samples: Set<number> }>();
+  traces.forEach((trace, sample) => {
+    trace.edges.forEach(edge => {
+      const source = clusterOf[sample].get(edge.source)?.id;
+      const target = clusterOf[sample].get(edge.target)?.id;
+      if (!source || !target || source === target) return;
+      const key = `${source}\u0000${target}`;
+      const group = edgeGroups.get(key) ?? { source, target, edges: [], samples: new Set<number>() };
+      group.edges.push(edge);
+      group.samples.add(sample);
+      edgeGroups.set(key, group);
+    });
+  });
+  const edges: Edge[] = Array.from(edgeGroups.values()).map(group => {
+    const certainty = meanOf(group.edges.map(e => e.certainty));
+    return {
+      source: group.source,
+      target: group.target,
+      relation_label: mostCommon(group.edges.map(e => e.relation_label).filter(Boolean)) ?? "",
+      strength: round2(group.edges.reduce((sum, e) => sum + e.strength, 0) / group.edges.length),
+      ...(certainty !== undefined ? { certainty } : {}),
+      support: round2(group.samples.size / total),
+    };
+  });
+
+  const totalImportance = nodes.reduce((sum, n) => sum + n.importance, 0) || 1;
+  const nodeAgreement = nodes.reduce((sum, n) => sum + n.importance * (n.support ?? 0), 0) / totalImportance;
+  const answerAgreement = meanPairwise(responses.map(r => r.answer), textSimilarity);
+  const agreement = NODE_WEIGHT * nodeAgreement + (1 - NODE_WEIGHT) * answerAgreement;
+  const consensus: ConsensusInfo = {
+    samples: total,
+    agreement: round2(agreement),
+    nodeAgreement: round2(nodeAgreement),
+    answerAgreement: round2(answerAgreement),
+    sampleAnswers: responses.map(r => ({ answer: r.answer, confidence: r.explain_trace.confidence })),
+  };
+
+  const toClusterIds = (ids: string[]) =>
+    Array.from(new Set(ids.map(id => clusterOf[referenceIndex].get(id)?.id).filter((id): id is string => Boolean(id))));
+
+  return {
+    answer: responses[referenceIndex].answer,
+    explain_trace: {
+      stages: reference.stages,
+      nodes,
+      edges,
+      steps: reference.steps,
+      ...(reference.step_node_ids ? { step_node_ids: reference.step_node_ids.map(toClusterIds) } : {}),
+      key_factors: reference.key_factors,
+      confidence: confidenceForScore(agreement),
+      confidence_score: round2(agreement),
+      timestamp: new Date().toISOString(),
+      consensus,
+    },
+    issues: responses[referenceIndex].issues,
+  };
+};
+
+/**
+ * Runs `count` generations of the same request in parallel (without streaming) and merges
+ * them. Failed samples are left out; if only one succeeds it is returned unchanged, and if
+ * none does the first error is thrown.
+ */
+export const generateConsensus = async (
+  provider: ReasoningProvider,
+  request: ReasoningRequest,
+  count: number,
+  options: RetryOptions = {}
+): Promise<GeminiResponse> => {
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, (_, sample) =>
+      generateWithRetry(provider, { ...request, sample }, { ...options, onPartial: undefined, onRetry: undefined })
+    )
+  );
+  if (options.signal?.aborted) throw new ReasoningError("aborted", "Request was cancelled");
+
+  const responses = results
+    .filter((r): r is PromiseFulfilledResult<GeminiResponse> => r.status === "fulfilled")
+    .map(r => r.value);
+  if (responses.length === 0) {
+    throw toReasoningError((results[0] as PromiseRejectedResult).reason);
+  }
+  if (responses.length < count) {
+    console.warn(`${count - responses.length} of ${count} samples failed and were left out of the consensus`);
+  }
+  return responses.length === 1 ? responses[0] : buildConsensus(responses);
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { SHARE_HASH_PREFIX, ShareError, createShareLink, isShareHash, readShareHash, renderShareHtml } from "./share";
+import { generateMockResponse } from "./mockProvider";
+import { HistoryItem } from "../types";
+
+const response = generateMockResponse("why is the sky blue", 1);
+const item: HistoryItem = {
+  id: "item-1",
+  conversationId: "conversation-1",
+  question: "why is the sky blue",
+  answer: response.answer,
+  explain_trace: response.explain_trace,
+  timestamp: response.explain_trace.timestamp,
+  title: "Sky colour",
+  note: "Check the <b>sunset</b> case too",
+  pinned: true,
+  tags: ["physics"],
+  sources: [{ id: "S1", documentId: "doc-1", documentName: "optics.txt", text: "Short wavelengths scatter more." }],
+};
+
+const BASE_URL = "https://neuroviz.example/app";
+
+describe("share links", () => {
+  it("round-trips the shared fields and leaves private ones out", async () => {
+    const link = await createShareLink(item, BASE_URL);
+    const hash = link.url.slice(BASE_URL.length);
+
+    expect(link.withoutSources).toBe(false);
+    expect(isShareHash(hash)).toBe(true);
+
+    const shared = await readShareHash(hash);
+    expect(shared).toMatchObject({
+      id: item.id,
+      question: item.question,
+      answer: item.answer,
+      title: item.title,
+      note: item.note,
+      sources: item.sources,
+    });
+    expect(shared.explain_trace.nodes).toEqual(item.explain_trace.nodes);
+    expect(shared.conversationId).toBeUndefined();
+    expect(shared.pinned).toBeUndefined();
+    expect(shared.tags).toBeUndefined();
+  });
+
+  it("rejects a damaged hash with a ShareError", async () => {
+    const { url } = await createShareLink(item, BASE_URL);
+    const hash = url.slice(BASE_URL.length);
+
+    await expect(readShareHash(hash.slice(0, hash.length / 2))).rejects.toThrow(ShareError);
+    await expect(readShareHash(`${SHARE_HASH_PREFIX}not*base64`)).rejects.toThrow("damaged or incomplete");
+  });
+});
+
+describe("renderShareHtml", () => {
+  it("embeds the item without letting its text close the data script", () => {
+    const html = renderShareHtml({ ...item, answer: "</script><script>alert(1)</script>" });
+    const data = /<script type="application\/json" id="nv-data">(.*?)<\/script>/s.exec(html)?.[1] ?? "";
+
+    expect(data).not.toContain("<");
+    expect(JSON.parse(data).answer).toBe("</script><script>alert(1)</script>");
+    expect(JSON.parse(data).conversationId).toBeUndefined();
+  });
+});
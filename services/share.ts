@@ -0,0 +1,243 @@
+import { HistoryItem, Node } from "../types";
+import { DEFAULT_FONT, escapeSvgText, renderTraceSvg } from "./traceSvg";
+import { CONFIDENCE_COLORS, confidenceText, reportDate } from "./traceReport";
+import { HISTORY_SCHEMA_VERSION, MigrationError, migrateHistoryItem } from "./schemaMigrations";
+
+// Sharing without a server: a history item is either deflated into the URL hash of a link that
+// opens it read-only, or written into a single HTML file with a small inline viewer.
+
+export type ShareTarget = "link" | "html";
+
+export const SHARE_HASH_PREFIX = "#share=";
+// Longer links get cut off by chat apps and mail clients
+const MAX_SHARE_URL_LENGTH = 60000;
+
+export class ShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareError";
+  }
+}
+
+export interface ShareLink {
+  url: string;
+  withoutSources: boolean; // The document excerpts were left out to keep the link short enough
+}
+
+// Only what a viewer needs; conversation links, pins and issues stay private.
+const sharedFields = (item: HistoryItem, withSources: boolean): Partial<HistoryItem> => ({
+  id: item.id,
+  question: item.question,
+  answer: item.answer,
+  explain_trace: item.explain_trace,
+  timestamp: item.timestamp,
+  ...(item.title ? { title: item.title } : {}),
+  ...(item.note ? { note: item.note } : {}),
+  ...(withSources && item.sources?.length ? { sources: item.sources } : {}),
+  schemaVersion: HISTORY_SCHEMA_VERSION,
+});
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  // Chunked so large traces don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const encodeItem = async (fields: Partial<HistoryItem>) =>
+  toBase64Url(await transform(new TextEncoder().encode(JSON.stringify(fields)), new CompressionStream("deflate-raw")));
+
+/**
+ * Builds a link to this app with the item deflated into the hash, which never reaches a
+ * server. Document excerpts are dropped first when the link would get too long.
+ */
+export const createShareLink = async (item: HistoryItem, baseUrl = `${location.origin}${location.pathname}`): Promise<ShareLink> => {
+  for (const withSources of item.sources?.length ? [true, false] : [false]) {
+    const url = `${baseUrl}${SHARE_HASH_PREFIX}${await encodeItem(sharedFields(item, withSources))}`;
+    if (url.length <= MAX_SHARE_URL_LENGTH) return { url, withoutSources: !withSources && Boolean(item.sources?.length) };
+  }
+  throw new ShareError("This trace is too large for a link. Share it as an HTML file instead.");
+};
+
+export const isShareHash = (hash: string) => hash.startsWith(SHARE_HASH_PREFIX);
+
+/** Decodes a shared item from a location hash; it goes through the same migrations as stored items. */
+export const readShareHash = async (hash: string): Promise<HistoryItem> => {
+  let raw: unknown;
+  try {
+    const bytes = await transform(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)), new DecompressionStream("deflate-raw"));
+    raw = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new ShareError("This share link is damaged or incomplete.");
+  }
+  try {
+    return { ...migrateHistoryItem(raw), conversationId: undefined };
+  } catch (error) {
+    if (error instanceof MigrationError) throw new ShareError(`The shared trace ${error.message}.`);
+    throw error;
+  }
+};
+
+// JSON inside <script> must not be able to close the tag
+const embedJson = (value: unknown) => JSON.stringify(value).replace(/</g, "\\u003c");
+
+// Plain script for the standalone page: clicking a node (or a step) highlights it with its
+// neighbours and shows its details next to the graph.
+const VIEWER_SCRIPT = `
+(() => {
+  const item = JSON.parse(document.getElementById("nv-data").textContent);
+  const trace = item.explain_trace;
+  const byId = new Map(trace.nodes.map(n => [n.id, n]));
+  const stageOf = id => (trace.stages.find(s => s.id === id) || {}).label || id;
+  const sourceOf = id => (item.sources || []).find(s => s.id === id);
+  const panel = document.getElementById("nv-details");
+  const hint = panel.innerHTML;
+  const groups = Array.from(document.querySelectorAll("[data-node-id]"));
+  const esc = text => { const d = document.createElement("div"); d.textContent = String(text); return d.innerHTML.replace(/"/g, "&quot;"); };
+  const pct = value => Math.round(value * 100) + "%";
+  let selected = null;
+
+  const highlight = (ids, focus) => {
+    groups.forEach(g => {
+      const id = g.getAttribute("data-node-id");
+      g.classList.toggle("nv-dim", ids !== null && !ids.includes(id));
+      g.classList.toggle("nv-focus", id === focus);
+    });
+  };
+
+  const relation = (edge, incoming) => {
+    const other = byId.get(incoming ? edge.source : edge.target);
+    const label = esc(other ? other.label : "?");
+    const text = incoming ? label + " <em>" + esc(edge.relation_label) + "</em> this" : "<em>" + esc(edge.relation_label) + "</em> " + label;
+    return '<li><a href="#" data-goto="' + esc(other ? other.id : "") + '">' + text + "</a></li>";
+  };
+
+  const select = id => {
+    const node = byId.get(id);
+    selected = node ? id : null;
+    if (!node) {
+      highlight(null, null);
+      panel.innerHTML = hint;
+      return;
+    }
+    const incoming = trace.edges.filter(e => e.target === id);
+    const outgoing = trace.edges.filter(e => e.source === id);
+    highlight([id, ...incoming.map(e => e.source), ...outgoing.map(e => e.target)], id);
+    const facts = [node.type, "importance " + node.importance.toFixed(2)];
+    if (node.certainty !== undefined) facts.push("certainty " + pct(node.certainty));
+    if (node.support !== undefined) facts.push("support " + pct(node.support));
+    const sources = (node.sources || []).map(sourceOf).filter(Boolean);
+    panel.innerHTML =
+      "<h3>" + esc(node.label) + "</h3>" +
+      '<p class="meta">' + esc(facts.join(" · ")) + "</p>" +
+      '<p class="meta">Stage: ' + esc(stageOf(node.stage_id)) + "</p>" +
+      (incoming.length || outgoing.length ? "<ul>" + incoming.map(e => relation(e, true)).join("") + outgoing.map(e => relation(e, false)).join("") + "</ul>" : "") +
+      sources.map(s => '<blockquote><strong>' + esc(s.id) + "</strong> " + esc(s.documentName) + "<br>" + esc(s.text) + "</blockquote>").join("");
+  };
+
+  groups.forEach(g => {
+    g.setAttribute("tabindex", "0");
+    g.setAttribute("role", "button");
+    const id = g.getAttribute("data-node-id");
+    g.addEventListener("click", () => select(selected === id ? null : id));
+    g.addEventListener("keydown", e => {
+      if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        select(selected === id ? null : id);
+      }
+    });
+  });
+  panel.addEventListener("click", e => {
+    const target = e.target.closest("[data-goto]");
+    if (!target) return;
+    e.preventDefault();
+    select(target.getAttribute("data-goto"));
+  });
+  document.querySelectorAll("[data-step]").forEach(li => {
+    li.addEventListener("click", () => {
+      const ids = (trace.step_node_ids || [])[Number(li.getAttribute("data-step"))] || [];
+      selected = null;
+      panel.innerHTML = hint;
+      highlight(ids.length ? ids : null, null);
+    });
+  });
+  document.addEventListener("keydown", e => {
+    if (e.key === "Escape") select(null);
+  });
+})();
+`;
+
+/**
+ * A single HTML file with the trace embedded as JSON, its graph as inline SVG and a small
+ * script to explore it. It works offline and needs nothing from this app.
+ */
+export const renderShareHtml = (item: HistoryItem, colorOf?: (type: Node["type"]) => string): string => {
+  const trace = item.explain_trace;
+  const graph = renderTraceSvg(trace, { colorOf, legend: true });
+  const title = item.title || item.question || "Reasoning trace";
+  const paragraphs = (text: string) =>
+    text.split(/\n+/).filter(p => p.trim()).map(p => `<p>${escapeSvgText(p)}</p>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="NeuroViz">
+<title>${escapeSvgText(title)}</title>
+<style>
+  body { font-family: ${DEFAULT_FONT}; color: #1e293b; max-width: 1200px; margin: 0 auto; padding: 24px; font-size: 13px; line-height: 1.5; }
+  h1 { font-size: 20px; margin: 0 0 4px; color: #0f172a; }
+  h2 { font-size: 11px; letter-spacing: 1px; text-transform: uppercase; color: #334155; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin: 20px 0 8px; }
+  h3 { font-size: 14px; margin: 0 0 4px; }
+  .meta { color: #475569; margin: 0 0 4px; }
+  .confidence { font-weight: 600; color: ${CONFIDENCE_COLORS[trace.confidence] ?? "#475569"}; }
+  .explorer { display: flex; gap: 16px; align-items: flex-start; }
+  .graph { flex: 1; min-width: 0; overflow: auto; border: 1px solid #e2e8f0; border-radius: 8px; }
+  .graph svg { display: block; max-width: 100%; height: auto; }
+  #nv-details { width: 280px; flex-shrink: 0; position: sticky; top: 16px; background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; }
+  #nv-details ul { padding-left: 16px; }
+  #nv-details a { color: #1d4ed8; text-decoration: none; }
+  #nv-details a:hover { text-decoration: underline; }
+  blockquote { margin: 8px 0 0; padding: 6px 8px; border-left: 3px solid #93c5fd; background: #fff; font-size: 12px; color: #475569; white-space: pre-wrap; }
+  [data-node-id] { cursor: pointer; transition: opacity 0.15s; }
+  [data-node-id]:focus { outline: none; }
+  [data-node-id]:focus rect:first-of-type, .nv-focus rect:first-of-type { stroke: #3b82f6; stroke-width: 3; }
+  .nv-dim { opacity: 0.2; }
+  [data-step] { cursor: pointer; }
+  [data-step]:hover { color: #1d4ed8; }
+  li { margin-bottom: 4px; }
+  @media (max-width: 800px) { .explorer { flex-direction: column; } #nv-details { width: auto; position: static; } }
+</style>
+</head>
+<body>
+<h1>${escapeSvgText(title)}</h1>
+${item.title && item.question ? `<p class="meta">${escapeSvgText(item.question)}</p>` : ""}
+<p class="meta">${escapeSvgText(reportDate(trace))} · <span class="confidence">${escapeSvgText(confidenceText(trace))}</span></p>
+${item.answer ? `<h2>Answer</h2>${paragraphs(item.answer)}` : ""}
+${item.note ? `<h2>Note</h2>${paragraphs(item.note)}` : ""}
+<h2>Reasoning graph</h2>
+<div class="explorer">
+<div class="graph">${graph.svg}</div>
+<aside id="nv-details"><p class="meta">Click a node to see its relations${item.sources?.length ? " and cited excerpts" : ""}; click a step to highlight its nodes.</p></aside>
+</div>
+${trace.steps.length > 0 ? `<h2>Cognitive steps</h2><ol>${trace.steps.map((s, i) => `<li data-step="${i}">${escapeSvgText(s)}</li>`).join("")}</ol>` : ""}
+${trace.key_factors.length > 0 ? `<h2>Key basis</h2><ul>${trace.key_factors.map(f => `<li>${escapeSvgText(f)}</li>`).join("")}</ul>` : ""}
+<script type="application/json" id="nv-data">${embedJson(sharedFields(item, true))}</script>
+<script>${VIEWER_SCRIPT}</script>
+</body>
+</html>
+`;
+};
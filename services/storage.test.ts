@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createCollectionSync } from "./storage";
+
+describe("createCollectionSync", () => {
+  it("writes only changed and removed items", async () => {
+    const puts: string[][] = [];
+    const removes: string[][] = [];
+    const sync = createCollectionSync<{ id: string }>(
+      async items => { puts.push(items.map(i => i.id)); },
+      async ids => { removes.push(ids); }
+    );
+    const a = { id: "a" };
+    const b = { id: "b" };
+    sync.prime([a, b]);
+
+    await sync.sync([a, { id: "b" }, { id: "c" }]);
+    await sync.sync([a]);
+
+    expect(puts).toEqual([["b", "c"]]);
+    expect(removes).toEqual([["b", "c"]]);
+  });
+
+  it("retries a failed write on the next sync", async () => {
+    let fail = true;
+    const puts: string[][] = [];
+    const sync = createCollectionSync<{ id: string }>(
+      async items => {
+        if (fail) throw new Error("quota");
+        puts.push(items.map(i => i.id));
+      },
+      async () => {}
+    );
+    const items = [{ id: "a" }];
+
+    await expect(sync.sync(items)).rejects.toThrow("quota");
+    fail = false;
+    await sync.sync(items);
+
+    expect(puts).toEqual([["a"]]);
+  });
+});
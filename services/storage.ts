@@ -0,0 +1,459 @@
+import { Conversation, HistoryItem } from "../types";
+import { CONVERSATIONS_STORAGE_KEY, normalizeConversation } from "./conversations";
+import {
+  CONVERSATION_SCHEMA_VERSION,
+  HISTORY_SCHEMA_VERSION,
+  MigrationError,
+  migrateConversation,
+  migrateHistoryItem,
+} from "./schemaMigrations";
+
+// IndexedDB-backed persistence. Traces, conversations and thumbnail images live in separate
+// object stores so that saving one item never re-serializes the whole history, and PNG
+// thumbnails are kept as binary blobs instead of base64 strings. Records that fail to migrate
+// to the current schema (see schemaMigrations.ts) are moved to a quarantine store.
+
+const DB_NAME = "neuroviz";
+const LEGACY_HISTORY_KEY = "neuroviz_history";
+
+export const STORES = {
+  conversations: "conversations",
+  traces: "traces",
+  thumbnails: "thumbnails",
+  meta: "meta",
+  quarantine: "quarantine",
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+interface ThumbnailRecord {
+  id: string; // Same id as the HistoryItem it belongs to
+  blob: Blob;
+  createdAt: string;
+}
+
+interface MetaRecord {
+  key: string;
+  value: unknown;
+}
+
+// A stored record that could not be migrated, kept verbatim so it can still be exported
+export interface QuarantineRecord {
+  id: string; // "<store>:<original id>"
+  store: StoreName;
+  record: unknown;
+  error: string;
+  quarantinedAt: string;
+}
+
+// Raised when the browser refuses to store more data even after evicting thumbnails.
+export class StorageQuotaError extends Error {
+  constructor(message = "Browser storage is full") {
+    super(message);
+    this.name = "StorageQuotaError";
+  }
+}
+
+// localStorage access for small values (UI preferences, legacy keys). It throws (SecurityError)
+// when the browser blocks storage; the values then simply aren't remembered.
+export const readLocalValue = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+};
+
+export const writeLocalValue = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch (e) {
+    console.warn(`Could not remember ${key}`, e);
+  }
+};
+
+export const removeLocalValue = (key: string) => {
+  try {
+    localStorage.removeItem(key);
+  } catch (e) {
+    console.warn(`Could not remove ${key}`, e);
+  }
+};
+
+// Raised when the browser offers no usable IndexedDB (e.g. some private browsing modes).
+export class StorageUnavailableError extends Error {
+  constructor(message = "Browser storage is not available") {
+    super(message);
+    this.name = "StorageUnavailableError";
+  }
+}
+
+/**
+ * Schema migrations, applied in order inside `onupgradeneeded`. Entry N upgrades a database
+ * at version N to N + 1; the database version is the length of this list. Never edit a
+ * shipped entry - append a new one instead.
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: initial stores
+  (db) => {
+    db.createObjectStore(STORES.conversations, { keyPath: "id" });
+    const traces = db.createObjectStore(STORES.traces, { keyPath: "id" });
+    traces.createIndex("by_conversation", "conversationId");
+    traces.createIndex("by_timestamp", "timestamp");
+    const thumbnails = db.createObjectStore(STORES.thumbnails, { keyPath: "id" });
+    thumbnails.createIndex("by_created", "createdAt");
+    db.createObjectStore(STORES.meta, { keyPath: "key" });
+  },
+  // v2: records that failed a schema migration
+  (db) => {
+    db.createObjectStore(STORES.quarantine, { keyPath: "id" });
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException("Transaction aborted", "AbortError"));
+  });
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new StorageUnavailableError("IndexedDB is not available"));
+        return;
+      }
+      let request: IDBOpenDBRequest;
+      try {
+        request = indexedDB.open(DB_NAME, DB_VERSION);
+      } catch (error) {
+        reject(new StorageUnavailableError(error instanceof Error ? error.message : undefined));
+        return;
+      }
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](db, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        const { error } = request;
+        // Private modes refuse to open databases at all
+        reject(error?.name === "InvalidStateError" || error?.name === "SecurityError"
+          ? new StorageUnavailableError(error.message)
+          : error);
+      };
+      request.onblocked = () => console.warn("IndexedDB upgrade blocked by another open tab");
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+// Drops the oldest thumbnails to free space; they are only previews and can be regenerated.
+const evictOldestThumbnails = async (count: number): Promise<number> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.thumbnails, "readwrite");
+  const index = tx.objectStore(STORES.thumbnails).index("by_created");
+  let evicted = 0;
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = index.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || evicted >= count) {
+        resolve();
+        return;
+      }
+      cursor.delete();
+      evicted++;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+  await transactionDone(tx);
+  return evicted;
+};
+
+const EVICTION_BATCH = 20;
+
+/**
+ * Runs a write transaction. When the quota is exceeded, old thumbnails are evicted and the
+ * write is retried once; if it still fails a StorageQuotaError is thrown for the UI.
+ */
+const write = async (stores: StoreName[], fn: (tx: IDBTransaction) => void): Promise<void> => {
+  const attempt = async () => {
+    const db = await openDatabase();
+    const tx = db.transaction(stores, "readwrite");
+    fn(tx);
+    await transactionDone(tx);
+  };
+
+  try {
+    await attempt();
+  } catch (error) {
+    if (!isQuotaError(error)) throw error;
+    const evicted = await evictOldestThumbnails(EVICTION_BATCH);
+    console.warn(`Storage quota exceeded, evicted ${evicted} thumbnails`);
+    try {
+      await attempt();
+    } catch (retryError) {
+      if (isQuotaError(retryError)) throw new StorageQuotaError();
+      throw retryError;
+    }
+  }
+};
+
+const readAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisify(db.transaction(store, "readonly").objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+// Thumbnails are captured as PNG data URLs by the graph; decode them without a network round-trip.
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(",");
+  const mime = /data:([^;]+)/.exec(header)?.[1] || "application/octet-stream";
+  const binary = atob(data || "");
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mime });
+};
+
+// The thumbnail is stored separately; traces never carry the image payload.
+const toTraceRecord = (item: HistoryItem): HistoryItem => {
+  const { thumbnail: _thumbnail, ...rest } = item;
+  return rest;
+};
+
+export const putHistoryItems = (items: HistoryItem[]) =>
+  write([STORES.traces], tx => {
+    const store = tx.objectStore(STORES.traces);
+    items.forEach(item => store.put({ ...toTraceRecord(item), schemaVersion: HISTORY_SCHEMA_VERSION }));
+  });
+
+export const deleteHistoryItems = (ids: string[]) =>
+  write([STORES.traces, STORES.thumbnails], tx => {
+    ids.forEach(id => {
+      tx.objectStore(STORES.traces).delete(id);
+      tx.objectStore(STORES.thumbnails).delete(id);
+    });
+  });
+
+export const putConversations = (conversations: Conversation[]) =>
+  write([STORES.conversations], tx => {
+    const store = tx.objectStore(STORES.conversations);
+    conversations.forEach(c => store.put({ ...c, schemaVersion: CONVERSATION_SCHEMA_VERSION }));
+  });
+
+export const deleteConversations = (ids: string[]) =>
+  write([STORES.conversations], tx => {
+    ids.forEach(id => tx.objectStore(STORES.conversations).delete(id));
+  });
+
+export const saveThumbnail = (id: string, dataUrl: string) => saveThumbnailBlob(id, dataUrlToBlob(dataUrl));
+
+export const saveThumbnailBlob = (id: string, blob: Blob) =>
+  write([STORES.thumbnails], tx => {
+    const record: ThumbnailRecord = { id, blob, createdAt: new Date().toISOString() };
+    tx.objectStore(STORES.thumbnails).put(record);
+  });
+
+const getMeta = async (key: string): Promise<unknown> => {
+  const db = await openDatabase();
+  const record = await promisify(db.transaction(STORES.meta, "readonly").objectStore(STORES.meta).get(key));
+  return (record as MetaRecord | undefined)?.value;
+};
+
+/**
+ * One-time import of the data the app used to keep in localStorage. The legacy keys are
+ * only removed after the IndexedDB write succeeded, so a failed import is retried next load.
+ */
+const importLegacyLocalStorage = async (): Promise<void> => {
+  if (await getMeta("legacyImported")) return;
+
+  const parse = <T>(key: string): T[] => {
+    try {
+      const parsed = JSON.parse(readLocalValue(key) || "[]");
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+      console.error(`Failed to parse legacy ${key}`, e);
+      return [];
+    }
+  };
+  const history = parse<HistoryItem>(LEGACY_HISTORY_KEY);
+  const conversations = parse<Conversation>(CONVERSATIONS_STORAGE_KEY);
+
+  // Records are written as they were (unversioned), so they are migrated like any other on load.
+  // Thumbnails are optional; if they don't fit, import the traces without them.
+  const thumbnails: ThumbnailRecord[] = [];
+  history.forEach(item => {
+    if (!item.thumbnail?.startsWith("data:")) return;
+    try {
+      thumbnails.push({ id: item.id, blob: dataUrlToBlob(item.thumbnail), createdAt: item.timestamp });
+    } catch (e) {
+      console.warn("Skipping unreadable legacy thumbnail", e);
+    }
+  });
+
+  await write([STORES.traces, STORES.conversations, STORES.meta], tx => {
+    history.forEach(item => tx.objectStore(STORES.traces).put(toTraceRecord(item)));
+    conversations.forEach(c => tx.objectStore(STORES.conversations).put(c));
+    tx.objectStore(STORES.meta).put({ key: "legacyImported", value: new Date().toISOString() } as MetaRecord);
+  });
+  await write([STORES.thumbnails], tx => {
+    thumbnails.forEach(t => tx.objectStore(STORES.thumbnails).put(t));
+  }).catch(e => console.warn("Legacy thumbnails were not imported", e));
+
+  removeLocalValue(LEGACY_HISTORY_KEY);
+  removeLocalValue(CONVERSATIONS_STORAGE_KEY);
+};
+
+export interface StoredData {
+  history: HistoryItem[];
+  conversations: Conversation[];
+  quarantined: number; // Records set aside during this load
+}
+
+interface MigrationOutcome<T> {
+  current: T[];
+  upgraded: T[];
+  quarantined: QuarantineRecord[];
+}
+
+/**
+ * Brings every record of a store to the current schema. Records written by a newer version of
+ * the app are skipped but kept in place; records that fail to migrate are quarantined.
+ */
+export const migrateRecords = <T extends { id: string; schemaVersion?: number }>(
+  store: StoreName,
+  records: unknown[],
+  migrate: (raw: unknown) => T,
+  version: number
+): MigrationOutcome<T> => {
+  const outcome: MigrationOutcome<T> = { current: [], upgraded: [], quarantined: [] };
+  const now = new Date().toISOString();
+  records.forEach(raw => {
+    try {
+      const item = migrate(raw);
+      outcome.current.push(item);
+      if ((raw as { schemaVersion?: number }).schemaVersion !== version) outcome.upgraded.push(item);
+    } catch (error) {
+      if (error instanceof MigrationError && error.newer) {
+        console.warn(`Skipping a ${store} record that ${error.message}`);
+        return;
+      }
+      // Every stored record has a key under its keyPath, even if it is not a string
+      const key = (raw as { id: IDBValidKey }).id;
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Quarantining ${store} record ${String(key)}: ${message}`);
+      outcome.quarantined.push({
+        id: `${store}:${String(key)}`,
+        store,
+        record: raw,
+        error: message,
+        quarantinedAt: now,
+      });
+    }
+  });
+  return outcome;
+};
+
+// Stores upgraded records and moves failed ones to the quarantine, in one transaction.
+const applyMigrations = async (
+  traces: MigrationOutcome<HistoryItem>,
+  conversations: MigrationOutcome<Conversation>
+): Promise<void> => {
+  const quarantined = [...traces.quarantined, ...conversations.quarantined];
+  if (traces.upgraded.length === 0 && conversations.upgraded.length === 0 && quarantined.length === 0) return;
+  await write([STORES.traces, STORES.conversations, STORES.quarantine], tx => {
+    traces.upgraded.forEach(item => tx.objectStore(STORES.traces).put(item));
+    conversations.upgraded.forEach(c => tx.objectStore(STORES.conversations).put(c));
+    quarantined.forEach(q => {
+      tx.objectStore(q.store).delete((q.record as { id: IDBValidKey }).id);
+      tx.objectStore(STORES.quarantine).put(q);
+    });
+  });
+};
+
+// Thumbnails are held as object URLs, which stay alive until revoked; call this when the
+// item they belong to is removed or gets a new thumbnail.
+export const revokeThumbnailUrl = (url?: string) => {
+  if (url?.startsWith("blob:")) URL.revokeObjectURL(url);
+};
+
+// Loads everything for the app, running the legacy import and schema migrations first.
+// Thumbnails come back as object URLs.
+export const loadStoredData = async (): Promise<StoredData> => {
+  await importLegacyLocalStorage();
+  const [traceRecords, conversationRecords, thumbnails] = await Promise.all([
+    readAll<unknown>(STORES.traces),
+    readAll<unknown>(STORES.conversations),
+    readAll<ThumbnailRecord>(STORES.thumbnails),
+  ]);
+  const traces = migrateRecords(STORES.traces, traceRecords, migrateHistoryItem, HISTORY_SCHEMA_VERSION);
+  const conversations = migrateRecords(
+    STORES.conversations, conversationRecords, migrateConversation, CONVERSATION_SCHEMA_VERSION
+  );
+  // A failed write only means the migration runs again next time
+  await applyMigrations(traces, conversations).catch(e => console.warn("Migrated records were not saved", e));
+  const thumbnailUrls = new Map(thumbnails.map(t => [t.id, URL.createObjectURL(t.blob)]));
+
+  return {
+    history: traces.current
+      .map(item => ({ ...item, thumbnail: thumbnailUrls.get(item.id) }))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    conversations: conversations.current.map(normalizeConversation),
+    quarantined: traces.quarantined.length + conversations.quarantined.length,
+  };
+};
+
+export const readQuarantine = () => readAll<QuarantineRecord>(STORES.quarantine);
+
+/**
+ * Tracks the last persisted version of a collection and writes only what changed.
+ * React state updates produce new objects for modified items, so reference equality
+ * is enough to detect them. Items only count as persisted once their write succeeded,
+ * so a failed write is retried by the next sync.
+ */
+export const createCollectionSync = <T extends { id: string }>(
+  put: (items: T[]) => Promise<void>,
+  remove: (ids: string[]) => Promise<void>
+) => {
+  let previous = new Map<string, T>();
+  return {
+    // Marks the given items as already persisted (e.g. right after loading).
+    prime(items: T[]) {
+      previous = new Map(items.map(i => [i.id, i]));
+    },
+    async sync(items: T[]) {
+      const next = new Map(items.map(i => [i.id, i]));
+      const changed = items.filter(i => previous.get(i.id) !== i);
+      const removed = Array.from(previous.keys()).filter(id => !next.has(id));
+      if (changed.length > 0) {
+        await put(changed);
+        changed.forEach(i => previous.set(i.id, i));
+      }
+      if (removed.length > 0) {
+        await remove(removed);
+        removed.forEach(id => previous.delete(id));
+      }
+    },
+  };
+};
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { Edge, ExplainTrace, Node } from "../types";
+import { alignNodes, diffEdgeKey, diffTraces, labelSimilarity } from "./traceDiff";
+
+const node = (id: string, label: string, stage_id = "s1", type: Node["type"] = "fact", importance = 0.5): Node => ({
+  id,
+  label,
+  type,
+  importance,
+  stage_id,
+});
+
+const edge = (source: string, target: string, strength = 0.5): Edge => ({ source, target, relation_label: "supports", strength });
+
+const trace = (nodes: Node[], edges: Edge[], stages = [{ id: "s1", label: "Recall" }]): ExplainTrace => ({
+  stages: stages.map(s => ({ ...s, description: "", weight: 1 })),
+  nodes,
+  edges,
+  steps: [],
+  key_factors: [],
+  confidence: "medium",
+  timestamp: "2024-01-01T00:00:00.000Z",
+});
+
+describe("labelSimilarity", () => {
+  it("ignores case and punctuation and scores shared words", () => {
+    expect(labelSimilarity("Blue light scatters!", "blue light scatters")).toBe(1);
+    expect(labelSimilarity("blue light scatters", "red light scatters")).toBeCloseTo(2 / 3);
+    expect(labelSimilarity("sunlight", "")).toBe(0);
+  });
+});
+
+describe("alignNodes", () => {
+  it("matches by label before id, so renamed ids still pair up", () => {
+    const before = [node("n1", "Sunlight contains all colours"), node("n2", "Blue scatters more")];
+    const after = [node("x", "Blue scatters more"), node("n1", "Sunlight contains all colours")];
+
+    expect(alignNodes(before, after)).toEqual(new Map([["n1", "n1"], ["n2", "x"]]));
+  });
+
+  it("keeps a reused id only while the label still looks alike", () => {
+    const before = [node("n1", "Rayleigh scattering of short wavelengths")];
+
+    expect(alignNodes(before, [node("n1", "Rayleigh scattering of blue light")]).get("n1")).toBe("n1");
+    expect(alignNodes(before, [node("n1", "Ocean reflection")]).has("n1")).toBe(false);
+  });
+
+  it("pairs the most similar remaining nodes and leaves the rest unmatched", () => {
+    const before = [node("a", "air molecules scatter light"), node("b", "the ocean is blue")];
+    const after = [node("p", "ocean colour"), node("q", "molecules scatter sunlight")];
+
+    expect(alignNodes(before, after)).toEqual(new Map([["a", "q"]]));
+  });
+});
+
+describe("diffTraces", () => {
+  const before = trace(
+    [node("q", "Why is the sky blue", "s1", "intent"), node("f", "Blue light scatters more"), node("old", "Ozone absorbs red")],
+    [edge("q", "f"), edge("f", "old")]
+  );
+  const after = trace(
+    [node("q2", "Why is the sky blue", "s1", "intent"), node("f2", "Blue light scatters more", "s1", "fact", 0.9), node("new", "Eyes favour blue")],
+    [edge("q2", "f2"), edge("f2", "new")]
+  );
+  const diff = diffTraces(before, after);
+
+  it("reports added, removed and changed nodes in the merged id space", () => {
+    expect(Object.fromEntries(diff.nodeStatus)).toEqual({
+      q2: "unchanged",
+      f2: "changed",
+      "removed:old": "removed",
+      new: "added",
+    });
+    expect(diff.nodes.find(d => d.id === "f2")?.importanceDelta).toBeCloseTo(0.4);
+  });
+
+  it("merges removed nodes and edges under removed: ids", () => {
+    expect(diff.merged.nodes.map(n => n.id)).toEqual(["q2", "f2", "new", "removed:old"]);
+    expect(diff.merged.nodes.find(n => n.id === "removed:old")?.stage_id).toBe("s1");
+    expect(diff.merged.edges.map(e => diffEdgeKey(e.source, e.target))).toEqual(["q2->f2", "f2->new", "f2->removed:old"]);
+    expect(diff.edgeStatus.get("q2->f2")).toBe("unchanged");
+    expect(diff.edgeStatus.get("f2->removed:old")).toBe("removed");
+    expect(diff.edgeStatus.get("f2->new")).toBe("added");
+  });
+
+  it("keeps nodes of a dropped stage in a removed: stage", () => {
+    const staged = trace([node("a", "Light enters the air", "s0")], [], [{ id: "s0", label: "Setup" }]);
+    const { merged, stages } = diffTraces(staged, trace([], []));
+
+    expect(stages).toEqual([
+      { id: "s1", label: "Recall", status: "added" },
+      { id: "removed:s0", label: "Setup", status: "removed" },
+    ]);
+    expect(merged.nodes).toEqual([{ ...staged.nodes[0], id: "removed:a", stage_id: "removed:s0" }]);
+  });
+});
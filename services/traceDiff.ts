@@ -0,0 +1,274 @@
+import { Edge, ExplainTrace, Node, Stage } from "../types";
+import { confidenceScoreOf } from "./uncertainty";
+
+// Structural diff between two reasoning traces. Models rarely keep ids stable across
+// regenerations, so nodes are aligned by label similarity first and by id only as a tiebreak.
+
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface NodeDiff {
+  // Id in the merged trace
+  id: string;
+  status: DiffStatus;
+  before?: Node;
+  after?: Node;
+  similarity: number;
+  importanceDelta: number;
+  labelChanged: boolean;
+  typeChanged: boolean;
+  // Stage labels, set when the node moved to a different stage
+  stageChange?: { from: string; to: string };
+}
+
+export interface EdgeDiff {
+  // Endpoints in the merged trace
+  source: string;
+  target: string;
+  status: DiffStatus;
+  before?: Edge;
+  after?: Edge;
+  strengthDelta: number;
+  relationChanged: boolean;
+}
+
+export interface StageDiff {
+  id: string;
+  label: string;
+  status: Exclude<DiffStatus, "changed">;
+}
+
+export interface TraceDiff {
+  nodes: NodeDiff[];
+  edges: EdgeDiff[];
+  stages: StageDiff[];
+  confidence: {
+    before: ExplainTrace["confidence"];
+    after: ExplainTrace["confidence"];
+    beforeScore?: number;
+    afterScore?: number;
+    changed: boolean;
+  };
+  // Union of both traces, with removed elements under "removed:" ids, for rendering
+  merged: ExplainTrace;
+  nodeStatus: Map<string, DiffStatus>;
+  edgeStatus: Map<string, DiffStatus>;
+}
+
+export const LABEL_MATCH_THRESHOLD = 0.5;
+const SAME_ID_THRESHOLD = 0.3;
+const IMPORTANCE_EPSILON = 0.05;
+const STRENGTH_EPSILON = 0.05;
+const CONFIDENCE_EPSILON = 0.05;
+const REMOVED_PREFIX = "removed:";
+
+export const diffEdgeKey = (source: string, target: string) => `${source}->${target}`;
+
+const normalizeLabel = (label: string) => label.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, " ").replace(/\s+/g, " ").trim();
+
+const tokens = (label: string) => new Set(normalizeLabel(label).split(" ").filter(Boolean));
+
+// Dice coefficient over word tokens, 1 for identical labels.
+export const labelSimilarity = (a: string, b: string): number => {
+  if (normalizeLabel(a) === normalizeLabel(b)) return 1;
+  const ta = tokens(a), tb = tokens(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  ta.forEach(t => {
+    if (tb.has(t)) shared++;
+  });
+  return (2 * shared) / (ta.size + tb.size);
+};
+
+/**
+ * Pairs nodes of `before` with nodes of `after`: identical labels first, then nodes that
+ * kept their id and still look alike, then the most similar remaining pairs (a type match
+ * counts as a small bonus). Returns before id -> after id.
+ */
+export const alignNodes = (before: Node[], after: Node[], threshold = LABEL_MATCH_THRESHOLD): Map<string, string> => {
+  const pairs = new Map<string, string>();
+  const usedAfter = new Set<string>();
+  const match = (b: Node, a: Node) => {
+    pairs.set(b.id, a.id);
+    usedAfter.add(a.id);
+  };
+
+  before.forEach(b => {
+    const a = after.find(n => !usedAfter.has(n.id) && normalizeLabel(n.label) === normalizeLabel(b.label));
+    if (a) match(b, a);
+  });
+
+  before.forEach(b => {
+    if (pairs.has(b.id)) return;
+    const a = after.find(n => n.id === b.id && !usedAfter.has(n.id));
+    if (a && labelSimilarity(a.label, b.label) >= SAME_ID_THRESHOLD) match(b, a);
+  });
+
+  const candidates: { b: Node; a: Node; score: number }[] = [];
+  before.forEach(b => {
+    if (pairs.has(b.id)) return;
+    after.forEach(a => {
+      if (usedAfter.has(a.id)) return;
+      const score = labelSimilarity(a.label, b.label) + (a.type === b.type ? 0.1 : 0);
+      if (score >= threshold) candidates.push({ b, a, score });
+    });
+  });
+  candidates
+    .sort((x, y) => y.score - x.score)
+    .forEach(({ b, a }) => {
+      if (!pairs.has(b.id) && !usedAfter.has(a.id)) match(b, a);
+    });
+
+  return pairs;
+};
+
+// Stages are matched by label, falling back to id; returns before id -> after id.
+const alignStages = (before: Stage[], after: Stage[]): Map<string, string> => {
+  const pairs = new Map<string, string>();
+  const used = new Set<string>();
+  before.forEach(b => {
+    const a = after.find(s => !used.has(s.id) && normalizeLabel(s.label) === normalizeLabel(b.label))
+      || after.find(s => !used.has(s.id) && s.id === b.id);
+    if (a) {
+      pairs.set(b.id, a.id);
+      used.add(a.id);
+    }
+  });
+  return pairs;
+};
+
+// A move of the numeric score counts even when the three-level label stays the same.
+const diffConfidence = (before: ExplainTrace, after: ExplainTrace): TraceDiff["confidence"] => ({
+  before: before.confidence,
+  after: after.confidence,
+  beforeScore: before.confidence_score,
+  afterScore: after.confidence_score,
+  changed: before.confidence !== after.confidence
+    || Math.abs(confidenceScoreOf(after) - confidenceScoreOf(before)) >= CONFIDENCE_EPSILON,
+});
+
+export const diffTraces = (before: ExplainTrace, after: ExplainTrace): TraceDiff => {
+  const nodePairs = alignNodes(before.nodes, after.nodes);
+  const stagePairs = alignStages(before.stages, after.stages);
+  const matchedAfter = new Set(nodePairs.values());
+  const stageLabel = (stages: Stage[], id: string) => stages.find(s => s.id === id)?.label || id;
+
+  // Before ids translated into the merged id space
+  const mergedId = new Map<string, string>();
+  before.nodes.forEach(n => mergedId.set(n.id, nodePairs.get(n.id) ?? `${REMOVED_PREFIX}${n.id}`));
+
+  const nodes: NodeDiff[] = [];
+  before.nodes.forEach(b => {
+    const afterId = nodePairs.get(b.id);
+    const a = afterId ? after.nodes.find(n => n.id === afterId) : undefined;
+    if (!a) {
+      nodes.push({
+        id: mergedId.get(b.id)!,
+        status: "removed",
+        before: b,
+        similarity: 0,
+        importanceDelta: -b.importance,
+        labelChanged: false,
+        typeChanged: false,
+      });
+      return;
+    }
+    const importanceDelta = a.importance - b.importance;
+    const labelChanged = normalizeLabel(a.label) !== normalizeLabel(b.label);
+    const typeChanged = a.type !== b.type;
+    const stageMoved = stagePairs.get(b.stage_id) !== a.stage_id;
+    const changed = labelChanged || typeChanged || stageMoved || Math.abs(importanceDelta) >= IMPORTANCE_EPSILON;
+    nodes.push({
+      id: a.id,
+      status: changed ? "changed" : "unchanged",
+      before: b,
+      after: a,
+      similarity: labelSimilarity(a.label, b.label),
+      importanceDelta,
+      labelChanged,
+      typeChanged,
+      stageChange: stageMoved
+        ? { from: stageLabel(before.stages, b.stage_id), to: stageLabel(after.stages, a.stage_id) }
+        : undefined,
+    });
+  });
+  after.nodes.forEach(a => {
+    if (matchedAfter.has(a.id)) return;
+    nodes.push({
+      id: a.id,
+      status: "added",
+      after: a,
+      similarity: 0,
+      importanceDelta: a.importance,
+      labelChanged: false,
+      typeChanged: false,
+    });
+  });
+
+  const beforeEdges = new Map(before.edges.map(e => [diffEdgeKey(mergedId.get(e.source)!, mergedId.get(e.target)!), e]));
+  const afterEdges = new Map(after.edges.map(e => [diffEdgeKey(e.source, e.target), e]));
+  const edges: EdgeDiff[] = [];
+  beforeEdges.forEach((b, key) => {
+    const a = afterEdges.get(key);
+    const source = mergedId.get(b.source)!, target = mergedId.get(b.target)!;
+    if (!a) {
+      edges.push({ source, target, status: "removed", before: b, strengthDelta: -b.strength, relationChanged: false });
+      return;
+    }
+    const strengthDelta = a.strength - b.strength;
+    const relationChanged = normalizeLabel(a.relation_label) !== normalizeLabel(b.relation_label);
+    edges.push({
+      source,
+      target,
+      status: relationChanged || Math.abs(strengthDelta) >= STRENGTH_EPSILON ? "changed" : "unchanged",
+      before: b,
+      after: a,
+      strengthDelta,
+      relationChanged,
+    });
+  });
+  afterEdges.forEach((a, key) => {
+    if (beforeEdges.has(key)) return;
+    edges.push({ source: a.source, target: a.target, status: "added", after: a, strengthDelta: a.strength, relationChanged: false });
+  });
+
+  const matchedStages = new Set(stagePairs.values());
+  const stages: StageDiff[] = [
+    ...after.stages.map(s => ({ id: s.id, label: s.label, status: matchedStages.has(s.id) ? "unchanged" as const : "added" as const })),
+    ...before.stages
+      .filter(s => !stagePairs.has(s.id))
+      .map(s => ({ id: `${REMOVED_PREFIX}${s.id}`, label: s.label, status: "removed" as const })),
+  ];
+
+  // Removed nodes sit in the matching new stage when there is one
+  const mergedStageId = (stageId: string) => stagePairs.get(stageId) ?? `${REMOVED_PREFIX}${stageId}`;
+  const removedStages = before.stages
+    .filter(s => !stagePairs.has(s.id))
+    .map(s => ({ ...s, id: mergedStageId(s.id) }));
+  const merged: ExplainTrace = {
+    ...after,
+    stages: [...after.stages, ...removedStages],
+    nodes: [
+      ...after.nodes,
+      ...nodes
+        .filter(d => d.status === "removed")
+        .map(d => ({ ...d.before!, id: d.id, stage_id: mergedStageId(d.before!.stage_id) })),
+    ],
+    edges: [
+      ...after.edges,
+      ...edges
+        .filter(d => d.status === "removed")
+        .map(d => ({ ...d.before!, source: d.source, target: d.target })),
+    ],
+    step_node_ids: undefined,
+  };
+
+  return {
+    nodes,
+    edges,
+    stages,
+    confidence: diffConfidence(before, after),
+    merged,
+    nodeStatus: new Map(nodes.map(d => [d.id, d.status])),
+    edgeStatus: new Map(edges.map(d => [diffEdgeKey(d.source, d.target), d.status])),
+  };
+};
@@ -0,0 +1,169 @@
+import { ExplainTrace, Node } from "../types";
+import { DEFAULT_FONT, escapeSvgText, renderTraceSvg, svgTextLines, wrapText } from "./traceSvg";
+import { downloadBlob, filenameTimestamp, printHtml } from "./download";
+import type { GraphExportMeta } from "./graphExport";
+
+// Printable reports of a reasoning trace: question, answer, confidence, the vector graph, the
+// Cognitive Steps and the Key Basis. Available as a single SVG document or as an HTML page
+// that the browser prints to PDF.
+
+export type ReportFormat = "svg" | "pdf";
+
+export const REPORT_FORMATS: { id: ReportFormat; label: string }[] = [
+  { id: "svg", label: "Report (SVG)" },
+  { id: "pdf", label: "Report (PDF)" },
+];
+
+export interface TraceReportInput {
+  trace: ExplainTrace;
+  question?: string;
+  answer?: string;
+  title?: string;
+}
+
+const MIN_PAGE_WIDTH = 720;
+const MARGIN = 40;
+export const CONFIDENCE_COLORS: Record<ExplainTrace["confidence"], string> = {
+  high: "#15803d",
+  medium: "#a16207",
+  low: "#b91c1c",
+};
+
+export const reportDate = (trace: ExplainTrace) => {
+  const date = new Date(trace.timestamp);
+  return Number.isNaN(date.getTime()) ? "" : date.toLocaleString();
+};
+
+// Consensus traces say where their confidence comes from
+export const confidenceText = (trace: ExplainTrace) => {
+  const label = `Confidence: ${trace.confidence.toUpperCase()}`;
+  if (trace.consensus) {
+    return `${label} (${Math.round(trace.consensus.agreement * 100)}% agreement of ${trace.consensus.samples} samples)`;
+  }
+  return trace.confidence_score !== undefined ? `${label} (${Math.round(trace.confidence_score * 100)}%)` : label;
+};
+
+export const renderReportSvg = (
+  input: TraceReportInput,
+  colorOf?: (type: Node["type"]) => string
+): string => {
+  const { trace } = input;
+  const graph = renderTraceSvg(trace, { colorOf, legend: true });
+  const width = Math.max(MIN_PAGE_WIDTH, graph.width + MARGIN * 2);
+  const textWidth = width - MARGIN * 2;
+  const parts: string[] = [];
+  let y = MARGIN;
+
+  const paragraph = (text: string, fontSize: number, attrs: string, lineHeight = fontSize * 1.4, indent = 0) => {
+    const lines = wrapText(text, textWidth - indent, fontSize);
+    parts.push(svgTextLines(lines, MARGIN + indent, y + fontSize, `font-size="${fontSize}" ${attrs}`, lineHeight));
+    y += lines.length * lineHeight + fontSize * 0.4;
+  };
+  const heading = (text: string) => {
+    y += 14;
+    parts.push(`<text x="${MARGIN}" y="${y + 11}" font-size="11" font-weight="700" letter-spacing="1" fill="#334155">${escapeSvgText(text.toUpperCase())}</text>`);
+    parts.push(`<line x1="${MARGIN}" y1="${y + 17}" x2="${width - MARGIN}" y2="${y + 17}" stroke="#e2e8f0"/>`);
+    y += 26;
+  };
+
+  const title = input.title || input.question || "Reasoning trace";
+  paragraph(title, 20, `font-weight="700" fill="#0f172a"`);
+  if (input.title && input.question) paragraph(input.question, 12, `fill="#475569"`);
+  paragraph(
+    [reportDate(trace), confidenceText(trace)].filter(Boolean).join("  ·  "),
+    11,
+    `fill="${CONFIDENCE_COLORS[trace.confidence] ?? "#475569"}" font-weight="600"`
+  );
+
+  if (input.answer) {
+    heading("Answer");
+    input.answer.split(/\n+/).filter(p => p.trim()).forEach(p => paragraph(p, 12, `fill="#1e293b"`));
+  }
+
+  heading("Reasoning graph");
+  parts.push(`<g transform="translate(${Math.round((width - graph.width) / 2)},${y})">${graph.body}</g>`);
+  y += graph.height;
+
+  if (trace.steps.length > 0) {
+    heading("Cognitive steps");
+    trace.steps.forEach((step, i) => {
+      parts.push(`<text x="${MARGIN}" y="${y + 12}" font-size="12" font-weight="600" fill="#2563eb">${i + 1}.</text>`);
+      paragraph(step, 12, `fill="#1e293b"`, 16.8, 24);
+    });
+  }
+
+  if (trace.key_factors.length > 0) {
+    heading("Key basis");
+    trace.key_factors.forEach(factor => {
+      parts.push(`<circle cx="${MARGIN + 6}" cy="${y + 8}" r="2.5" fill="#15803d"/>`);
+      paragraph(factor, 12, `fill="#1e293b"`, 16.8, 24);
+    });
+  }
+
+  const height = Math.ceil(y + MARGIN);
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${escapeSvgText(DEFAULT_FONT)}">` +
+    `<rect width="100%" height="100%" fill="#ffffff"/>${parts.join("")}</svg>\n`
+  );
+};
+
+const escapeHtml = escapeSvgText;
+
+/** A standalone page with print styles; the graph is embedded as inline SVG. */
+export const renderReportHtml = (
+  input: TraceReportInput,
+  colorOf?: (type: Node["type"]) => string
+): string => {
+  const { trace } = input;
+  const graph = renderTraceSvg(trace, { colorOf, legend: true });
+  const title = input.title || input.question || "Reasoning trace";
+  const paragraphs = (text: string) =>
+    text.split(/\n+/).filter(p => p.trim()).map(p => `<p>${escapeHtml(p)}</p>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { margin: 16mm; }
+  body { font-family: ${DEFAULT_FONT}; color: #1e293b; max-width: 960px; margin: 0 auto; padding: 24px; font-size: 12px; line-height: 1.5; }
+  h1 { font-size: 20px; margin: 0 0 4px; color: #0f172a; }
+  h2 { font-size: 11px; letter-spacing: 1px; text-transform: uppercase; color: #334155; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin: 20px 0 8px; }
+  .meta { color: #475569; margin: 0 0 4px; }
+  .confidence { font-weight: 600; color: ${CONFIDENCE_COLORS[trace.confidence] ?? "#475569"}; }
+  .graph svg { width: 100%; height: auto; }
+  .graph { break-inside: avoid; }
+  li { margin-bottom: 4px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${input.title && input.question ? `<p class="meta">${escapeHtml(input.question)}</p>` : ""}
+<p class="meta">${escapeHtml(reportDate(trace))} · <span class="confidence">${escapeHtml(confidenceText(trace))}</span></p>
+${input.answer ? `<h2>Answer</h2>${paragraphs(input.answer)}` : ""}
+<h2>Reasoning graph</h2>
+<div class="graph">${graph.svg}</div>
+${trace.steps.length > 0 ? `<h2>Cognitive steps</h2><ol>${trace.steps.map(s => `<li>${escapeHtml(s)}</li>`).join("")}</ol>` : ""}
+${trace.key_factors.length > 0 ? `<h2>Key basis</h2><ul>${trace.key_factors.map(f => `<li>${escapeHtml(f)}</li>`).join("")}</ul>` : ""}
+</body>
+</html>
+`;
+};
+
+// Vector report with the question, answer, graph, steps and key basis; "pdf" goes through the print dialog
+export const downloadTraceReport = (
+  format: ReportFormat,
+  trace: ExplainTrace,
+  meta: GraphExportMeta = {},
+  colorOf?: (type: Node["type"]) => string
+) => {
+  const input = { trace, title: meta.title, question: meta.question, answer: meta.answer };
+  if (format === "pdf") {
+    printHtml(renderReportHtml(input, colorOf));
+  } else {
+    const blob = new Blob([renderReportSvg(input, colorOf)], { type: "image/svg+xml;charset=utf-8" });
+    downloadBlob(blob, `neuroviz-report-${filenameTimestamp()}.svg`);
+  }
+};
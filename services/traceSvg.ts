@@ -0,0 +1,297 @@
+import { Edge, ExplainTrace, Node } from "../types";
+import { NODE_TYPES } from "./traceValidation";
+import { orderLayers } from "./graphLayout";
+import { supportOpacity } from "./selfConsistency";
+import { certaintyOf, desaturate, isUncertain } from "./uncertainty";
+
+// Renders an ExplainTrace as a standalone SVG string, with no three.js or DOM involved, so it
+// works headless and stays crisp at any size. Nodes sit in one column per stage, ordered to
+// minimize edge crossings, and the text is laid out with an estimated glyph width.
+
+export interface TraceSvgOptions {
+  colorOf?: (type: Node["type"]) => string;
+  // Adds a node type legend under the graph
+  legend?: boolean;
+  fontFamily?: string;
+}
+
+export interface RenderedSvg {
+  svg: string;
+  // The drawing without the outer <svg> element, for embedding in a larger document
+  body: string;
+  width: number;
+  height: number;
+}
+
+const COLUMN_WIDTH = 180;
+const COLUMN_GAP = 70;
+const NODE_WIDTH = 150;
+const NODE_GAP = 18;
+const HEADER_HEIGHT = 40;
+const PADDING = 24;
+const FONT_SIZE = 11;
+const LINE_HEIGHT = 14;
+const MAX_LABEL_LINES = 3;
+const LEGEND_HEIGHT = 30;
+// Average glyph width as a fraction of the font size, for sans-serif text
+const CHAR_WIDTH = 0.56;
+
+export const DEFAULT_FONT = "Helvetica, Arial, sans-serif";
+
+export const escapeSvgText = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Greedy word wrap by estimated width; the last line gets an ellipsis if text is cut off. */
+export const wrapText = (text: string, maxWidth: number, fontSize: number, maxLines = Infinity): string[] => {
+  const maxChars = Math.max(4, Math.floor(maxWidth / (fontSize * CHAR_WIDTH)));
+  const lines: string[] = [];
+  let line = "";
+  const words = text.split(/\s+/).filter(Boolean);
+  for (let i = 0; i < words.length; i++) {
+    let word = words[i];
+    // Hard-break words that are longer than a whole line
+    while (word.length > maxChars) {
+      if (line) {
+        lines.push(line);
+        line = "";
+      }
+      lines.push(word.slice(0, maxChars - 1) + "-");
+      word = word.slice(maxChars - 1);
+    }
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length > maxChars && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    const last = kept[maxLines - 1];
+    kept[maxLines - 1] = `${last.slice(0, Math.max(0, maxChars - 1)).trimEnd()}…`;
+    return kept;
+  }
+  return lines;
+};
+
+// Multi-line <text>; (x, y) is the baseline of the first line.
+export const svgTextLines = (
+  lines: string[],
+  x: number,
+  y: number,
+  attrs: string,
+  lineHeight = LINE_HEIGHT
+) =>
+  `<text x="${x}" y="${y}" ${attrs}>${lines
+    .map((l, i) => `<tspan x="${x}" dy="${i === 0 ? 0 : lineHeight}">${escapeSvgText(l)}</tspan>`)
+    .join("")}</text>`;
+
+export interface PlacedNode {
+  node: Node;
+  x: number; // Top-left corner
+  y: number;
+  width: number;
+  height: number;
+  lines: string[];
+  column: number;
+  importance: number; // Clamped to [0, 1]
+}
+
+export interface PlacedColumn {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PlacedEdge {
+  edge: Edge;
+  path: string; // SVG path data
+  labelX: number;
+  labelY: number;
+  strength: number; // Clamped to [0, 1]
+}
+
+export interface TraceLayout2D {
+  width: number;
+  height: number; // Without the legend
+  columns: PlacedColumn[];
+  nodes: PlacedNode[];
+  edges: PlacedEdge[];
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+const unit = (value: number) => Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : 0.5;
+
+/** Positions for the 2D drawing, shared by the SVG export and the interactive 2D view. */
+export const layoutTrace2D = (trace: ExplainTrace): TraceLayout2D => {
+  const ids = new Set(trace.nodes.map(n => n.id));
+  const edges = trace.edges.filter(e => ids.has(e.source) && ids.has(e.target) && e.source !== e.target);
+  const byId = new Map(trace.nodes.map(n => [n.id, n]));
+
+  // Columns: one per stage in use, unknown stages last
+  const stageIndex = new Map(trace.stages.map((s, i) => [s.id, i]));
+  const columns: { label: string; ids: string[] }[] = trace.stages.map(s => ({ label: s.label, ids: [] }));
+  const unstaged: string[] = [];
+  trace.nodes.forEach(n => {
+    const index = stageIndex.get(n.stage_id);
+    if (index === undefined) unstaged.push(n.id);
+    else columns[index].ids.push(n.id);
+  });
+  if (unstaged.length > 0) columns.push({ label: "Other", ids: unstaged });
+  const usedColumns = columns.filter(c => c.ids.length > 0);
+  const ordered = orderLayers(usedColumns.map(c => c.ids), edges);
+
+  const placed = new Map<string, PlacedNode>();
+  let graphHeight = 0;
+  ordered.forEach((layer, column) => {
+    let y = PADDING + HEADER_HEIGHT;
+    layer.forEach(id => {
+      const node = byId.get(id)!;
+      const lines = wrapText(node.label, NODE_WIDTH - 16, FONT_SIZE, MAX_LABEL_LINES);
+      const height = 14 + lines.length * LINE_HEIGHT + 10;
+      placed.set(id, {
+        node,
+        x: PADDING + column * (COLUMN_WIDTH + COLUMN_GAP) + (COLUMN_WIDTH - NODE_WIDTH) / 2,
+        y,
+        width: NODE_WIDTH,
+        height,
+        lines,
+        column,
+        importance: unit(node.importance),
+      });
+      y += height + NODE_GAP;
+    });
+    graphHeight = Math.max(graphHeight, y);
+  });
+
+  // Center each column vertically against the tallest one
+  ordered.forEach(layer => {
+    const last = placed.get(layer[layer.length - 1]);
+    if (!last) return;
+    const offset = (graphHeight - (last.y + last.height + NODE_GAP)) / 2;
+    layer.forEach(id => (placed.get(id)!.y += offset));
+  });
+
+  const placedEdges = edges.map((edge): PlacedEdge => {
+    const from = placed.get(edge.source)!;
+    const to = placed.get(edge.target)!;
+    const fromY = from.y + from.height / 2;
+    const toY = to.y + to.height / 2;
+    let d: string;
+    let labelX: number;
+    let labelY: number;
+    if (from.column === to.column) {
+      // Same stage: loop out to the right of the column
+      const x = from.x + NODE_WIDTH;
+      const bulge = x + 30 + Math.min(40, Math.abs(toY - fromY) / 4);
+      d = `M${round(x)},${round(fromY)} C${round(bulge)},${round(fromY)} ${round(bulge)},${round(toY)} ${round(x + 2)},${round(toY)}`;
+      labelX = bulge - 8;
+      labelY = (fromY + toY) / 2;
+    } else {
+      const forward = to.column > from.column;
+      const startX = forward ? from.x + NODE_WIDTH : from.x;
+      const endX = forward ? to.x : to.x + NODE_WIDTH;
+      const dx = (endX - startX) / 2;
+      d = `M${round(startX)},${round(fromY)} C${round(startX + dx)},${round(fromY)} ${round(endX - dx)},${round(toY)} ${round(endX)},${round(toY)}`;
+      labelX = (startX + endX) / 2;
+      labelY = (fromY + toY) / 2;
+    }
+    return { edge, path: d, labelX: round(labelX), labelY: round(labelY), strength: unit(edge.strength) };
+  });
+
+  return {
+    width: PADDING * 2 + Math.max(1, usedColumns.length) * COLUMN_WIDTH + Math.max(0, usedColumns.length - 1) * COLUMN_GAP,
+    height: graphHeight + PADDING,
+    columns: usedColumns.map((column, i) => ({
+      label: column.label,
+      x: PADDING + i * (COLUMN_WIDTH + COLUMN_GAP),
+      y: PADDING,
+      width: COLUMN_WIDTH,
+      height: round(graphHeight - PADDING),
+    })),
+    nodes: Array.from(placed.values()),
+    edges: placedEdges,
+  };
+};
+
+export const edgeLabelText = (edge: PlacedEdge) => `${edge.edge.relation_label} · ${edge.strength.toFixed(2)}`;
+
+/**
+ * The graph itself: stage columns with headers, nodes as rounded boxes colored by type,
+ * and edges as curves whose width follows their strength.
+ */
+export const renderTraceSvg = (trace: ExplainTrace, options: TraceSvgOptions = {}): RenderedSvg => {
+  const colorOf = options.colorOf ?? (() => "#475569");
+  const font = options.fontFamily ?? DEFAULT_FONT;
+  const layout = layoutTrace2D(trace);
+  const width = layout.width;
+  const legendTypes = NODE_TYPES.filter(type => trace.nodes.some(n => n.type === type));
+  const height = layout.height + (options.legend && legendTypes.length > 0 ? LEGEND_HEIGHT : 0);
+
+  const parts: string[] = [];
+  parts.push(
+    `<defs><marker id="nv-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">` +
+    `<path d="M0,0 L10,5 L0,10 z" fill="#64748b"/></marker></defs>`
+  );
+
+  // Stage bands and headers
+  layout.columns.forEach(column => {
+    parts.push(`<rect x="${column.x}" y="${column.y}" width="${column.width}" height="${column.height}" rx="10" fill="#f8fafc" stroke="#e2e8f0"/>`);
+    const header = wrapText(column.label.toUpperCase(), column.width - 16, 10, 1);
+    parts.push(svgTextLines(header, column.x + column.width / 2, column.y + 22, `text-anchor="middle" font-size="10" font-weight="700" letter-spacing="1" fill="#64748b"`));
+  });
+
+  // Edges go under the nodes
+  layout.edges.forEach(placedEdge => {
+    const { path, strength, labelX, labelY, edge } = placedEdge;
+    parts.push(
+      `<path d="${path}" fill="none" stroke="#94a3b8" stroke-width="${round(0.8 + strength * 2.2)}" ` +
+      `stroke-opacity="${round((0.4 + strength * 0.6) * supportOpacity(edge.support))}"` +
+      `${isUncertain(edge) ? ` stroke-dasharray="5 4"` : ""} marker-end="url(#nv-arrow)"/>`
+    );
+    if (edge.relation_label) {
+      parts.push(
+        `<text x="${labelX}" y="${round(labelY - 3)}" text-anchor="middle" font-size="9" fill="#475569" ` +
+        `stroke="#ffffff" stroke-width="3" paint-order="stroke">${escapeSvgText(edgeLabelText(placedEdge))}</text>`
+      );
+    }
+  });
+
+  layout.nodes.forEach(({ node, x, y, height: h, lines, importance }) => {
+    // Uncertain nodes are grayed out and outlined with a dashed border
+    const color = desaturate(colorOf(node.type), certaintyOf(node));
+    // Consensus traces fade nodes that few samples agreed on; the id lets viewers script the graph
+    const opacity = node.support !== undefined ? ` opacity="${round(supportOpacity(node.support))}"` : "";
+    parts.push(`<g data-node-id="${escapeSvgText(node.id)}"${opacity}>`);
+    const support = node.support !== undefined ? `, support ${Math.round(node.support * 100)}%` : "";
+    const certainty = node.certainty !== undefined ? `, certainty ${Math.round(node.certainty * 100)}%` : "";
+    const dash = isUncertain(node) ? ` stroke-dasharray="5 3"` : "";
+    parts.push(`<title>${escapeSvgText(`${node.label} (${node.type}, importance ${importance.toFixed(2)}${certainty}${support})`)}</title>`);
+    parts.push(`<rect x="${round(x)}" y="${round(y)}" width="${NODE_WIDTH}" height="${h}" rx="6" fill="#ffffff" stroke="${color}" stroke-width="${round(1 + importance * 1.5)}"${dash}/>`);
+    // Importance bar along the top edge
+    parts.push(`<rect x="${round(x + 6)}" y="${round(y + 5)}" width="${round((NODE_WIDTH - 12) * importance)}" height="3" rx="1.5" fill="${color}" fill-opacity="0.7"/>`);
+    parts.push(svgTextLines(lines, x + 8, y + 22, `font-size="${FONT_SIZE}" fill="#0f172a"`));
+    parts.push(`</g>`);
+  });
+
+  if (options.legend && legendTypes.length > 0) {
+    let x = PADDING;
+    const y = layout.height - PADDING / 2 + 8;
+    legendTypes.forEach(type => {
+      parts.push(`<circle cx="${x + 5}" cy="${y - 4}" r="5" fill="${colorOf(type)}"/>`);
+      parts.push(`<text x="${x + 14}" y="${y}" font-size="10" fill="#475569">${escapeSvgText(type)}</text>`);
+      x += 24 + type.length * 10 * CHAR_WIDTH + 16;
+    });
+  }
+
+  const body = parts.join("");
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${round(height)}" viewBox="0 0 ${width} ${round(height)}" ` +
+    `font-family="${escapeSvgText(font)}">${body}</svg>`;
+  return { svg, body, width, height: round(height) };
+};
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import { hasFatalIssues, restrictSourceCitations, validateReasoningResponse } from "./traceValidation";
+import { generateMockResponse } from "./mockProvider";
+
+const response = generateMockResponse("why is the sky blue", 1);
+
+const stages = [
+  { id: "s1", label: "Understand", description: "", weight: 0.3 },
+  { id: "s2", label: "Recall", description: "", weight: 0.4 },
+  { id: "s3", label: "Conclude", description: "", weight: 0.3 },
+];
+
+// A raw payload as a model might send it; `trace` overrides parts of explain_trace.
+const payload = (trace: Record<string, unknown>) => ({
+  answer: "Rayleigh scattering.",
+  explain_trace: {
+    stages,
+    nodes: [],
+    edges: [],
+    steps: ["Think"],
+    key_factors: [],
+    confidence: "medium",
+    timestamp: "2024-01-01T00:00:00.000Z",
+    ...trace,
+  },
+});
+
+const codes = (issues: { code: string }[]) => issues.map(i => i.code);
+
+describe("step_node_ids normalization", () => {
+  it("keeps node ids attached to their step when empty steps are dropped", () => {
+    const [first, second] = response.explain_trace.nodes.map(n => n.id);
+    const { response: repaired } = validateReasoningResponse({
+      ...response,
+      explain_trace: {
+        ...response.explain_trace,
+        steps: ["Read the question", "", "Recall scattering"],
+        step_node_ids: [[first], [], [second]],
+      },
+    });
+
+    expect(repaired.explain_trace.steps).toEqual(["Read the question", "Recall scattering"]);
+    expect(repaired.explain_trace.step_node_ids).toEqual([[first], [second]]);
+  });
+});
+
+describe("validateReasoningResponse repairs", () => {
+  it("clamps out-of-range scores and defaults non-numeric ones", () => {
+    const { response: repaired, issues } = validateReasoningResponse(payload({
+      nodes: [
+        { id: "a", label: "A", type: "fact", importance: 1.7, stage_id: "s2", certainty: -0.2 },
+        { id: "b", label: "B", type: "fact", importance: "lots", stage_id: "s2" },
+      ],
+    }));
+
+    expect(repaired.explain_trace.nodes.map(n => n.importance)).toEqual([1, 0.5]);
+    expect(repaired.explain_trace.nodes[0].certainty).toBe(0);
+    expect(codes(issues)).toEqual(["out_of_range", "out_of_range", "invalid_field"]);
+    expect(hasFatalIssues(issues)).toBe(false);
+  });
+
+  it("drops duplicate nodes and merges duplicate edges keeping the stronger one", () => {
+    const { response: repaired, issues } = validateReasoningResponse(payload({
+      nodes: [
+        { id: "a", label: "First", type: "fact", importance: 0.5, stage_id: "s2" },
+        { id: "a", label: "Second", type: "fact", importance: 0.9, stage_id: "s2" },
+        { id: "b", label: "B", type: "conclusion", importance: 0.5, stage_id: "s3" },
+      ],
+      edges: [
+        { source: "a", target: "b", relation_label: "", strength: 0.3 },
+        { source: "a", target: "b", relation_label: "supports", strength: 0.8 },
+      ],
+    }));
+
+    expect(repaired.explain_trace.nodes.map(n => n.label)).toEqual(["First", "B"]);
+    expect(repaired.explain_trace.edges).toEqual([{ source: "a", target: "b", relation_label: "supports", strength: 0.8 }]);
+    expect(codes(issues)).toEqual(["duplicate_id", "duplicate_edge"]);
+  });
+
+  it("drops dangling edges and self-loops", () => {
+    const { response: repaired, issues } = validateReasoningResponse(payload({
+      nodes: [
+        { id: "a", label: "A", type: "fact", importance: 0.5, stage_id: "s2" },
+        { id: "b", label: "B", type: "fact", importance: 0.5, stage_id: "s2" },
+      ],
+      edges: [
+        { source: "a", target: "ghost", relation_label: "", strength: 0.5 },
+        { source: "a", target: "a", relation_label: "", strength: 0.5 },
+        { source: "a", target: "b", relation_label: "", strength: 0.5 },
+      ],
+    }));
+
+    expect(repaired.explain_trace.edges.map(e => `${e.source}->${e.target}`)).toEqual(["a->b"]);
+    expect(codes(issues)).toEqual(["dangling_edge", "self_loop"]);
+  });
+
+  it("assigns orphan nodes to the stage that matches their type", () => {
+    const { response: repaired, issues } = validateReasoningResponse(payload({
+      nodes: [
+        { id: "q", label: "Q", type: "intent", importance: 0.5, stage_id: "nowhere" },
+        { id: "f", label: "F", type: "fact", importance: 0.5 },
+        { id: "c", label: "C", type: "conclusion", importance: 0.5, stage_id: "nowhere" },
+      ],
+    }));
+
+    expect(repaired.explain_trace.nodes.map(n => n.stage_id)).toEqual(["s1", "s2", "s3"]);
+    expect(codes(issues)).toEqual(["orphan_node", "orphan_node", "orphan_node"]);
+  });
+
+  it("adds a single fallback stage when the trace has none", () => {
+    const { response: repaired } = validateReasoningResponse(payload({
+      stages: [],
+      nodes: [
+        { id: "a", label: "A", type: "fact", importance: 0.5, stage_id: "s1" },
+        { id: "b", label: "B", type: "conclusion", importance: 0.5, stage_id: "s1" },
+      ],
+    }));
+
+    expect(repaired.explain_trace.stages.map(s => s.id)).toEqual(["stage-default"]);
+    expect(repaired.explain_trace.nodes.map(n => n.stage_id)).toEqual(["stage-default", "stage-default"]);
+  });
+
+  it("derives the confidence level from confidence_score", () => {
+    const nodes = [{ id: "a", label: "A", type: "fact", importance: 0.5, stage_id: "s2" }];
+    const scored = validateReasoningResponse(payload({ nodes, confidence: "high", confidence_score: 0.1 }));
+    const unknown = validateReasoningResponse(payload({ nodes, confidence: "certain" }));
+
+    expect(scored.response.explain_trace.confidence).toBe("low");
+    expect(scored.response.explain_trace.confidence_score).toBe(0.1);
+    expect(codes(scored.issues)).toEqual(["invalid_field"]);
+    expect(unknown.response.explain_trace.confidence).toBe("low");
+    expect(unknown.response.explain_trace.confidence_score).toBeUndefined();
+  });
+
+  it("reports a trace without usable nodes as fatal", () => {
+    const { issues } = validateReasoningResponse(payload({ nodes: ["not a node"] }));
+
+    expect(codes(issues)).toEqual(["invalid_field", "empty_graph"]);
+    expect(hasFatalIssues(issues)).toBe(true);
+  });
+});
+
+describe("restrictSourceCitations", () => {
+  const { response: cited } = validateReasoningResponse(payload({
+    nodes: [
+      { id: "a", label: "A", type: "fact", importance: 0.5, stage_id: "s2", sources: ["src-1", "src-9"] },
+      { id: "b", label: "B", type: "fact", importance: 0.5, stage_id: "s2", sources: ["src-9"] },
+      { id: "c", label: "C", type: "fact", importance: 0.5, stage_id: "s2" },
+    ],
+  }));
+
+  it("drops citations of sources that were not sent and reports each node", () => {
+    const restricted = restrictSourceCitations(cited, ["src-1", "src-2"]);
+    const [a, b, c] = restricted.explain_trace.nodes;
+
+    expect(a.sources).toEqual(["src-1"]);
+    expect("sources" in b).toBe(false);
+    expect(c).toBe(cited.explain_trace.nodes[2]);
+    expect(restricted.issues?.map(i => i.path)).toEqual([
+      "explain_trace.nodes[0].sources",
+      "explain_trace.nodes[1].sources",
+    ]);
+  });
+
+  it("returns the response untouched when every citation is known", () => {
+    expect(restrictSourceCitations(cited, ["src-1", "src-9"])).toBe(cited);
+  });
+});
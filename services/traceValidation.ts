@@ -0,0 +1,390 @@
+import { ConsensusInfo, Edge, ExplainTrace, GeminiResponse, Node, Stage, TraceIssue, TraceIssueCode } from "../types";
+import { confidenceForScore } from "./uncertainty";
+
+export const NODE_TYPES: Node["type"][] = ["intent", "fact", "intermediate", "conclusion", "constraint", "context"];
+const CONFIDENCE_LEVELS: ExplainTrace["confidence"][] = ["high", "medium", "low"];
+
+const DEFAULT_IMPORTANCE = 0.5;
+const DEFAULT_STRENGTH = 0.5;
+const FALLBACK_STAGE: Stage = {
+  id: "stage-default",
+  label: "Reasoning",
+  description: "Nodes that were not assigned to any stage.",
+  weight: 1,
+};
+
+export interface TraceValidationResult {
+  response: GeminiResponse;
+  issues: TraceIssue[];
+}
+
+export const hasFatalIssues = (issues: TraceIssue[]) => issues.some(i => i.severity === "fatal");
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Collects issues while walking the payload, so every check reads as a single line.
+const createReporter = () => {
+  const issues: TraceIssue[] = [];
+  const repaired = (code: TraceIssueCode, path: string, message: string) =>
+    issues.push({ code, severity: "repaired", path, message });
+  const fatal = (code: TraceIssueCode, path: string, message: string) =>
+    issues.push({ code, severity: "fatal", path, message });
+  return { issues, repaired, fatal };
+};
+
+type Reporter = ReturnType<typeof createReporter>;
+
+const readArray = (trace: Record<string, unknown>, key: string, report: Reporter): unknown[] => {
+  const value = trace[key];
+  if (Array.isArray(value)) return value;
+  if (value !== undefined && value !== null) {
+    report.repaired("invalid_field", `explain_trace.${key}`, `"${key}" was not an array and has been replaced with an empty list.`);
+  }
+  return [];
+};
+
+const readString = (value: unknown, fallback: string): string =>
+  typeof value === "string" && value.trim() ? value : (typeof value === "number" ? String(value) : fallback);
+
+// Normalizes a 0..1 score, reporting missing/non-numeric values and clamping outliers.
+const readUnit = (value: unknown, fallback: number, path: string, report: Reporter): number => {
+  const num = typeof value === "string" ? Number(value) : value;
+  if (typeof num !== "number" || !Number.isFinite(num)) {
+    if (value !== undefined && value !== null) {
+      report.repaired("invalid_field", path, `Non-numeric value replaced with ${fallback}.`);
+    }
+    return fallback;
+  }
+  if (num < 0 || num > 1) {
+    const clamped = clamp01(num);
+    report.repaired("out_of_range", path, `Value ${num} clamped to ${clamped}.`);
+    return clamped;
+  }
+  return num;
+};
+
+// Optional 0..1 fields (certainty, support) are left out when absent, as in older traces.
+const readOptionalUnit = <K extends string>(
+  item: Record<string, unknown>,
+  key: K,
+  path: string,
+  report: Reporter
+): Partial<Record<K, number>> => {
+  if (item[key] === undefined || item[key] === null) return {};
+  const num = typeof item[key] === "string" ? Number(item[key]) : item[key];
+  if (typeof num !== "number" || !Number.isFinite(num)) {
+    report.repaired("invalid_field", `${path}.${key}`, `Non-numeric ${key} was dropped.`);
+    return {};
+  }
+  return { [key]: readUnit(num, 1, `${path}.${key}`, report) } as Partial<Record<K, number>>;
+};
+
+const normalizeStages = (raw: unknown[], report: Reporter): Stage[] => {
+  const stages: Stage[] = [];
+  const seen = new Set<string>();
+  raw.forEach((item, i) => {
+    const path = `explain_trace.stages[${i}]`;
+    if (!isRecord(item)) {
+      report.repaired("invalid_field", path, "Stage is not an object and was dropped.");
+      return;
+    }
+    let id = readString(item.id, "");
+    if (!id) {
+      id = `stage-${i + 1}`;
+      report.repaired("invalid_field", `${path}.id`, `Missing stage id, assigned "${id}".`);
+    }
+    if (seen.has(id)) {
+      report.repaired("duplicate_id", `${path}.id`, `Duplicate stage id "${id}" was dropped.`);
+      return;
+    }
+    seen.add(id);
+    stages.push({
+      id,
+      label: readString(item.label, id),
+      description: readString(item.description, ""),
+      weight: readUnit(item.weight, 0, `${path}.weight`, report),
+    });
+  });
+  return stages;
+};
+
+// Orphaned nodes go to the stage that best matches their role in the reasoning flow.
+const pickStageForType = (type: Node["type"], stages: Stage[]): string => {
+  if (type === "intent" || type === "context") return stages[0].id;
+  if (type === "conclusion") return stages[stages.length - 1].id;
+  return stages[Math.floor((stages.length - 1) / 2)].id;
+};
+
+const normalizeNodes = (raw: unknown[], stages: Stage[], report: Reporter): Node[] => {
+  const nodes: Node[] = [];
+  const seen = new Set<string>();
+  const stageIds = new Set(stages.map(s => s.id));
+
+  raw.forEach((item, i) => {
+    const path = `explain_trace.nodes[${i}]`;
+    if (!isRecord(item)) {
+      report.repaired("invalid_field", path, "Node is not an object and was dropped.");
+      return;
+    }
+    let id = readString(item.id, "");
+    if (!id) {
+      id = `node-${i + 1}`;
+      report.repaired("invalid_field", `${path}.id`, `Missing node id, assigned "${id}".`);
+    }
+    if (seen.has(id)) {
+      report.repaired("duplicate_id", `${path}.id`, `Duplicate node id "${id}" was dropped.`);
+      return;
+    }
+    seen.add(id);
+
+    let type = item.type as Node["type"];
+    if (!NODE_TYPES.includes(type)) {
+      report.repaired("unknown_node_type", `${path}.type`, `Unknown node type "${String(item.type)}" replaced with "intermediate".`);
+      type = "intermediate";
+    }
+
+    const sources = Array.isArray(item.sources)
+      ? Array.from(new Set(item.sources.map(s => readString(s, "").trim()).filter(Boolean)))
+      : [];
+
+    nodes.push({
+      id,
+      label: readString(item.label, id),
+      type,
+      importance: readUnit(item.importance, DEFAULT_IMPORTANCE, `${path}.importance`, report),
+      stage_id: readString(item.stage_id, ""),
+      ...readOptionalUnit(item, "certainty", path, report),
+      ...(sources.length > 0 ? { sources } : {}),
+      ...readOptionalUnit(item, "support", path, report),
+    });
+  });
+
+  // Stage assignment happens once all nodes are known so a fallback stage is added at most once.
+  nodes.forEach((node, i) => {
+    if (stageIds.has(node.stage_id)) return;
+    if (stages.length === 0) {
+      stages.push({ ...FALLBACK_STAGE });
+      stageIds.add(FALLBACK_STAGE.id);
+    }
+    const assigned = pickStageForType(node.type, stages);
+    report.repaired(
+      "orphan_node",
+      `explain_trace.nodes[${i}].stage_id`,
+      `Node "${node.id}" referenced unknown stage "${node.stage_id}" and was assigned to "${assigned}".`
+    );
+    node.stage_id = assigned;
+  });
+
+  return nodes;
+};
+
+const normalizeEdges = (raw: unknown[], nodes: Node[], report: Reporter): Edge[] => {
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const byKey = new Map<string, Edge>();
+
+  raw.forEach((item, i) => {
+    const path = `explain_trace.edges[${i}]`;
+    if (!isRecord(item)) {
+      report.repaired("invalid_field", path, "Edge is not an object and was dropped.");
+      return;
+    }
+    const source = readString(item.source, "");
+    const target = readString(item.target, "");
+    if (!nodeIds.has(source) || !nodeIds.has(target)) {
+      report.repaired("dangling_edge", path, `Edge "${source}" → "${target}" references a missing node and was dropped.`);
+      return;
+    }
+    if (source === target) {
+      report.repaired("self_loop", path, `Self-loop on "${source}" was dropped.`);
+      return;
+    }
+    const edge: Edge = {
+      source,
+      target,
+      relation_label: readString(item.relation_label, ""),
+      strength: readUnit(item.strength, DEFAULT_STRENGTH, `${path}.strength`, report),
+      ...readOptionalUnit(item, "certainty", path, report),
+      ...readOptionalUnit(item, "support", path, report),
+    };
+    const key = `${source}\u0000${target}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      report.repaired("duplicate_edge", path, `Duplicate edge "${source}" → "${target}" merged.`);
+      existing.strength = Math.max(existing.strength, edge.strength);
+      existing.relation_label = existing.relation_label || edge.relation_label;
+      return;
+    }
+    byKey.set(key, edge);
+  });
+
+  return Array.from(byKey.values());
+};
+
+const normalizeStrings = (raw: unknown[], key: string, report: Reporter): string[] => {
+  const result: string[] = [];
+  raw.forEach((item, i) => {
+    const text = readString(item, "").trim();
+    if (text) {
+      result.push(text);
+    } else {
+      report.repaired("invalid_field", `explain_trace.${key}[${i}]`, "Empty or non-text entry was dropped.");
+    }
+  });
+  return result;
+};
+
+// Keeps step_node_ids aligned with steps and limited to nodes that exist. Entries are
+// matched against the raw steps, then dropped together with the empty steps.
+const normalizeStepNodeIds = (
+  raw: unknown,
+  rawSteps: unknown[],
+  nodes: Node[],
+  report: Reporter
+): string[][] | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!Array.isArray(raw)) {
+    report.repaired("invalid_field", "explain_trace.step_node_ids", '"step_node_ids" was not an array and has been ignored.');
+    return undefined;
+  }
+  if (raw.length !== rawSteps.length) {
+    report.repaired("invalid_field", "explain_trace.step_node_ids", `Expected ${rawSteps.length} entries (one per step), got ${raw.length}.`);
+  }
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const aligned = rawSteps.map((_, i) => {
+    const entry = Array.isArray(raw[i]) ? raw[i] as unknown[] : [];
+    const ids = entry.map(id => readString(id, "")).filter(id => nodeIds.has(id));
+    if (ids.length < entry.length) {
+      report.repaired("invalid_field", `explain_trace.step_node_ids[${i}]`, "References to unknown nodes were dropped.");
+    }
+    return Array.from(new Set(ids));
+  });
+  return aligned.filter((_, i) => readString(rawSteps[i], "").trim() !== "");
+};
+
+// Consensus metadata never comes from the model, only from stored or imported traces.
+const normalizeConsensus = (raw: unknown, report: Reporter): ConsensusInfo | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isRecord(raw) || typeof raw.samples !== "number" || raw.samples < 2) {
+    report.repaired("invalid_field", "explain_trace.consensus", '"consensus" is malformed and has been ignored.');
+    return undefined;
+  }
+  const path = "explain_trace.consensus";
+  return {
+    samples: Math.round(raw.samples),
+    agreement: readUnit(raw.agreement, 0, `${path}.agreement`, report),
+    nodeAgreement: readUnit(raw.nodeAgreement, 0, `${path}.nodeAgreement`, report),
+    answerAgreement: readUnit(raw.answerAgreement, 0, `${path}.answerAgreement`, report),
+    sampleAnswers: Array.isArray(raw.sampleAnswers)
+      ? raw.sampleAnswers.filter(isRecord).map(s => ({
+          answer: readString(s.answer, ""),
+          confidence: CONFIDENCE_LEVELS.includes(s.confidence as ExplainTrace["confidence"]) ? s.confidence as ExplainTrace["confidence"] : "low",
+        }))
+      : [],
+  };
+};
+
+/**
+ * Checks every ExplainTrace invariant on an untrusted model payload and repairs what it can:
+ * ids are deduplicated, scores clamped to 0..1, dangling edges dropped and orphan nodes
+ * assigned to a stage. Problems that cannot be repaired are reported as 'fatal'.
+ */
+export const validateReasoningResponse = (raw: unknown): TraceValidationResult => {
+  const report = createReporter();
+
+  if (!isRecord(raw)) {
+    report.fatal("invalid_root", "", "Response is not a JSON object.");
+  }
+  const root = isRecord(raw) ? raw : {};
+
+  let answer = typeof root.answer === "string" ? root.answer.trim() : "";
+  if (!answer) {
+    report.fatal("missing_answer", "answer", 'Missing or empty "answer" string.');
+    answer = "Error processing reasoning data.";
+  }
+
+  if (!isRecord(root.explain_trace)) {
+    report.fatal("missing_trace", "explain_trace", 'Missing "explain_trace" object.');
+  }
+  const rawTrace = isRecord(root.explain_trace) ? root.explain_trace : {};
+
+  const stages = normalizeStages(readArray(rawTrace, "stages", report), report);
+  const nodes = normalizeNodes(readArray(rawTrace, "nodes", report), stages, report);
+  const edges = normalizeEdges(readArray(rawTrace, "edges", report), nodes, report);
+
+  if (nodes.length === 0 && isRecord(root.explain_trace)) {
+    report.fatal("empty_graph", "explain_trace.nodes", "The trace contains no usable nodes.");
+  }
+
+  // The numeric score wins over the level: the level is derived from it when they disagree
+  const { confidence_score: confidenceScore } = readOptionalUnit(rawTrace, "confidence_score", "explain_trace", report);
+  let confidence = rawTrace.confidence as ExplainTrace["confidence"];
+  if (confidenceScore !== undefined) {
+    const derived = confidenceForScore(confidenceScore);
+    if (CONFIDENCE_LEVELS.includes(confidence) && confidence !== derived) {
+      report.repaired("invalid_field", "explain_trace.confidence", `Confidence "${confidence}" did not match confidence_score ${confidenceScore} and was set to "${derived}".`);
+    }
+    confidence = derived;
+  } else if (!CONFIDENCE_LEVELS.includes(confidence)) {
+    if (rawTrace.confidence !== undefined) {
+      report.repaired("invalid_field", "explain_trace.confidence", `Unknown confidence "${String(rawTrace.confidence)}" replaced with "low".`);
+    }
+    confidence = "low";
+  }
+
+  const rawTimestamp = typeof rawTrace.timestamp === "string" ? rawTrace.timestamp : "";
+  const timestamp = rawTimestamp && !Number.isNaN(Date.parse(rawTimestamp)) ? rawTimestamp : new Date().toISOString();
+
+  const rawSteps = readArray(rawTrace, "steps", report);
+  const steps = normalizeStrings(rawSteps, "steps", report);
+  const stepNodeIds = normalizeStepNodeIds(rawTrace.step_node_ids, rawSteps, nodes, report);
+  const consensus = normalizeConsensus(rawTrace.consensus, report);
+
+  const explain_trace: ExplainTrace = {
+    stages,
+    nodes,
+    edges,
+    steps,
+    ...(stepNodeIds ? { step_node_ids: stepNodeIds } : {}),
+    key_factors: normalizeStrings(readArray(rawTrace, "key_factors", report), "key_factors", report),
+    confidence,
+    ...(confidenceScore !== undefined ? { confidence_score: confidenceScore } : {}),
+    timestamp,
+    ...(consensus ? { consensus } : {}),
+  };
+
+  return {
+    response: { answer, explain_trace, issues: report.issues },
+    issues: report.issues,
+  };
+};
+
+/**
+ * Drops citations of sources that were not sent with the request (the model sometimes invents
+ * ids or cites excerpts from an earlier turn). Each affected node is reported as repaired.
+ */
+export const restrictSourceCitations = (response: GeminiResponse, sourceIds: string[]): GeminiResponse => {
+  const known = new Set(sourceIds);
+  const issues: TraceIssue[] = [];
+  const nodes = response.explain_trace.nodes.map((node, i) => {
+    if (!node.sources) return node;
+    const sources = node.sources.filter(id => known.has(id));
+    if (sources.length === node.sources.length) return node;
+    issues.push({
+      code: "unknown_source",
+      severity: "repaired",
+      path: `explain_trace.nodes[${i}].sources`,
+      message: `Citations of unknown sources ${node.sources.filter(id => !known.has(id)).join(", ")} were dropped.`,
+    });
+    const { sources: _sources, ...rest } = node;
+    return sources.length > 0 ? { ...node, sources } : rest;
+  });
+  if (issues.length === 0) return response;
+  return {
+    ...response,
+    explain_trace: { ...response.explain_trace, nodes },
+    issues: [...(response.issues || []), ...issues],
+  };
+};
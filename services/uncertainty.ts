@@ -0,0 +1,43 @@
+import { Edge, ExplainTrace, Node } from "../types";
+
+// Numeric confidence and per-node/edge certainty. Traces stored before these fields existed
+// only have the three-level confidence, so every reader goes through the fallbacks below.
+
+const HIGH_SCORE = 0.75;
+const MEDIUM_SCORE = 0.45;
+// Stand-ins for traces that only carry the level
+const LEVEL_SCORES: Record<ExplainTrace["confidence"], number> = { high: 0.85, medium: 0.6, low: 0.3 };
+
+// Nodes and edges below this are called out as uncertain (halo, dashed outline, "Least certain")
+export const UNCERTAIN_THRESHOLD = 0.5;
+
+export const confidenceForScore = (score: number): ExplainTrace["confidence"] =>
+  score >= HIGH_SCORE ? "high" : score >= MEDIUM_SCORE ? "medium" : "low";
+
+export const confidenceScoreOf = (trace: ExplainTrace): number =>
+  trace.confidence_score ?? LEVEL_SCORES[trace.confidence] ?? LEVEL_SCORES.low;
+
+// Missing certainty means "not stated", which renders like a certain element.
+export const certaintyOf = (item: Node | Edge): number => item.certainty ?? 1;
+
+export const isUncertain = (item: Node | Edge) => item.certainty !== undefined && item.certainty < UNCERTAIN_THRESHOLD;
+
+// Nodes ordered from least to most certain, for pointing out where the doubt is.
+export const leastCertainNodes = (trace: ExplainTrace, limit: number): Node[] =>
+  trace.nodes
+    .filter(isUncertain)
+    .sort((a, b) => certaintyOf(a) - certaintyOf(b))
+    .slice(0, limit);
+
+const UNCERTAIN_GRAY = [148, 163, 184]; // slate-400
+
+/** Blends a #rrggbb color towards gray as certainty drops; certain elements keep their color. */
+export const desaturate = (hex: string, certainty: number): string => {
+  const match = /^#([0-9a-f]{6})$/i.exec(hex);
+  if (!match || certainty >= 1) return hex;
+  const amount = Math.max(0, Math.min(1, 1 - certainty)) * 0.75;
+  const value = parseInt(match[1], 16);
+  const channels = [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+    .map((c, i) => Math.round(c + (UNCERTAIN_GRAY[i] - c) * amount));
+  return `#${channels.map(c => c.toString(16).padStart(2, "0")).join("")}`;
+};
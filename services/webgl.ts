@@ -0,0 +1,9 @@
+// Whether the browser can create a WebGL context at all; the 3D view needs one.
+export const isWebGLAvailable = (): boolean => {
+  try {
+    const canvas = document.createElement("canvas");
+    return Boolean(canvas.getContext("webgl2") || canvas.getContext("webgl"));
+  } catch {
+    return false;
+  }
+};
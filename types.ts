@@ -11,6 +11,11 @@ export interface Node {
   type: 'intent' | 'fact' | 'intermediate' | 'conclusion' | 'constraint' | 'context';
   importance: number;
   stage_id: string;
+  certainty?: number; // 0..1, how sure the model is of this node; missing on older traces
+  // Ids of the source excerpts backing this node (grounded answers, mainly fact nodes)
+  sources?: string[];
+  // Consensus traces only: share of the samples that contained this node (0..1)
+  support?: number;
 }
 
 export interface Edge {
@@ -18,6 +23,8 @@ export interface Edge {
   target: string;
   relation_label: string;
   strength: number;
+  certainty?: number; // 0..1, as on Node
+  support?: number; // Consensus traces only, as on Node
 }
 
 export interface ExplainTrace {
@@ -25,14 +32,59 @@ export interface ExplainTrace {
   nodes: Node[];
   edges: Edge[];
   steps: string[];
+  // Optional, parallel to steps: the ids of the nodes each step works with
+  step_node_ids?: string[][];
   key_factors: string[];
   confidence: 'high' | 'medium' | 'low';
+  // 0..1; the level above is kept in step with it. Missing on older traces
+  confidence_score?: number;
   timestamp: string;
+  // Set when the trace merges several samples; confidence is then derived from their agreement
+  consensus?: ConsensusInfo;
+}
+
+export interface ConsensusInfo {
+  samples: number; // Generations that succeeded and were merged
+  agreement: number; // 0..1, blend of the two scores below
+  nodeAgreement: number; // Importance-weighted mean node support
+  answerAgreement: number; // Mean pairwise similarity of the answers
+  sampleAnswers: { answer: string; confidence: 'high' | 'medium' | 'low' }[];
+}
+
+export type TraceIssueCode =
+  | 'invalid_root'
+  | 'missing_answer'
+  | 'missing_trace'
+  | 'invalid_field'
+  | 'duplicate_id'
+  | 'unknown_node_type'
+  | 'out_of_range'
+  | 'orphan_node'
+  | 'dangling_edge'
+  | 'duplicate_edge'
+  | 'self_loop'
+  | 'empty_graph'
+  | 'unknown_source';
+
+// 'repaired' issues were fixed during normalization; 'fatal' ones leave the trace unusable.
+export interface TraceIssue {
+  code: TraceIssueCode;
+  severity: 'repaired' | 'fatal';
+  message: string;
+  path?: string;
 }
 
 export interface GeminiResponse {
   answer: string;
   explain_trace: ExplainTrace;
+  issues?: TraceIssue[];
+}
+
+// One generated answer for an AI message; regenerating adds siblings the user can flip between.
+export interface AnswerVersion {
+  text: string;
+  traceId?: string;
+  timestamp: string;
 }
 
 export interface Message {
@@ -42,15 +94,56 @@ export interface Message {
   timestamp: string;
   traceId?: string; // Links to a specific history item
   isThinking?: boolean;
+  isStreaming?: boolean; // Answer text is still arriving
+  failed?: boolean; // Text is an error or a stopped partial answer, not one of the versions
+  versions?: AnswerVersion[]; // AI messages only; text/traceId mirror versions[activeVersion]
+  activeVersion?: number;
+}
+
+// A local document attached to a conversation for grounded answers. Only the text is kept.
+export interface GroundingDocument {
+  id: string;
+  name: string;
+  kind: 'text' | 'markdown' | 'pdf';
+  text: string;
+  addedAt: string;
+}
+
+// An excerpt of a GroundingDocument that was given to the model; `id` is what nodes cite.
+export interface SourceChunk {
+  id: string;
+  documentId: string;
+  documentName: string;
+  text: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messages: Message[];
+  documents?: GroundingDocument[];
+  grounding?: boolean; // Answer from the attached documents
+  schemaVersion?: number; // Stamped when stored, see services/schemaMigrations.ts
 }
 
 export interface HistoryItem {
   id: string;
+  conversationId?: string; // Chat the trace was generated in
   question: string;
   answer: string;
   explain_trace: ExplainTrace;
   timestamp: string;
   thumbnail?: string;
+  issues?: TraceIssue[];
+  sources?: SourceChunk[]; // Excerpts the answer was grounded in
+  // User metadata
+  title?: string; // Shown instead of the question when set
+  pinned?: boolean;
+  tags?: string[];
+  note?: string; // Markdown
+  schemaVersion?: number; // Stamped when stored, see services/schemaMigrations.ts
 }
 
 export enum AppMode {